@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeJob } from '../../lib/jobAnalysis';
+import { MOCK_GENERATED_BY } from '../../lib/llm';
+import { jobPostingSchema } from '../../lib/schemas';
+import { validateBodyField } from '../../lib/requestFields';
+
+// Predict the skills, seniority, domain and technical/behavioral balance of an interview from the job description
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobDescription } = body;
+
+    if (!jobDescription) {
+      return NextResponse.json(
+        { error: 'Job description is required' },
+        { status: 400 }
+      );
+    }
+
+    // Fields of an imported job posting, as parsed on the setup screen
+    const jobPostingField = validateBodyField(body.jobPosting, jobPostingSchema, 'jobPosting', 'Invalid job posting');
+    if (jobPostingField.response) return jobPostingField.response;
+
+    const { analysis, generatedBy } = await analyzeJob(jobDescription, jobPostingField.data);
+
+    console.log(`Analyze Job API: Analyzed job description with ${generatedBy.provider} (summarized):`, {
+      seniority: analysis.seniority,
+      domain: analysis.domain,
+      requiredSkills: analysis.requiredSkills.length,
+      technicalPercent: analysis.technicalPercent
+    });
+
+    return NextResponse.json({
+      analysis,
+      generatedBy,
+      ...(generatedBy === MOCK_GENERATED_BY ? { isMock: true } : {})
+    });
+  } catch (error) {
+    console.error('Analyze Job API: Analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze job description' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,129 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import type { CodeSubmission, DeliveryMetrics, Diagram, FeedbackResponse, HistoryMessage, InterviewMode, Question } from '../../lib/types';
+import { getMockFeedback } from '../../lib/mock/feedback';
+import { deriveRandom, isValidSeed } from '../../lib/mock/random';
+import {
+  completeStructured,
+  describeProvider,
+  getLLMProvider,
+  MOCK_GENERATED_BY,
+  repairCompletion,
+  type GeneratedBy,
+  type LLMCompletionRequest,
+  type StructuredCompletion
+} from '../../lib/llm';
+import { describeCodeSubmission, withoutHiddenFollowUpTests } from '../../lib/codeSubmission';
+import { describeDelivery } from '../../lib/delivery';
+import { analyzeDiagram, describeDiagram } from '../../lib/diagram';
+import { describePanel, findPanelist, pickPanelist } from '../../lib/panel';
+import { describeResume } from '../../lib/resume';
+import { applyMockTone, getTemperamentInfo } from '../../lib/temperaments';
+import { applyMockPacing, describeAnswerTiming } from '../../lib/timing';
+import { describeCompanyProfile, findCompanyProfile } from '../../lib/companies';
+import { analyzeJobOffline } from '../../lib/jobAnalysis';
+import { getQuestionBank, selectBankQuestions, toInterviewQuestion } from '../../lib/questionBank';
+import { getInterviewMode, getQuestionMode, isInterviewMode, isQuestionMode, nextQuestionMode, resolveQuestionMode } from '../../lib/modes';
+import { describeRubric, getRubric } from '../../lib/rubric';
+import { answerTimingSchema, codeSubmissionSchema, createFeedbackSchema, deliveryMetricsSchema, diagramSchema, parseModelOutput, resumeProfileSchema } from '../../lib/schemas';
+import { validateBodyField } from '../../lib/requestFields';
+import { runCodeOnServer } from '../../lib/serverCodeRunner';
+import { getSessionHistory, getSessionStore, type InterviewSession, type SessionTurn } from '../../lib/session';
+import { createJsonStringFieldReader, formatServerSentEvent } from '../../lib/streaming';
 
-// Function to generate mock feedback for development/when API key is missing
-function getMockFeedback(userAnswer: string, question: string, category: string, company: string, difficulty: string = 'Technical Round', interviewMode: string = 'technical', generateFollowUp: boolean = false) {
-  console.log(`Using mock ${interviewMode} feedback (API key missing or in development)`);
-  
-  // Basic analysis of answer length and completeness
-  const answerLength = userAnswer.length;
-  let score = 3; // Default average score
-  
-  if (answerLength < 50) {
-    score = 2; // Too short
-  } else if (answerLength > 300) {
-    score = 4; // Detailed answer
-  }
-  
-  // Generate a more conversational follow-up if requested
-  let follow_up_question = '';
-  const follow_up_category = category;
-  
-  if (generateFollowUp) {
-    if (interviewMode === 'technical') {
-      const technicalFollowUps = [
-        `That's interesting. Can you elaborate on how you would implement this in a distributed system?`,
-        `How would your approach change if the requirements scaled by 10x?`,
-        `Let's dive deeper into the optimization aspect. How would you improve the efficiency?`,
-        `Could you walk me through how you'd test this solution?`,
-        `If you had to implement this at ${company}, what existing technologies might you leverage?`
-      ];
-      follow_up_question = technicalFollowUps[Math.floor(Math.random() * technicalFollowUps.length)];
-    } else {
-      const behavioralFollowUps = [
-        `That's a good example. Can you tell me about another situation where you demonstrated similar skills?`,
-        `If you were to face that situation again at ${company}, what would you do differently?`,
-        `How do you think that experience prepared you for the role at ${company}?`,
-        `What was the most challenging aspect of that situation, and how did you overcome it?`,
-        `How did that experience change your approach to teamwork or problem-solving?`
-      ];
-      follow_up_question = behavioralFollowUps[Math.floor(Math.random() * behavioralFollowUps.length)];
+// Append the answered question to the session and queue up the follow-up question
+async function recordTurn(sessionId: string, question: Question, userAnswer: string, feedback: FeedbackResponse, nextQuestion?: Question, code?: CodeSubmission, diagram?: Diagram, timing?: SessionTurn['timing'], delivery?: DeliveryMetrics) {
+  await getSessionStore().update(sessionId, session => {
+    // Keep the mode, key points and time limit of bank questions with the turn
+    const asked = session.questions.find(stored => stored.question === question.question);
+    session.turns.push({
+      question: { ...asked, ...question },
+      answer: userAnswer,
+      feedback,
+      code,
+      diagram,
+      timing,
+      delivery,
+      timestamp: Date.now()
+    });
+
+    if (nextQuestion) {
+      session.questions.push(nextQuestion);
     }
-  }
-  
-  let feedbackResponse;
+  });
+}
+
+// Open a Server-Sent Events response and let the producer push events into it
+function streamEvents(producer: (send: (event: string, data: unknown) => void) => Promise<void>) {
+  const encoder = new TextEncoder();
   
-  if (interviewMode === 'technical') {
-    // For technical interviews
-    // Check for keywords that might indicate a good answer
-    const positiveKeywords = ['algorithm', 'complexity', 'optimize', 'efficient', 'scale', 'tradeoff', 'example'];
-    const positiveCount = positiveKeywords.filter(keyword => 
-      userAnswer.toLowerCase().includes(keyword.toLowerCase())
-    ).length;
-    
-    if (positiveCount >= 3) {
-      score = Math.min(5, score + 1);
-    }
-    
-    feedbackResponse = {
-      feedback: `Your answer to the ${difficulty} question about ${category} shows some understanding of the core concepts. You provided ${answerLength < 100 ? 'a brief' : 'a detailed'} explanation and touched on some important points. For technical interviews at ${company || 'top companies'}, you'll want to ensure you provide concrete examples and discuss both theoretical concepts and practical implementations.`,
-      strengths: [
-        "Attempted to address the main question",
-        positiveCount > 0 ? "Used some technical terminology correctly" : "Provided a structured response",
-        answerLength > 200 ? "Gave a detailed explanation" : "Kept the answer concise"
-      ],
-      improvements: [
-        "Consider discussing time and space complexity more explicitly",
-        "Provide specific code examples where applicable",
-        "Mention how your solution would scale in a production environment"
-      ],
-      score: score,
-      follow_up: `Could you elaborate on how your solution would handle edge cases or performance constraints at scale?`,
-      follow_up_question: follow_up_question,
-      follow_up_category: follow_up_category
-    };
-  } else {
-    // For behavioral interviews
-    // Check for STAR method elements
-    const starKeywords = ['situation', 'task', 'action', 'result', 'example', 'learned', 'outcome'];
-    const starCount = starKeywords.filter(keyword => 
-      userAnswer.toLowerCase().includes(keyword.toLowerCase())
-    ).length;
-    
-    if (starCount >= 3) {
-      score = Math.min(5, score + 1);
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+      
+      try {
+        await producer(send);
+      } catch (error) {
+        console.error('Feedback stream error:', error);
+        send('error', { error: 'There was an error processing your answer. Please try again.' });
+      } finally {
+        controller.close();
+      }
     }
-    
-    feedbackResponse = {
-      feedback: `Your response to the ${category} question demonstrates some understanding of the STAR method. You provided ${answerLength < 150 ? 'a brief outline' : 'details'} of your experience, but could enhance your answer by clearly structuring it around the Situation, Task, Action, and Result framework. For behavioral interviews at ${company}, it's important to provide specific, measurable outcomes from your experiences.`,
-      strengths: [
-        "Shared a relevant personal experience",
-        starCount > 2 ? "Included elements of the STAR method" : "Provided some context for your actions",
-        answerLength > 200 ? "Gave a comprehensive answer" : "Kept your response focused"
-      ],
-      improvements: [
-        "Clearly outline the situation, task, action, and result in your answer",
-        "Quantify your achievements with specific metrics where possible",
-        "Connect your experience more explicitly to the role at " + company
-      ],
-      score: score,
-      follow_up: `Can you tell me more about what you personally learned from this experience and how it would apply to your potential role at ${company}?`,
-      follow_up_question: follow_up_question,
-      follow_up_category: follow_up_category
-    };
-  }
-  
-  console.log("Mock feedback response (summarized):", {
-    score: feedbackResponse.score,
-    hasFollowUp: !!feedbackResponse.follow_up_question,
-    followUpCategory: feedbackResponse.follow_up_category
   });
   
-  return feedbackResponse;
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const body = await request.json();
     const { 
       userAnswer, 
       question, 
       category, 
-      company, 
       difficulty = 'Technical Round', 
-      interviewMode = 'technical',
+      generateFollowUp = false,
+      sessionId
+    } = body;
+    // Stream feedback as Server-Sent Events when asked to in the body or the Accept header
+    const stream = body.stream === true || !!request.headers.get('accept')?.includes('text/event-stream');
+    let { 
+      company, 
       conversationHistory = [],
-      generateFollowUp = false
-    } = await request.json();
+      jobDescription
+    } = body;
+    
+    let interviewMode: InterviewMode = isInterviewMode(body.interviewMode) ? body.interviewMode : 'technical';
+    let temperament = getTemperamentInfo(body.temperament);
+    // High-pressure interviewers cut long voice answers short
+    const interrupted = body.interrupted === true;
     
     if (!userAnswer || !question) {
       return NextResponse.json(
@@ -132,25 +113,157 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.log('OpenAI API key missing - using mock feedback');
+    // The candidate's resume, as parsed on the setup screen
+    const resumeField = validateBodyField(body.resume, resumeProfileSchema, 'resume', 'Invalid resume');
+    if (resumeField.response) return resumeField.response;
+    let resume = resumeField.data;
+
+    // Coding answers come with the editor contents and the test results from the browser sandbox
+    const codeField = validateBodyField(body.code, codeSubmissionSchema, 'code', 'Invalid code submission');
+    if (codeField.response) return codeField.response;
+    let code = codeField.data;
+
+    // System design answers can come with the whiteboard diagram, already parsed to components and edges
+    const diagramField = validateBodyField(body.diagram, diagramSchema, 'diagram', 'Invalid diagram');
+    if (diagramField.response) return diagramField.response;
+    const diagram = diagramField.data;
+
+    // How long the question and the spoken answer took, measured by the page's countdown
+    const timingField = validateBodyField(body.timing, answerTimingSchema, 'timing', 'Invalid timing');
+    if (timingField.response) return timingField.response;
+    const answerTiming = timingField.data;
+
+    // Pace, filler words and pauses of the spoken answer, measured by the recorder
+    const deliveryField = validateBodyField(body.delivery, deliveryMetricsSchema, 'delivery', 'Invalid delivery metrics');
+    if (deliveryField.response) return deliveryField.response;
+    const delivery = deliveryField.data;
+
+    // When a session is given, the stored session is the source of truth for context and history
+    let session: InterviewSession | null = null;
+    if (sessionId) {
+      session = await getSessionStore().get(sessionId);
+      
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
       
-      // Return mock feedback when no API key is available
-      const mockFeedback = getMockFeedback(userAnswer, question, category, company, difficulty, interviewMode, generateFollowUp);
-      return NextResponse.json(mockFeedback);
+      company = session.company;
+      interviewMode = session.interviewMode;
+      temperament = getTemperamentInfo(session.temperament);
+      jobDescription = session.jobDescription;
+      resume = session.resume;
+      conversationHistory = [
+        ...getSessionHistory(session, 4),
+        { role: 'assistant', content: question },
+        { role: 'user', content: userAnswer }
+      ] satisfies HistoryMessage[];
     }
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    // Session questions carry their mode; without a session the client may say which mode the question was
+    const asked = session?.questions.find(stored => stored.question === question);
+    const questionMode = resolveQuestionMode(interviewMode, asked || { mode: isQuestionMode(body.questionMode) ? body.questionMode : undefined });
+    // Mixed interviews switch question type for the follow-up
+    const followUpMode = nextQuestionMode(interviewMode, questionMode);
+    const panel = session?.panel;
+    const askingPanelist = findPanelist(panel, asked?.panelistId);
+    // Pacing is judged against the limit the candidate saw, else the question's or its mode's
+    const timing = answerTiming && {
+      ...answerTiming,
+      limitSeconds: answerTiming.limitSeconds ?? asked?.timeLimitSeconds ?? getQuestionMode(questionMode).timeLimitSeconds
+    };
+    // Hidden tests only live in the session, so the answer is graded on the server's run of every test, not the
+    // browser's. Follow-ups about the solution use the tests of the coding question before them.
+    const codingSpec = asked && session?.questions.slice(0, session.questions.indexOf(asked) + 1).reverse().find(stored => stored.coding)?.coding;
+    if (code && codingSpec) {
+      code = { ...code, results: await runCodeOnServer(code, codingSpec) };
+      console.log(`Code runner: Server run passed ${code.results?.passed}/${code.results?.total} tests`);
+    }
 
-    // Generate feedback based on interview mode
+    // Record the turn in the session (if any) before sending the feedback back
+    const finalize = async (feedback: FeedbackResponse, generatedBy: GeneratedBy, nextQuestion?: Question) => {
+      let followUp: Question | undefined = nextQuestion || (feedback.follow_up_question
+        ? { question: feedback.follow_up_question, category: feedback.follow_up_category || category, difficulty: 'Follow-up', mode: followUpMode, coding: feedback.follow_up_coding, timeLimitSeconds: getQuestionMode(followUpMode).timeLimitSeconds }
+        : undefined);
+      // In a panel, the follow-up goes to the model's pick or to whoever's focus fits it best
+      if (panel && followUp) {
+        followUp = { ...followUp, panelistId: findPanelist(panel, feedback.follow_up_panelist)?.id || pickPanelist(panel, followUp, askingPanelist?.id) };
+      }
+      const attributedFeedback = { ...feedback, follow_up_panelist: followUp?.panelistId, follow_up_coding: followUp?.coding, follow_up_time_limit_seconds: followUp?.timeLimitSeconds, generatedBy };
+      if (session) {
+        await recordTurn(session.id, { question, category, difficulty, mode: questionMode, panelistId: askingPanelist?.id }, userAnswer, attributedFeedback, followUp, code, diagram, timing, delivery);
+      }
+      // The session keeps the follow-up's hidden tests; the page only gets the visible ones
+      return withoutHiddenFollowUpTests(attributedFeedback);
+    };
+    
+    const respond = async (feedback: FeedbackResponse, generatedBy: GeneratedBy, nextQuestion?: Question) => {
+      return NextResponse.json(await finalize(feedback, generatedBy, nextQuestion));
+    };
+
+    // Key points from the question bank, when the question came from there
+    const keyPoints = asked?.keyPoints;
+    
+    // The same seed, question and answer always give the same offline feedback and next question
+    const seed = session?.seed ?? (isValidSeed(body.seed) ? body.seed : undefined);
+    const seededRandom = (purpose: string) => (seed !== undefined ? deriveRandom(seed, purpose, question, userAnswer) : Math.random);
+    const mockFeedback = (): FeedbackResponse => {
+      const feedback = getMockFeedback(userAnswer, question, category, company, difficulty, questionMode, generateFollowUp, keyPoints, seededRandom('follow-up'), code, diagram);
+      const paced = timing ? applyMockPacing(feedback, timing, timing.limitSeconds) : feedback;
+      return { ...paced, feedback: applyMockTone(temperament, paced.feedback, interrupted) };
+    };
+
+    const provider = getLLMProvider('chat');
+
+    if (provider.isMock) {
+      console.log('No LLM provider configured - using mock feedback');
+      
+      // Offline interviews move on to another bank question that fits the role instead of a canned follow-up
+      let nextQuestion: Question | undefined;
+      if (generateFollowUp) {
+        const [next] = selectBankQuestions(await getQuestionBank(), {
+          mode: followUpMode,
+          company,
+          jobAnalysis: session?.jobAnalysis || (jobDescription ? analyzeJobOffline(jobDescription) : undefined),
+          count: 1,
+          exclude: [question, ...(session?.questions.map(stored => stored.question) || [])],
+          random: seededRandom('next-question')
+        });
+        nextQuestion = next && toInterviewQuestion(next);
+      }
+      const offlineFeedback = (): FeedbackResponse => {
+        const feedback = mockFeedback();
+        return nextQuestion
+          ? { ...feedback, follow_up_question: nextQuestion.question, follow_up_category: nextQuestion.category }
+          : feedback;
+      };
+      
+      // Return mock feedback when no provider is available
+      if (stream) {
+        return streamEvents(async send => {
+          const feedback = offlineFeedback();
+          // Stream the canned feedback word by word so the UI behaves the same offline
+          for (const word of feedback.feedback.match(/\S+\s*/g) || []) {
+            send('feedback', { delta: word });
+          }
+          send('result', await finalize(feedback, MOCK_GENERATED_BY, nextQuestion));
+        });
+      }
+      
+      return respond(offlineFeedback(), MOCK_GENERATED_BY, nextQuestion);
+    }
+
+    // Generate feedback based on the question's mode
+    const rubric = getRubric(questionMode);
+    const feedbackSchema = createFeedbackSchema(rubric);
+    const companyProfile = await findCompanyProfile(company);
     let promptContent = '';
     
     // Create a prompt for natural, detailed, and direct interview feedback
     promptContent = `
-      You are an experienced ${interviewMode} interviewer for ${company || 'a leading tech company'}, helping a candidate prepare.
+      You are an experienced ${getInterviewMode(interviewMode).interviewer} for ${company || 'a leading tech company'}, helping a candidate prepare.
       
       The candidate is practicing for an interview at ${company}.
       Your job is to evaluate their answer to the latest question and provide natural, detailed feedback that will help them improve.
@@ -159,89 +272,133 @@ export async function POST(request: NextRequest) {
       ${conversationHistory.map((msg: {role: string, content: string}) => `${msg.role === 'user' ? 'Candidate' : 'Interviewer'}: ${msg.content}`).join('\n\n')}
       
       Latest question: "${question}"
-      Latest answer: "${userAnswer}"
-      
+      Latest answer: "${userAnswer}"${interrupted ? `
+      You cut the candidate off mid-answer because they were running long. Judge what they said, and open your feedback by telling them to get to the point faster.` : ''}${timing ? `
+      ${describeAnswerTiming(timing, timing.limitSeconds)}` : ''}${delivery ? `
+      How the answer sounded (the candidate sees these numbers separately, so only mention delivery if it got in the way): ${describeDelivery(delivery)}` : ''}
+      ${keyPoints ? `
+      Key points a strong answer to this question covers (use them when judging completeness, but credit other valid points too):
+      ${keyPoints.map(point => `- ${point}`).join('\n')}
+      ` : ''}      ${companyProfile ? `
+      What ${companyProfile.name} looks for (judge the answer against this profile, not your memory of the company):
+      ${describeCompanyProfile(companyProfile, questionMode)}
+      ` : ''}${resume ? `
+      The candidate's resume:
+      ${describeResume(resume, jobDescription)}
+      ` : ''}${panel ? `
+      This is a panel interview. ${askingPanelist ? `${askingPanelist.name} (${askingPanelist.role}) asked the latest question.` : ''} The panelists are:
+      ${describePanel(panel)}
+      ` : ''}${code ? `
+      Alongside their spoken answer, the candidate wrote this in the editor:
+      ${describeCodeSubmission(code)}
+      ` : ''}${diagram ? `
+      Alongside their spoken answer, the candidate drew this on the whiteboard (the structural checks were run on the diagram, not judged by you):
+      ${describeDiagram(diagram, analyzeDiagram(diagram))}
+      When the diagram has problems, name the specific components in your feedback and improvements (for example "Orders DB has no replica"), and check that what they said matches what they drew.
+      ` : ''}
       FEEDBACK GUIDELINES:
       - Provide direct, honest feedback that sounds like a real interviewer talking
       - Be detailed and specific about what worked and what didn't in their answer
       - Don't use formulas or templates that make your feedback sound repetitive
       - Don't use phrases like "here's my feedback" or "overall" - just speak naturally
-      - Balance honesty with helpfulness - be constructive without being harsh
+      - ${temperament.feedbackTone}
       - No generic advice - every piece of feedback should directly relate to what they said
-      - For technical answers, evaluate correctness, completeness, and communication
-      - For behavioral answers, evaluate structure, specificity, relevance, and impact
       - Keep your feedback to about 3-4 sentences that flow naturally
       
-      ${interviewMode === 'behavioral' ? `
-      For this behavioral question:
-      - Assess if they told a clear story with a beginning, middle, and end
-      - Check if their example was relevant to the question and showed key skills
-      - Evaluate if they explained their specific role and contributions
-      - Note if they shared measurable results or lessons learned
-      - Mention STAR method (Situation, Task, Action, Result) only if they clearly didn't follow it
-      ` : `
-      For this technical question:
-      - Assess the accuracy and completeness of their technical approach
-      - Evaluate whether they considered edge cases, optimizations, and tradeoffs
-      - Check if they communicated complex ideas clearly and logically
-      - Note any important technical concepts they missed
-      `}
+      ${getQuestionMode(questionMode).feedbackGuidelines}
+      
+      SCORING RUBRIC:
+      Score each of these dimensions from 1-5 on its own, with a one-sentence justification that points at what they said:
+      ${describeRubric(rubric)}
       
       Then, create a natural follow-up question that:
       - Flows naturally from their answer
       - Digs deeper into an interesting aspect they mentioned
       - Helps them demonstrate more relevant skills
       - Sounds like what a real interviewer would ask next
+      - ${temperament.pushback}
+      - ${temperament.questionStyle}${followUpMode !== questionMode ? `
+      - Is a ${followUpMode} question, since this interview alternates question types (it can still build on their answer)` : ''}${resume ? `
+      - Where it fits, asks about a specific project or role from their resume, or probes a gap between the resume and the job description` : ''}${panel ? `
+      - Comes from the panelist whose focus fits it best, usually someone other than the last to ask, phrased the way they would ask it` : ''}
       
-      Format your response as a JSON object with:
+      Format your response as a JSON object with these fields, starting with "feedback":
       - "feedback": Your natural, conversational feedback (don't include "overall" or similar phrases)
       - "strengths": Array of 2-3 specific strengths (short phrases)
       - "improvements": Array of 2-3 specific actionable improvements (short phrases)
-      - "score": Rating from 1-5
+      - "dimensions": Array with one object per rubric dimension, each with "dimension" (the id in quotes above), "score" (1-5) and "justification"
       - "follow_up_question": The next question you would naturally ask
-      - "follow_up_category": The category this follow-up fits into
+      - "follow_up_category": The category this follow-up fits into${panel ? `
+      - "follow_up_panelist": The id of the panelist who asks the follow-up` : ''}${getQuestionMode(questionMode).feedbackFields || ''}
     `;
 
-    try {
-      const completion = await openai.chat.completions.create({
-        messages: [{ role: 'user', content: promptContent }],
-        model: 'gpt-4o-mini',
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-      });
+    // Parse the model's JSON feedback and check every field the UI relies on
+    const parseFeedback = (content: string) => parseModelOutput(content, feedbackSchema);
 
-      try {
-        const responseContent = completion.choices[0]?.message?.content || '{}';
-        const feedback = JSON.parse(responseContent);
-        
-        console.log("OpenAI feedback response (summarized):", {
-          score: feedback.score,
-          hasFollowUp: !!feedback.follow_up_question,
-          followUpCategory: feedback.follow_up_category,
-          feedbackPreview: feedback.feedback?.substring(0, 50) + '...'
-        });
+    const feedbackRequest: LLMCompletionRequest = {
+      messages: [{ role: 'user', content: promptContent }],
+      json: true,
+      temperature: 0.7,
+    };
+
+    // Fall back to the mock only once the repair retry has also failed, and say which fields were wrong
+    const invalidFeedback = (invalidFields: string[]) => ({ ...mockFeedback(), invalidFields });
+
+    if (stream) {
+      return streamEvents(async send => {
+        const feedbackReader = createJsonStringFieldReader('feedback');
+        let responseContent = '';
+        let result: StructuredCompletion<FeedbackResponse>;
         
-        // Ensure the follow_up field exists for compatibility
-        if (!feedback.follow_up && feedback.follow_up_question) {
-          feedback.follow_up = feedback.follow_up_question;
+        try {
+          for await (const chunk of provider.stream(feedbackRequest)) {
+            responseContent += chunk;
+            const delta = feedbackReader.push(chunk);
+            if (delta) {
+              send('feedback', { delta });
+            }
+          }
+          
+          // The streamed text stays on screen; a repaired result simply replaces it
+          result = await repairCompletion(provider, feedbackRequest, responseContent, parseFeedback);
+        } catch (apiError) {
+          console.error(`LLM provider stream error (${provider.name}):`, apiError);
+          send('result', await finalize(mockFeedback(), MOCK_GENERATED_BY));
+          return;
         }
         
-        return NextResponse.json(feedback);
-      } catch (parseError) {
-        console.error('Error parsing OpenAI response:', parseError);
+        if (!result.success) {
+          send('result', await finalize(invalidFeedback(result.invalidFields), MOCK_GENERATED_BY));
+          return;
+        }
         
-        // Return mock feedback on parsing error
-        return NextResponse.json(
-          getMockFeedback(userAnswer, question, category, company, difficulty, interviewMode, generateFollowUp)
-        );
+        console.log(`LLM streamed feedback from ${provider.name}/${provider.model} (score ${result.data.score}${result.repaired ? ', repaired' : ''})`);
+        send('result', await finalize(result.data, describeProvider(provider)));
+      });
+    }
+
+    try {
+      const result = await completeStructured(provider, feedbackRequest, parseFeedback);
+
+      if (!result.success) {
+        return respond(invalidFeedback(result.invalidFields), MOCK_GENERATED_BY);
       }
+      
+      const feedback = result.data;
+      console.log(`LLM feedback response from ${provider.name}/${provider.model} (summarized):`, {
+        score: feedback.score,
+        repaired: result.repaired,
+        hasFollowUp: !!feedback.follow_up_question,
+        followUpCategory: feedback.follow_up_category,
+        feedbackPreview: feedback.feedback.substring(0, 50) + '...'
+      });
+      
+      return respond(feedback, describeProvider(provider));
     } catch (apiError) {
-      console.error('OpenAI API error:', apiError);
+      console.error(`LLM provider error (${provider.name}):`, apiError);
       
       // Return mock feedback on API error
-      return NextResponse.json(
-        getMockFeedback(userAnswer, question, category, company, difficulty, interviewMode, generateFollowUp)
-      );
+      return respond(mockFeedback(), MOCK_GENERATED_BY);
     }
   } catch (error) {
     console.error('Feedback error:', error);
@@ -251,6 +408,7 @@ export async function POST(request: NextRequest) {
         strengths: [],
         improvements: [],
         score: 0,
+        dimensions: [],
         follow_up: "",
         follow_up_question: "Let's move on to another topic. Can you tell me about your background?"
       },
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getCompanyProfiles } from '../../lib/companies';
+
+// Company names with a local profile pack, for the setup page's autocomplete
+export async function GET() {
+  try {
+    const profiles = await getCompanyProfiles();
+
+    return NextResponse.json({
+      companies: profiles.map(profile => ({ name: profile.name, aliases: profile.aliases }))
+    });
+  } catch (error) {
+    console.error('Companies API: Failed to load company profiles:', error);
+    return NextResponse.json(
+      { error: 'Failed to load company profiles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractDocumentText, getDocumentKind, MAX_DOCUMENT_BYTES } from '../../lib/documents';
+import { extractJobFields, parseJobPostingHtml } from '../../lib/jobPosting';
+
+// Import a job description from a PDF, DOCX, plain text or saved job posting page
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const postingFile = formData.get('file');
+
+    if (!(postingFile instanceof File) || postingFile.size === 0) {
+      console.error('Job Description API: No file provided in request');
+      return NextResponse.json(
+        { error: 'No job description file provided' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Job Description API: Received ${postingFile.name} (${postingFile.type || 'unknown type'}, ${postingFile.size} bytes)`);
+
+    const kind = getDocumentKind(postingFile);
+    if (!kind) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a PDF, DOCX, HTML or plain text job description.' },
+        { status: 400 }
+      );
+    }
+
+    if (postingFile.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json(
+        { error: 'Job description file is too large (5 MB maximum)' },
+        { status: 413 }
+      );
+    }
+
+    // Saved posting pages go through the job board parsers, which strip navigation and boilerplate
+    let result;
+    if (kind === 'html') {
+      result = parseJobPostingHtml(await postingFile.text());
+    } else {
+      const text = await extractDocumentText(postingFile);
+      result = { text, posting: extractJobFields(text) };
+    }
+
+    if (!result.text) {
+      return NextResponse.json(
+        { error: 'No text could be extracted from the job description' },
+        { status: 422 }
+      );
+    }
+
+    console.log('Job Description API: Parsed job description (summarized):', {
+      title: result.posting.title,
+      level: result.posting.level,
+      requirements: result.posting.requirements.length,
+      niceToHaves: result.posting.niceToHaves.length
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Job Description API: Parsing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read job description' },
+      { status: 500 }
+    );
+  }
+}
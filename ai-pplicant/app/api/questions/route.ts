@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportQuestionBank, importQuestions } from '../../lib/questionBank';
+import { isQuestionMode } from '../../lib/modes';
+
+// Export the question bank as JSON, optionally filtered by mode, skill or company tag
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const mode = params.get('mode') || undefined;
+    if (mode !== undefined && !isQuestionMode(mode)) {
+      return NextResponse.json(
+        { error: `Unknown question mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    const bank = await exportQuestionBank({
+      mode,
+      skill: params.get('skill') || undefined,
+      company: params.get('company') || undefined
+    });
+
+    const headers: Record<string, string> = {};
+    if (params.get('download')) {
+      headers['Content-Disposition'] = 'attachment; filename="question-bank.json"';
+    }
+
+    return NextResponse.json(bank, { headers });
+  } catch (error) {
+    console.error('Questions API: Failed to export question bank:', error);
+    return NextResponse.json(
+      { error: 'Failed to export question bank' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import questions in the export format; questions with an existing ID replace it
+export async function POST(request: NextRequest) {
+  try {
+    const result = await importQuestions(await request.text());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid question bank',
+          invalidFields: result.errors.map(error => `${error.field}: ${error.message}`)
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Questions API: Imported ${result.imported} questions (${result.total} in the bank)`);
+    return NextResponse.json({ imported: result.imported, total: result.total });
+  } catch (error) {
+    console.error('Questions API: Failed to import questions:', error);
+    return NextResponse.json(
+      { error: 'Failed to import questions' },
+      { status: 500 }
+    );
+  }
+}
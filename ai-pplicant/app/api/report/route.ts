@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockPanelAssessments, getMockReport } from '../../lib/mock/report';
+import { getScoredTurns, scoreSession, summarizeDelivery, summarizeTimeSpent, type ScoredTurn } from '../../lib/report';
+import { getSessionStore } from '../../lib/session';
+import { describeProvider, getLLMProvider, MOCK_GENERATED_BY } from '../../lib/llm';
+import { getInterviewMode } from '../../lib/modes';
+import { describePanel, findPanelist } from '../../lib/panel';
+import { getTemperamentInfo } from '../../lib/temperaments';
+import { formatDuration } from '../../lib/timing';
+import type { ImprovementTheme, InterviewReport } from '../../lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSessionStore().get(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const turns = getScoredTurns(session);
+    const provider = getLLMProvider('report');
+
+    // Nothing for the model to synthesize without scored answers
+    if (provider.isMock || turns.length === 0) {
+      console.log('Report API: Using mock report');
+      return NextResponse.json({ report: getMockReport(session), isMock: true, generatedBy: MOCK_GENERATED_BY });
+    }
+
+    // Scores are always computed locally so they match the per-answer feedback exactly
+    const scores = scoreSession(session);
+
+    // Panel interviews say who asked each question
+    const askedBy = (turn: ScoredTurn) => {
+      const panelist = findPanelist(session.panel, turn.question.panelistId);
+      return panelist ? `, asked by ${panelist.name}` : '';
+    };
+    // Timed answers let the debrief comment on pacing
+    const timeSpent = summarizeTimeSpent(session);
+    const delivery = summarizeDelivery(session);
+    const timeOn = (turn: ScoredTurn) => (turn.timing ? `\n      Time: ${formatDuration(turn.timing.questionSeconds)} of a recommended ${formatDuration(turn.timing.limitSeconds)}` : '');
+    // Older sessions have no temperament and read as neutral
+    const temperament = getTemperamentInfo(session.temperament);
+
+    const promptContent = `
+      You are an experienced ${getInterviewMode(session.interviewMode).interviewer} for ${session.company} writing the end-of-interview debrief for a candidate.
+
+      Below is the feedback given on each of their answers:
+      ${turns.map((turn, index) => `
+      Question ${index + 1} (${turn.question.category}${askedBy(turn)}): "${turn.question.question}"
+      Score: ${turn.feedback.score}/5
+      Strengths: ${(turn.feedback.strengths || []).join('; ')}
+      Improvements: ${(turn.feedback.improvements || []).join('; ')}${timeOn(turn)}`).join('\n')}
+
+      Overall average score: ${scores.overallScore}/5
+      ${temperament.id !== 'neutral' ? `
+      The interviewer played a ${temperament.label.toLowerCase()} style (${temperament.description.toLowerCase()}). Judge the answers on substance, but credit composure under that style.
+      ` : ''}      ${session.panel ? `
+      This was a panel interview. The panelists are:
+      ${describePanel(session.panel)}
+      ` : ''}${timeSpent ? `
+      They spent ${formatDuration(timeSpent.totalSeconds)} answering${timeSpent.budgetSeconds ? ` out of a ${formatDuration(timeSpent.budgetSeconds)} interview` : ''} and went over the recommended time on ${timeSpent.overLimitCount} of ${timeSpent.questions.length} questions. Mention pacing in the summary if it was a problem.
+      ` : ''}${delivery ? `
+      Their delivery averaged ${delivery.averageWordsPerMinute} words per minute and ${delivery.averageFillerRate} filler words per 100 words, with ${delivery.totalLongPauses} long pauses.${delivery.notes.length > 0 ? ` ${delivery.notes.join(' ')}` : ''}
+      ` : ''}
+      REPORT GUIDELINES:
+      - Identify strengths that recur across several answers, phrased as short phrases
+      - Merge improvements that describe the same underlying problem into a single theme
+      - Pick the three most important improvement themes and count how many answers each one applies to
+      - Write a 2-3 sentence summary that speaks directly to the candidate
+
+      Format your response as a JSON object with:
+      - "summary": The debrief summary
+      - "recurringStrengths": Array of 1-3 recurring strengths (short phrases)
+      - "improvementThemes": Array of exactly 3 objects with "theme" (short phrase) and "occurrences" (number of answers)${session.panel ? `
+      - "panelAssessments": Array with one object per panelist, each with "panelist" (the id in quotes above) and "assessment" (2 sentences in that panelist's voice about the answers to their own questions)` : ''}
+    `;
+
+    try {
+      const content = await provider.complete({
+        messages: [{ role: 'user', content: promptContent }],
+        json: true,
+        temperature: 0.3,
+      });
+
+      const parsed = JSON.parse(content || '{}');
+
+      const report: InterviewReport = {
+        ...scores,
+        recurringStrengths: Array.isArray(parsed.recurringStrengths) ? parsed.recurringStrengths.slice(0, 3) : [],
+        improvementThemes: Array.isArray(parsed.improvementThemes)
+          ? parsed.improvementThemes.slice(0, 3).map((theme: ImprovementTheme) => ({
+              theme: String(theme.theme),
+              occurrences: Number(theme.occurrences) || 1
+            }))
+          : [],
+        summary: parsed.summary || '',
+        ...(timeSpent ? { timeSpent } : {}),
+        ...(delivery ? { delivery } : {})
+      };
+
+      // Scores and verdicts stay local; the model only writes each panelist's assessment
+      if (session.panel) {
+        const written: { panelist?: unknown; assessment?: unknown }[] = Array.isArray(parsed.panelAssessments) ? parsed.panelAssessments : [];
+        report.panelAssessments = getMockPanelAssessments(session).map(assessment => {
+          const fromModel = written.find(entry => entry.panelist === assessment.panelistId)?.assessment;
+          return typeof fromModel === 'string' && fromModel.trim() ? { ...assessment, assessment: fromModel.trim() } : assessment;
+        });
+      }
+
+      // Fill in anything the model left out from the offline report
+      if (!report.summary || report.improvementThemes.length === 0) {
+        const fallback = getMockReport(session);
+        report.summary = report.summary || fallback.summary;
+        report.improvementThemes = report.improvementThemes.length > 0 ? report.improvementThemes : fallback.improvementThemes;
+        report.recurringStrengths = report.recurringStrengths.length > 0 ? report.recurringStrengths : fallback.recurringStrengths;
+      }
+
+      console.log('Report API: Generated report (summarized):', {
+        overallScore: report.overallScore,
+        questionCount: report.questionCount,
+        themes: report.improvementThemes.length
+      });
+
+      return NextResponse.json({ report, generatedBy: describeProvider(provider) });
+    } catch (apiError) {
+      console.error(`Report API: LLM provider error (${provider.name}):`, apiError);
+
+      // Return the offline report on API or parsing error
+      return NextResponse.json({ report: getMockReport(session), isMock: true, generatedBy: MOCK_GENERATED_BY });
+    }
+  } catch (error) {
+    console.error('Report API: Report generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractDocumentText, getDocumentKind, MAX_DOCUMENT_BYTES } from '../../lib/documents';
+import { parseResume } from '../../lib/resume';
+
+// Extract a structured profile from an uploaded resume (PDF, DOCX or plain text)
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const resumeFile = formData.get('resume');
+
+    if (!(resumeFile instanceof File) || resumeFile.size === 0) {
+      console.error('Resume API: No resume file provided in request');
+      return NextResponse.json(
+        { error: 'No resume file provided' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Resume API: Received ${resumeFile.name} (${resumeFile.type || 'unknown type'}, ${resumeFile.size} bytes)`);
+
+    if (!getDocumentKind(resumeFile)) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a PDF, DOCX or plain text resume.' },
+        { status: 400 }
+      );
+    }
+
+    if (resumeFile.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json(
+        { error: 'Resume file is too large (5 MB maximum)' },
+        { status: 413 }
+      );
+    }
+
+    const text = await extractDocumentText(resumeFile);
+
+    if (!text) {
+      // Scanned PDFs have no text layer to extract
+      return NextResponse.json(
+        { error: 'No text could be extracted from the resume' },
+        { status: 422 }
+      );
+    }
+
+    const profile = parseResume(text);
+
+    console.log('Resume API: Parsed resume (summarized):', {
+      roles: profile.roles.length,
+      projects: profile.projects.length,
+      skills: profile.skills.length
+    });
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('Resume API: Resume parsing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read resume' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withoutHiddenFollowUpTests, withoutHiddenQuestionTests, withoutHiddenTestDetails } from '../../../lib/codeSubmission';
+import { getSessionStore } from '../../../lib/session';
+
+interface SessionRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: SessionRouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSessionStore().get(id);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // The stored session keeps the hidden tests of coding questions; the page only learns whether they passed
+    return NextResponse.json({
+      session: {
+        ...session,
+        questions: session.questions.map(withoutHiddenQuestionTests),
+        turns: session.turns.map(turn => ({
+          ...turn,
+          question: withoutHiddenQuestionTests(turn.question),
+          feedback: turn.feedback && withoutHiddenFollowUpTests(turn.feedback),
+          code: turn.code?.results ? { ...turn.code, results: withoutHiddenTestDetails(turn.code.results) } : turn.code,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Session API: Failed to load session:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: SessionRouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await getSessionStore().delete(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Session API: Deleted session ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Session API: Failed to delete session:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import { getSTTProvider } from '../../lib/stt';
 
 // Configure route handler for large files
 export const config = {
@@ -10,18 +10,23 @@ export async function POST(request: NextRequest) {
   // For server-side transcription of audio
   // This is a fallback for browsers that don't support SpeechRecognition API
   
-  if (!process.env.OPENAI_API_KEY) {
-    console.log("Transcribe API: No API key available, returning mock response");
-    // Return a mock transcript for development/testing when API key is missing
-    return NextResponse.json({
-      transcript: "This is a mock transcript since the transcription service is unavailable (API key missing)"
-    });
-  }
-
+  const provider = getSTTProvider();
+  
   try {
     console.log("Transcribe API: Processing incoming audio file");
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
+    // Verbose requests also get segments with word timestamps, confidence and the detected language
+    const verbose = formData.get('verbose') === 'true';
+    
+    if (!provider) {
+      console.log("Transcribe API: No STT provider available, returning mock response");
+      // Return a mock transcript for development/testing when no provider is configured; it has no timings
+      return NextResponse.json({
+        transcript: "This is a mock transcript since the transcription service is unavailable (API key missing)",
+        ...(verbose ? { language: 'en', segments: [] } : {})
+      });
+    }
     
     if (!audioFile) {
       console.error("Transcribe API: No audio file provided in request");
@@ -42,23 +47,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-
-    console.log("Transcribe API: Sending to OpenAI Whisper API for transcription");
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
+    const transcription = await provider.transcribe({
+      audio: audioFile,
       language: 'en', // Specify English to improve accuracy
-      response_format: 'json', // Ensure we get JSON back
+      verbose,
     });
 
-    console.log(`Transcribe API: Received transcription: "${transcription.text}"`);
+    console.log(`Transcribe API: Received transcription from ${provider.name}: "${transcription.text}"`);
     
     // Return an empty string if there's no transcription text
     if (!transcription.text || transcription.text.trim() === '') {
-      console.log("Transcribe API: Empty transcript received from OpenAI");
+      console.log(`Transcribe API: Empty transcript received from ${provider.name}`);
       return NextResponse.json({
         transcript: '',
         message: 'No speech detected'
@@ -66,7 +65,8 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json({
-      transcript: transcription.text
+      transcript: transcription.text,
+      ...(verbose ? { language: transcription.language, duration: transcription.duration, segments: transcription.segments || [] } : {})
     });
   } catch (error) {
     console.error('Transcribe API error:', error);
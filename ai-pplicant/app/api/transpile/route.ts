@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transpileSolution } from '../../lib/transpile';
+
+const MAX_SOURCE_LENGTH = 20000;
+
+// Strip the types from a TypeScript solution so the browser sandbox can run it
+export async function POST(request: NextRequest) {
+  try {
+    const { source } = await request.json();
+
+    if (typeof source !== 'string' || !source.trim()) {
+      return NextResponse.json(
+        { error: 'Source code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (source.length > MAX_SOURCE_LENGTH) {
+      return NextResponse.json(
+        { error: `Source code must be at most ${MAX_SOURCE_LENGTH} characters` },
+        { status: 413 }
+      );
+    }
+
+    const result = transpileSolution(source);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'TypeScript syntax error', invalidFields: result.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ code: result.code });
+  } catch (error) {
+    console.error('Transpile API: Transpile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compile TypeScript' },
+      { status: 500 }
+    );
+  }
+}
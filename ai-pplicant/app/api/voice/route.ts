@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTemperamentInfo, isTemperament } from '../../lib/temperaments';
+import { audioExtension, getTTSProvider } from '../../lib/tts';
 
 // Configure the API route for longer processing time
 export const config = {
   maxDuration: 30, // 30 seconds timeout
 };
 
+// Longest text we'll synthesize; questions and spoken feedback are far shorter
+const MAX_TEXT_LENGTH = 5000;
+
 // Create a mock audio response for development or when API key is missing
 async function getMockAudioResponse() {
   console.log('Voice API: Returning mock audio response');
@@ -23,8 +28,10 @@ async function getMockAudioResponse() {
 }
 
 export async function POST(request: NextRequest) {
+  const requestStartedAt = Date.now();
+
   try {
-    const { text, voiceId, priority = false, safari = false } = await request.json();
+    const { text, voiceId, temperament, priority = false, safari = false } = await request.json();
     
     // Get Safari information from headers as well
     const safariHeader = request.headers.get('x-safari-audio') === 'true';
@@ -33,8 +40,10 @@ export async function POST(request: NextRequest) {
     // Combine info sources
     const isSafari = safari || safariHeader;
     const isFeedback = priority || isFeedbackHeader;
+    // Each interviewer temperament has its own delivery
+    const voiceSettings = isTemperament(temperament) ? getTemperamentInfo(temperament).voice : undefined;
 
-    if (!text) {
+    if (!text || typeof text !== 'string') {
       console.error('Voice API: Text is required');
       return NextResponse.json(
         { error: 'Text is required' },
@@ -42,6 +51,14 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (text.length > MAX_TEXT_LENGTH) {
+      console.error(`Voice API: Text is ${text.length} characters, over the ${MAX_TEXT_LENGTH} limit`);
+      return NextResponse.json(
+        { error: `Text must be at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    
     // Log special handling cases
     if (isFeedback) {
       console.log('Voice API: Processing PRIORITY feedback audio request');
@@ -51,15 +68,15 @@ export async function POST(request: NextRequest) {
       console.log('Voice API: Processing request for Safari browser');
     }
 
-    // Check if API key is missing
-    if (!process.env.ELEVENLABS_API_KEY) {
-      console.log('Voice API: Using mock voice response (API key missing)');
+    const provider = getTTSProvider();
+
+    // Check if a speech engine is configured
+    if (!provider) {
+      console.log('Voice API: Using mock voice response (no TTS provider configured)');
       return getMockAudioResponse();
     }
 
-    // Use default voice if not provided
-    const selectedVoiceId = voiceId || 'xctasy8XvGp2cVO9HL9k'; // Custom voice ID
-    console.log(`Voice API: Using voice ID ${selectedVoiceId} for ${isFeedback ? 'FEEDBACK' : 'regular'} text: "${text.substring(0, 50)}..."`);
+    console.log(`Voice API: Using ${provider.name} for ${isFeedback ? 'FEEDBACK' : 'regular'} text: "${text.substring(0, 50)}..."`);
 
     // Optimize text for audio if it's a feedback message
     let processedText = text;
@@ -77,80 +94,94 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    try {
-      // Direct fetch to ElevenLabs API with optimized settings for feedback
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${selectedVoiceId}`,
-        {
-          method: 'POST',
-          headers: {
-            'Accept': 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': process.env.ELEVENLABS_API_KEY,
-          },
-          body: JSON.stringify({
-            text: processedText,
-            model_id: 'eleven_multilingual_v2',
-            voice_settings: {
-              stability: isFeedback ? 0.80 : 0.5, // Higher stability for feedback
-              similarity_boost: isFeedback ? 0.85 : 0.75, // Better clarity for feedback
-            },
-          }),
-        }
-      );
+    // Safari-specific headers if needed
+    const safariSpecificHeaders: Record<string, string> = {};
+    if (isSafari) {
+      Object.assign(safariSpecificHeaders, {
+        'X-Content-Type-Options': 'nosniff',
+        'X-Audio-Type': isFeedback ? 'feedback' : 'regular',
+        'X-Safari-Compatible': 'true'
+      });
+    }
+    
+    // Feedback-specific headers
+    const feedbackSpecificHeaders: Record<string, string> = {};
+    if (isFeedback) {
+      Object.assign(feedbackSpecificHeaders, {
+        'X-Feedback-Audio': 'true',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache'
+      });
+    }
 
-      if (!response.ok) {
-        console.error(`Voice API: ElevenLabs API error: ${response.status}`);
-        // Try to get more detailed error info from the response
-        try {
-          const errorData = await response.json();
-          console.error('Voice API: Error details:', errorData);
-        } catch {
-          // Ignore if we can't parse the error response
-        }
-        return getMockAudioResponse();
-      }
+    const corsHeaders = {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Range, X-Safari-Audio, X-Is-Feedback',
+      'Access-Control-Expose-Headers': 'X-TTS-Provider, X-Audio-Streamed',
+    };
 
-      // Get the audio data
-      const audioArrayBuffer = await response.arrayBuffer();
-      console.log(`Voice API: Successfully generated ${isFeedback ? 'FEEDBACK' : 'regular'} audio (${audioArrayBuffer.byteLength} bytes)`);
-      
-      // Safari-specific headers if needed
-      const safariSpecificHeaders: Record<string, string> = {};
-      if (isSafari) {
-        Object.assign(safariSpecificHeaders, {
-          'X-Content-Type-Options': 'nosniff',
-          'X-Audio-Type': isFeedback ? 'feedback' : 'regular',
-          'Content-Disposition': 'inline; filename="audio.mp3"',
-          'X-Safari-Compatible': 'true'
+    try {
+      // Safari can't play MediaSource audio/mpeg, so it keeps getting the whole file in one response
+      if (provider.stream && !isSafari) {
+        const { stream, contentType } = await provider.stream({
+          text: processedText,
+          voiceId,
+          isFeedback,
+          voiceSettings
         });
-      }
-      
-      // Feedback-specific headers
-      const feedbackSpecificHeaders: Record<string, string> = {};
-      if (isFeedback) {
-        Object.assign(feedbackSpecificHeaders, {
-          'X-Feedback-Audio': 'true',
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache'
+
+        let bytesSent = 0;
+        const timedStream = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            if (bytesSent === 0) {
+              console.log(`Voice API: Time to first audio chunk with ${provider.name}: ${Date.now() - requestStartedAt}ms`);
+            }
+            bytesSent += chunk.byteLength;
+            controller.enqueue(chunk);
+          },
+          flush() {
+            console.log(`Voice API: Finished streaming ${isFeedback ? 'FEEDBACK' : 'regular'} audio with ${provider.name} (${bytesSent} bytes in ${Date.now() - requestStartedAt}ms)`);
+          }
+        }));
+
+        // No Content-Length or byte ranges: the size isn't known until the engine finishes
+        return new NextResponse(timedStream, {
+          headers: {
+            'Content-Type': contentType,
+            ...corsHeaders,
+            'X-TTS-Provider': provider.name,
+            'X-Audio-Streamed': 'true',
+            ...feedbackSpecificHeaders
+          },
         });
       }
+
+      const { audio: audioArrayBuffer, contentType } = await provider.synthesize({
+        text: processedText,
+        voiceId,
+        isFeedback,
+        voiceSettings
+      });
+
+      console.log(`Voice API: Successfully generated ${isFeedback ? 'FEEDBACK' : 'regular'} audio with ${provider.name} (${audioArrayBuffer.byteLength} bytes)`);
+      console.log(`Voice API: Time to first audio with ${provider.name} (buffered): ${Date.now() - requestStartedAt}ms`);
       
       // Return the audio data as a response with headers optimized for the browser
       return new NextResponse(audioArrayBuffer, {
         headers: {
-          'Content-Type': 'audio/mpeg',
+          'Content-Type': contentType,
           'Content-Length': audioArrayBuffer.byteLength.toString(),
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Range, X-Safari-Audio, X-Is-Feedback',
+          ...corsHeaders,
           'Accept-Ranges': 'bytes',
+          'X-TTS-Provider': provider.name,
+          ...(isSafari ? { 'Content-Disposition': `inline; filename="audio.${audioExtension(contentType)}"` } : {}),
           ...safariSpecificHeaders,
           ...feedbackSpecificHeaders
         },
       });
     } catch (apiError) {
-      console.error('Voice API: ElevenLabs API error:', apiError);
+      console.error(`Voice API: ${provider.name} synthesis error:`, apiError);
       return getMockAudioResponse();
     }
   } catch (error) {
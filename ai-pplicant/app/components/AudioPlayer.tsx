@@ -6,6 +6,8 @@ interface AudioPlayerProps {
   text: string;
   messageId: number; // Unique ID for each message
   voiceId?: string;
+  // Interviewer temperament, which sets the voice delivery
+  temperament?: string;
   autoPlay?: boolean;
   hideControls?: boolean;
   onPlaybackStart?: () => void;
@@ -23,10 +25,55 @@ let globalAudioContext: AudioContext | null = null;
 const isSafari = typeof navigator !== 'undefined' ? 
   /^((?!chrome|android).)*safari/i.test(navigator.userAgent) : false;
 
+// Chrome and Firefox can start MP3 playback from the first chunk through MediaSource; Safari can't
+const canStreamAudio = (contentType: string | null) =>
+  !isSafari &&
+  !!contentType &&
+  typeof window !== 'undefined' &&
+  'MediaSource' in window &&
+  MediaSource.isTypeSupported(contentType);
+
+// Feed a streamed response into a MediaSource so the audio element can play before the download finishes
+function createStreamingAudioUrl(body: ReadableStream<Uint8Array<ArrayBuffer>>, mimeType: string) {
+  const mediaSource = new MediaSource();
+
+  mediaSource.addEventListener('sourceopen', async () => {
+    try {
+      const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+      const reader = body.getReader();
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        // A SourceBuffer only accepts one append at a time
+        await new Promise<void>((resolve, reject) => {
+          sourceBuffer.onupdateend = () => resolve();
+          sourceBuffer.onerror = () => reject(new Error('Failed to append audio chunk'));
+          sourceBuffer.appendBuffer(value);
+        });
+      }
+
+      if (mediaSource.readyState === 'open') {
+        mediaSource.endOfStream();
+      }
+    } catch (err) {
+      console.error('AudioPlayer: Error streaming audio:', err);
+      // Surfaces as an error event on the audio element, which ends playback
+      if (mediaSource.readyState === 'open') {
+        mediaSource.endOfStream('decode');
+      }
+    }
+  }, { once: true });
+
+  return URL.createObjectURL(mediaSource);
+}
+
 export default function AudioPlayer({ 
   text, 
   messageId,
   voiceId, 
+  temperament,
   autoPlay = false, 
   hideControls = false,
   onPlaybackStart,
@@ -112,6 +159,8 @@ export default function AudioPlayer({
       
       console.log("AudioPlayer: Fetching audio for text:", processedText.substring(0, 50) + "...");
       
+      const requestStartedAt = performance.now();
+
       // Get the audio from the API with priority flag for feedback
       const response = await fetch('/api/voice', {
         method: 'POST',
@@ -123,6 +172,7 @@ export default function AudioPlayer({
         body: JSON.stringify({ 
           text: processedText, 
           voiceId,
+          temperament,
           priority: isFeedback, // Signal priority for feedback
           safari: isSafari // Let API know this is Safari
         }),
@@ -159,14 +209,22 @@ export default function AudioPlayer({
         }
       }
 
-      console.log("AudioPlayer: Got audio response, creating blob");
-      // Play real audio
-      const audioBlob = await response.blob();
-      
-      // Create a URL from the blob with a specific MIME type for better Safari compatibility
-      const audioUrl = URL.createObjectURL(
-        new Blob([await audioBlob.arrayBuffer()], { type: 'audio/mpeg' })
-      );
+      // Play real audio, starting on the first chunk when the server streams it
+      const isStreamed = response.headers.get('x-audio-streamed') === 'true' && !!response.body && canStreamAudio(contentType);
+      let audioUrl: string;
+
+      if (isStreamed) {
+        console.log("AudioPlayer: Got streamed audio response, playing through MediaSource");
+        audioUrl = createStreamingAudioUrl(response.body!, contentType!);
+      } else {
+        console.log("AudioPlayer: Got audio response, creating blob");
+        const audioBlob = await response.blob();
+        
+        // Create a URL from the blob with a specific MIME type for better Safari compatibility
+        audioUrl = URL.createObjectURL(
+          new Blob([await audioBlob.arrayBuffer()], { type: contentType || 'audio/mpeg' })
+        );
+      }
       
       if (audioRef.current) {
         console.log("AudioPlayer: Setting up audio element with URL");
@@ -184,6 +242,10 @@ export default function AudioPlayer({
         
         // Set the source
         audioRef.current.src = audioUrl;
+
+        audioRef.current.addEventListener('playing', () => {
+          console.log(`AudioPlayer: Time to first audio for message ${messageId}: ${Math.round(performance.now() - requestStartedAt)}ms (${isStreamed ? 'streamed' : 'buffered'})`);
+        }, { once: true });
         
         // Set event handlers directly on the element
         if (onPlaybackStart) {
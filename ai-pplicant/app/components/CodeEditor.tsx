@@ -0,0 +1,113 @@
+'use client';
+
+import type { CodeLanguage, CodeRunResult, CodingSpec } from '../lib/types';
+
+interface CodeEditorProps {
+  spec: CodingSpec;
+  language: CodeLanguage;
+  source: string;
+  results: CodeRunResult | null;
+  running: boolean;
+  disabled?: boolean;
+  onLanguageChange: (language: CodeLanguage) => void;
+  onSourceChange: (source: string) => void;
+  onRun: () => void;
+}
+
+const INDENT = '  ';
+
+// Editor pane for coding questions: write the function, run it against the tests, then explain it out loud
+export default function CodeEditor({ spec, language, source, results, running, disabled = false, onLanguageChange, onSourceChange, onRun }: CodeEditorProps) {
+  const lineCount = source.split('\n').length;
+
+  // Tab indents instead of moving focus out of the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const next = source.slice(0, selectionStart) + INDENT + source.slice(selectionEnd);
+    onSourceChange(next);
+    const textarea = e.currentTarget;
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div className="bg-gray-800/30 p-4 rounded-xl shadow-lg border border-gray-700/50 backdrop-blur-sm mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-medium text-white">
+          Editor <span className="text-xs text-gray-400 font-mono">{spec.functionName}()</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg overflow-hidden text-xs">
+            {(['javascript', 'typescript'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => onLanguageChange(option)}
+                className={`py-1 px-3 ${language === option ? 'bg-rose-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {option === 'javascript' ? 'JavaScript' : 'TypeScript'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onRun}
+            disabled={running || disabled || !source.trim()}
+            className="py-1 px-3 bg-green-600 hover:bg-green-700 text-white text-xs rounded-lg disabled:opacity-50"
+          >
+            {running ? 'Running...' : 'Run tests'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex bg-gray-900/80 rounded-lg border border-gray-700 font-mono text-sm">
+        <div className="py-2 px-2 text-right text-gray-500 select-none border-r border-gray-700" aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div key={index}>{index + 1}</div>
+          ))}
+        </div>
+        <textarea
+          value={source}
+          onChange={e => onSourceChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          rows={Math.max(10, lineCount)}
+          className="flex-1 py-2 px-3 bg-transparent text-gray-100 resize-none focus:outline-none whitespace-pre overflow-x-auto"
+        />
+      </div>
+
+      {results ? (
+        <div className="mt-3">
+          <div className={`text-sm font-medium mb-1 ${results.status === 'passed' ? 'text-green-300' : 'text-red-300'}`}>
+            {results.passed}/{results.total} tests passed
+            {results.status === 'timeout' && ' (timed out)'}
+          </div>
+          {results.error && (
+            <p className="text-xs text-red-300 font-mono mb-2">{results.error}</p>
+          )}
+          <ul className="space-y-1 text-xs font-mono">
+            {results.tests.map((test, index) => (
+              <li key={index} className={test.passed ? 'text-green-300' : 'text-red-300'}>
+                {test.passed ? '✓' : '✗'}{' '}
+                {test.hidden
+                  ? `Hidden test ${index + 1}`
+                  : `${spec.functionName}(${test.args.slice(1, -1)}) → expected ${test.expected}${test.passed ? '' : `, got ${test.error || test.actual}`}`}
+              </li>
+            ))}
+          </ul>
+          {results.logs.length > 0 && (
+            <pre className="mt-2 p-2 bg-gray-900/80 rounded text-xs text-gray-300 max-h-32 overflow-y-auto">{results.logs.join('\n')}</pre>
+          )}
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-gray-400">
+          Your code runs in a sandbox against {spec.tests.length} example {spec.tests.length === 1 ? 'test' : 'tests'}{spec.hiddenTests ? `, and ${spec.hiddenTests} hidden ${spec.hiddenTests === 1 ? 'test is' : 'tests are'} run when you submit your answer` : ''}. When you&apos;re done, explain your approach out loud; the code and test results are sent with your answer.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import type { DeliveryMetrics } from '../lib/types';
+import { getDeliveryNotes } from '../lib/delivery';
+
+interface DeliveryStatsProps {
+  metrics: DeliveryMetrics;
+}
+
+// How a spoken answer sounded: pace, filler words, long pauses and volume steadiness
+export default function DeliveryStats({ metrics }: DeliveryStatsProps) {
+  if (metrics.wordCount === 0) return null;
+  const notes = getDeliveryNotes(metrics);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-blue-700/30 text-xs text-gray-400">
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span>{metrics.wordsPerMinute} wpm</span>
+        <span>
+          {metrics.fillerCount} {metrics.fillerCount === 1 ? 'filler' : 'fillers'}
+          {metrics.fillers.length > 0 && ` (${metrics.fillers.map(filler => `${filler.phrase} ×${filler.count}`).join(', ')})`}
+        </span>
+        {metrics.pauseSource !== 'none' && (
+          <span>{metrics.longPauses} long {metrics.longPauses === 1 ? 'pause' : 'pauses'}</span>
+        )}
+        {metrics.volumeConsistency !== null && <span>Volume steadiness {metrics.volumeConsistency}/100</span>}
+      </div>
+      {notes.length > 0 && (
+        <ul className="mt-1 list-disc pl-5 text-yellow-300">
+          {notes.map((note, idx) => (
+            <li key={idx}>{note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
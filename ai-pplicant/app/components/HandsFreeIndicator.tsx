@@ -0,0 +1,46 @@
+'use client';
+
+import type { HandsFreeStatus } from '../lib/handsFree';
+
+interface HandsFreeIndicatorProps {
+  status: HandsFreeStatus;
+  paused: boolean;
+  onTogglePause: () => void;
+}
+
+const STATUS_DISPLAY: Record<HandsFreeStatus, { label: string; dot: string; border: string }> = {
+  listening: { label: 'Listening to your answer', dot: 'bg-red-500 animate-pulse', border: 'border-red-700/50' },
+  interviewer: { label: 'Interviewer speaking', dot: 'bg-green-500 animate-pulse', border: 'border-green-700/50' },
+  thinking: { label: 'Reviewing your answer', dot: 'bg-yellow-500 animate-pulse', border: 'border-yellow-700/50' },
+  waiting: { label: 'Up next shortly', dot: 'bg-blue-500', border: 'border-blue-700/50' },
+  paused: { label: 'Paused', dot: 'bg-gray-400', border: 'border-gray-600' },
+};
+
+// Where the hands-free loop is, with the way out of it
+export default function HandsFreeIndicator({ status, paused, onTogglePause }: HandsFreeIndicatorProps) {
+  const display = STATUS_DISPLAY[status];
+  return (
+    <div className={`bg-gray-900/50 p-3 rounded-lg border ${display.border} mb-4`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className={`w-3 h-3 rounded-full ${display.dot}`}></div>
+          <span className="text-sm text-gray-200">
+            Hands-free: {display.label}
+            {paused && status === 'listening' && ' (press stop when done)'}
+          </span>
+        </div>
+        <button
+          onClick={onTogglePause}
+          className="py-1 px-3 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-400">
+        {paused
+          ? 'Press P or Resume to carry on hands-free.'
+          : 'Say "pause" as your answer, or press P or Esc, to take a break.'}
+      </p>
+    </div>
+  );
+}
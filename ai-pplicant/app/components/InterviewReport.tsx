@@ -0,0 +1,215 @@
+'use client';
+
+import type { InterviewReport as InterviewReportData } from '../lib/types';
+import { formatDuration } from '../lib/timing';
+import { scoreColor } from './scoreColor';
+
+interface InterviewReportProps {
+  report: InterviewReportData | null;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+export default function InterviewReport({ report, isLoading = false, error = null }: InterviewReportProps) {
+  if (isLoading) {
+    return (
+      <div className="bg-gray-800/30 p-6 rounded-xl shadow-lg border border-gray-700/50 backdrop-blur-sm flex items-center justify-center">
+        <div className="animate-spin h-5 w-5 border-2 border-white border-t-transparent rounded-full mr-2"></div>
+        <span className="text-gray-300">Preparing your interview report...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 bg-red-500/10 text-red-300 rounded-md border border-red-500/20">
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  return (
+    <div className="bg-gray-800/30 p-6 rounded-xl shadow-lg border border-gray-700/50 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-medium text-blue-400">Interview Report</h3>
+        <span className="px-3 py-1 bg-indigo-700/70 rounded-md text-sm">
+          Overall: {report.overallScore}/5
+        </span>
+      </div>
+
+      <p className="text-gray-200 mb-6">{report.summary}</p>
+
+      {/* Each panelist's take in panel interviews */}
+      {report.panelAssessments && report.panelAssessments.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium mb-2 text-gray-300">Panel Feedback</h4>
+          <div className="space-y-3">
+            {report.panelAssessments.map(panelist => (
+              <div key={panelist.panelistId} className="p-3 bg-gray-700/30 rounded-lg">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-sm text-white">
+                    {panelist.name} <span className="text-xs text-gray-400">{panelist.role}</span>
+                  </span>
+                  <span className="text-xs text-gray-300">
+                    {panelist.verdict}{panelist.questionCount > 0 && ` · ${panelist.score}/5`}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-200">{panelist.assessment}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Per-category scores */}
+      {report.categoryScores.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium mb-2 text-gray-300">Scores by Category</h4>
+          <div className="space-y-2">
+            {report.categoryScores.map(category => (
+              <div key={category.category}>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{category.category} ({category.questionCount} {category.questionCount === 1 ? 'question' : 'questions'})</span>
+                  <span>{category.score}/5</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div
+                    className={`${scoreColor(category.score)} h-2 rounded-full`}
+                    style={{ width: `${(category.score / 5) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Time spent against each question's recommended time */}
+      {report.timeSpent && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium mb-2 text-gray-300">
+            Time per Question{' '}
+            <span className="text-xs text-gray-400">
+              ({formatDuration(report.timeSpent.totalSeconds)} total{report.timeSpent.budgetSeconds ? ` of a ${formatDuration(report.timeSpent.budgetSeconds)} budget` : ''})
+            </span>
+          </h4>
+          <div className="space-y-2">
+            {report.timeSpent.questions.map((question, idx) => {
+              const over = question.spentSeconds > question.limitSeconds;
+              return (
+                <div key={idx}>
+                  <div className="flex justify-between gap-2 text-xs text-gray-400 mb-1">
+                    <span className="truncate" title={question.question}>{question.category}: {question.question}</span>
+                    <span className={`font-mono flex-shrink-0 ${over ? 'text-red-300' : ''}`}>
+                      {formatDuration(question.spentSeconds)} / {formatDuration(question.limitSeconds)}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div
+                      className={`${over ? 'bg-red-500' : 'bg-blue-500'} h-2 rounded-full`}
+                      style={{ width: `${Math.min(100, (question.spentSeconds / question.limitSeconds) * 100)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Pace, filler words and pauses across the spoken answers */}
+      {report.delivery && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium mb-2 text-gray-300">
+            Delivery{' '}
+            <span className="text-xs text-gray-400">
+              ({report.delivery.answers} spoken {report.delivery.answers === 1 ? 'answer' : 'answers'})
+            </span>
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3 text-center">
+            <div className="bg-gray-900/50 p-2 rounded-lg">
+              <div className="text-lg font-bold">{report.delivery.averageWordsPerMinute}</div>
+              <div className="text-xs text-gray-400">words per minute</div>
+            </div>
+            <div className="bg-gray-900/50 p-2 rounded-lg">
+              <div className="text-lg font-bold">{report.delivery.averageFillerRate}</div>
+              <div className="text-xs text-gray-400">fillers per 100 words</div>
+            </div>
+            <div className="bg-gray-900/50 p-2 rounded-lg">
+              <div className="text-lg font-bold">{report.delivery.totalLongPauses}</div>
+              <div className="text-xs text-gray-400">long pauses</div>
+            </div>
+            <div className="bg-gray-900/50 p-2 rounded-lg">
+              <div className="text-lg font-bold">{report.delivery.averageVolumeConsistency ?? '–'}</div>
+              <div className="text-xs text-gray-400">volume steadiness</div>
+            </div>
+          </div>
+          {report.delivery.topFillers.length > 0 && (
+            <p className="text-xs text-gray-400 mb-2">
+              Most used fillers: {report.delivery.topFillers.map(filler => `"${filler.phrase}" ×${filler.count}`).join(', ')}
+            </p>
+          )}
+          {report.delivery.notes.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-gray-200 mb-2">
+              {report.delivery.notes.map((note, idx) => (
+                <li key={idx}>{note}</li>
+              ))}
+            </ul>
+          )}
+          <div className="space-y-1">
+            {report.delivery.perAnswer.map((answer, idx) => (
+              <div key={idx} className="flex justify-between gap-2 text-xs text-gray-400">
+                <span className="truncate" title={answer.question}>{answer.question}</span>
+                <span className="font-mono flex-shrink-0">
+                  {answer.wordsPerMinute} wpm · {answer.fillerRate} fillers/100 · {answer.longPauses} pauses
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <h4 className="text-sm font-medium mb-1 text-green-300">Recurring Strengths:</h4>
+          <ul className="list-disc pl-5 text-sm text-gray-200">
+            {report.recurringStrengths.map((strength, idx) => (
+              <li key={idx}>{strength}</li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium mb-1 text-yellow-300">Top Areas to Improve:</h4>
+          <ul className="list-disc pl-5 text-sm text-gray-200">
+            {report.improvementThemes.map((theme, idx) => (
+              <li key={idx}>
+                {theme.theme}
+                {theme.occurrences > 1 && (
+                  <span className="text-xs text-gray-400"> (in {theme.occurrences} answers)</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {report.weakestQuestion && (
+        <div className="pt-4 border-t border-gray-700/50">
+          <h4 className="text-sm font-medium mb-1 text-red-300">
+            Weakest Answer ({report.weakestQuestion.category}, {report.weakestQuestion.score}/5)
+          </h4>
+          <p className="text-sm italic text-gray-200 mb-2">&quot;{report.weakestQuestion.question}&quot;</p>
+          {report.weakestQuestion.improvements.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-gray-300">
+              {report.weakestQuestion.improvements.map((improvement, idx) => (
+                <li key={idx}>{improvement}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { formatDuration, getTimerStatus, type TimerStatus } from '../lib/timing';
+
+interface InterviewTimerProps {
+  // Seconds since the current question was asked, and its recommended time
+  questionElapsed: number | null;
+  questionLimit?: number;
+  // Seconds since the interview started, and the budget picked on the setup screen
+  interviewElapsed: number | null;
+  budgetSeconds: number | null;
+  autoStop: boolean;
+}
+
+const STATUS_COLORS: Record<TimerStatus, { text: string; bar: string }> = {
+  ok: { text: 'text-gray-200', bar: 'bg-blue-500' },
+  soft: { text: 'text-yellow-300', bar: 'bg-yellow-500' },
+  hard: { text: 'text-red-300', bar: 'bg-red-500' },
+};
+
+function Countdown({ label, elapsed, limit }: { label: string; elapsed: number; limit: number }) {
+  const status = getTimerStatus(elapsed, limit);
+  const colors = STATUS_COLORS[status];
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className={`font-mono ${colors.text}`}>
+          {status === 'hard' ? `${formatDuration(elapsed - limit)} over` : `${formatDuration(limit - elapsed)} left`}
+        </span>
+      </div>
+      <div className="w-full bg-gray-700 rounded-full h-1.5">
+        <div className={`${colors.bar} h-1.5 rounded-full`} style={{ width: `${Math.min(100, (elapsed / limit) * 100)}%` }}></div>
+      </div>
+    </div>
+  );
+}
+
+// Countdowns for the current question and the whole interview, with a nudge as each runs out
+export default function InterviewTimer({ questionElapsed, questionLimit, interviewElapsed, budgetSeconds, autoStop }: InterviewTimerProps) {
+  const hasQuestionTimer = questionElapsed !== null && !!questionLimit;
+  const hasBudget = interviewElapsed !== null && budgetSeconds !== null;
+  if (!hasQuestionTimer && !hasBudget) return null;
+
+  const questionStatus = hasQuestionTimer ? getTimerStatus(questionElapsed, questionLimit) : 'ok';
+  const budgetStatus = hasBudget ? getTimerStatus(interviewElapsed, budgetSeconds) : 'ok';
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-lg text-sm mb-4 space-y-2">
+      {hasQuestionTimer && (
+        <Countdown label={`This question (${formatDuration(questionLimit)})`} elapsed={questionElapsed} limit={questionLimit} />
+      )}
+      {hasBudget && (
+        <Countdown label={`Interview (${formatDuration(budgetSeconds)})`} elapsed={interviewElapsed} limit={budgetSeconds} />
+      )}
+      {budgetStatus === 'hard' ? (
+        <p className="text-xs text-red-300">Interview time is up. The interview ends after this answer.</p>
+      ) : questionStatus === 'hard' ? (
+        <p className="text-xs text-red-300">
+          Time&apos;s up for this question. {autoStop ? 'Recording stops shortly, so land your answer.' : 'Wrap up your answer now.'}
+        </p>
+      ) : questionStatus === 'soft' ? (
+        <p className="text-xs text-yellow-300">Start wrapping up this answer.</p>
+      ) : budgetStatus === 'soft' ? (
+        <p className="text-xs text-yellow-300">The interview is nearly out of time; keep answers short.</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import type { JobAnalysis } from '../lib/types';
+
+interface JobAnalysisSummaryProps {
+  analysis: JobAnalysis;
+}
+
+// What the interview is likely to focus on, shown before the candidate starts
+export default function JobAnalysisSummary({ analysis }: JobAnalysisSummaryProps) {
+  return (
+    <div className="mt-3 p-4 rounded-lg bg-gray-900/50 border border-gray-700 space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+        <span>Seniority: <span className="text-gray-200">{analysis.seniority}</span></span>
+        <span>Domain: <span className="text-gray-200">{analysis.domain}</span></span>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>Technical {analysis.technicalPercent}%</span>
+          <span>Behavioral {100 - analysis.technicalPercent}%</span>
+        </div>
+        <div className="w-full bg-purple-500/60 rounded-full h-1.5">
+          <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${analysis.technicalPercent}%` }}></div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-medium text-gray-300 mb-1">Focus areas</h4>
+        <p className="text-xs text-gray-400">{analysis.focusAreas.join(' · ')}</p>
+      </div>
+
+      {analysis.requiredSkills.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-300 mb-1">Required skills</h4>
+          <div className="flex flex-wrap gap-1">
+            {analysis.requiredSkills.map(skill => (
+              <span key={skill} className="px-2 py-0.5 rounded-full bg-blue-900/50 text-blue-200 text-xs">{skill}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.preferredSkills.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-300 mb-1">Preferred skills</h4>
+          <div className="flex flex-wrap gap-1">
+            {analysis.preferredSkills.map(skill => (
+              <span key={skill} className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-300 text-xs">{skill}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import type { DimensionScore } from '../lib/types';
+import { scoreColor } from './scoreColor';
+
+interface RubricBreakdownProps {
+  dimensions: DimensionScore[];
+}
+
+// Per-dimension rubric scores so candidates can see exactly where they lost points
+export default function RubricBreakdown({ dimensions }: RubricBreakdownProps) {
+  if (dimensions.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h4 className="text-sm font-medium text-indigo-300">Rubric:</h4>
+      {dimensions.map(dimension => (
+        <div key={dimension.id}>
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>{dimension.label} ({Math.round(dimension.weight * 100)}%)</span>
+            <span>{dimension.score}/5</span>
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-1.5 mb-1">
+            <div
+              className={`${scoreColor(dimension.score)} h-1.5 rounded-full`}
+              style={{ width: `${(dimension.score / 5) * 100}%` }}
+            ></div>
+          </div>
+          <p className="text-xs text-gray-300">{dimension.justification}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
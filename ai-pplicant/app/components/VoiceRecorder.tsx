@@ -1,6 +1,10 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
+import type { RecordingDetails } from '../lib/delivery';
+import type { TranscriptSegment } from '../lib/stt/types';
+import { getTranscriptTokens, type TranscriptToken } from '../lib/transcript';
+import { createVoiceActivityDetector, type VoiceActivityOptions, type VoiceActivityPhase } from '../lib/voiceActivity';
 
 // Define type for SpeechRecognition
 interface SpeechRecognitionEvent extends Event {
@@ -33,11 +37,22 @@ declare global {
 }
 
 interface VoiceRecorderProps {
-  onTranscription: (text: string) => void;
+  // Called with the transcript, plus the recording's length and microphone level for delivery analytics
+  onTranscription: (text: string, recording?: RecordingDetails) => void;
   isListening?: boolean;
+  // End the recording and submit the answer once the candidate has spoken and gone quiet
   autoStopAfterSilence?: boolean;
+  // Overrides for the silence detector's thresholds
+  voiceActivity?: Partial<VoiceActivityOptions>;
+  // Called when silence ended the recording, so the parent can stop listening too
+  onSilenceStop?: () => void;
+  // Hold back server transcripts with low-confidence words for the candidate to correct
+  reviewLowConfidence?: boolean;
 }
 
+// How often the microphone level is sampled for delivery analytics
+const VOLUME_SAMPLE_MS = 100;
+
 // Helper function to detect Safari browser
 const isSafari = () => {
   return /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
@@ -46,14 +61,18 @@ const isSafari = () => {
 export default function VoiceRecorder({ 
   onTranscription, 
   isListening = false,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  autoStopAfterSilence = false
+  autoStopAfterSilence = false,
+  voiceActivity,
+  onSilenceStop,
+  reviewLowConfidence = true
 }: VoiceRecorderProps) {
   const [recording, setRecording] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [transcript, setTranscript] = useState('');
   const [audioLevel, setAudioLevel] = useState(0); // To visualize audio level
   const [testAudioUrl, setTestAudioUrl] = useState<string | null>(null);
+  // A server transcript with words the engine was unsure of, held back for the candidate to correct
+  const [review, setReview] = useState<{ text: string; tokens: TranscriptToken[]; recording?: RecordingDetails } | null>(null);
   
   // Initialize recognition as null
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
@@ -66,6 +85,42 @@ export default function VoiceRecorder({
   const streamRef = useRef<MediaStream | null>(null);
   const audioTestRef = useRef<HTMLAudioElement | null>(null);
   const [useFallbackRecorder, setUseFallbackRecorder] = useState(false);
+  // Microphone level over the current recording, and when it started and ended
+  const volumeSamplesRef = useRef<number[]>([]);
+  const recordingStartedAtRef = useRef<number | null>(null);
+  const recordingEndedAtRef = useRef<number | null>(null);
+  // Silence detection runs in the audio level loop, so it reads the latest props and stop handler from refs
+  const autoStopRef = useRef(autoStopAfterSilence);
+  const voiceActivityRef = useRef(voiceActivity);
+  const onSilenceStopRef = useRef(onSilenceStop);
+  const reviewLowConfidenceRef = useRef(reviewLowConfidence);
+  const stopRecognitionRef = useRef<() => void>(() => {});
+  // Set when silence ended the recording, until the parent stops listening, so it isn't restarted
+  const silenceStoppedRef = useRef(false);
+  const [activityPhase, setActivityPhase] = useState<VoiceActivityPhase | null>(null);
+  
+  useEffect(() => {
+    autoStopRef.current = autoStopAfterSilence;
+    voiceActivityRef.current = voiceActivity;
+    onSilenceStopRef.current = onSilenceStop;
+    reviewLowConfidenceRef.current = reviewLowConfidence;
+  }, [autoStopAfterSilence, voiceActivity, onSilenceStop, reviewLowConfidence]);
+  
+  // Start a fresh volume trace for a new recording
+  const beginRecordingTrace = () => {
+    volumeSamplesRef.current = [];
+    recordingStartedAtRef.current = Date.now();
+    recordingEndedAtRef.current = null;
+  };
+  
+  // Length and volume trace of the recording, sent along with its transcript
+  const getRecordingDetails = useCallback((): RecordingDetails | undefined => {
+    if (recordingStartedAtRef.current === null) return undefined;
+    return {
+      durationSeconds: ((recordingEndedAtRef.current ?? Date.now()) - recordingStartedAtRef.current) / 1000,
+      volume: { samples: [...volumeSamplesRef.current], intervalMs: VOLUME_SAMPLE_MS }
+    };
+  }, []);
   
   // Helper function to get supported MIME type for audio recording
   const getSupportedMimeType = () => {
@@ -166,10 +221,15 @@ export default function VoiceRecorder({
       
       // Setup audio level monitoring
       const dataArray = new Uint8Array(analyser.frequencyBinCount);
+      let lastSampleAt = 0;
+      // Each recording calibrates its own noise floor
+      const detector = createVoiceActivityDetector(voiceActivityRef.current);
+      let lastPhase: VoiceActivityPhase | null = null;
       
+      // Runs until cleanup replaces or clears the analyser, so it doesn't depend on the recording state at setup
       const updateAudioLevel = () => {
-        if (recording && analyserRef.current) {
-          analyserRef.current.getByteFrequencyData(dataArray);
+        if (analyserRef.current === analyser) {
+          analyser.getByteFrequencyData(dataArray);
           
           // Calculate average volume
           let sum = 0;
@@ -177,9 +237,32 @@ export default function VoiceRecorder({
             sum += dataArray[i];
           }
           const average = sum / dataArray.length;
+          const level = Math.min(100, average * 2);
           
           // Set audio level (0-100)
-          setAudioLevel(Math.min(100, average * 2));
+          setAudioLevel(level);
+          
+          // Keep a fixed-rate trace of the level for delivery analytics
+          const now = performance.now();
+          if (now - lastSampleAt >= VOLUME_SAMPLE_MS) {
+            volumeSamplesRef.current.push(Math.round(level));
+            lastSampleAt = now;
+          }
+          
+          const activity = detector.update(level, now);
+          if (activity.phase !== lastPhase) {
+            lastPhase = activity.phase;
+            setActivityPhase(activity.phase);
+          }
+          
+          // Enough speech followed by enough silence ends the answer, the same as pressing stop
+          if (activity.shouldStop && autoStopRef.current && !silenceStoppedRef.current) {
+            console.log(`VoiceRecorder: ${activity.silentSeconds.toFixed(1)}s of silence after speaking, ending the answer`);
+            silenceStoppedRef.current = true;
+            stopRecognitionRef.current();
+            onSilenceStopRef.current?.();
+            return;
+          }
           
           // Continue monitoring while recording
           requestAnimationFrame(updateAudioLevel);
@@ -192,10 +275,15 @@ export default function VoiceRecorder({
       console.error("Failed to setup audio visualization:", err);
       // Non-critical error, so just log it
     }
-  }, [recording]);
+  }, []);
   
   // Cleanup audio context and stream
   const cleanupAudio = useCallback(() => {
+    // The recording ends when its audio is released
+    if (recordingStartedAtRef.current !== null && recordingEndedAtRef.current === null) {
+      recordingEndedAtRef.current = Date.now();
+    }
+    
     // Close AudioContext if open
     if (audioContextRef.current) {
       if (audioContextRef.current.state !== 'closed') {
@@ -216,6 +304,7 @@ export default function VoiceRecorder({
     
     // Clear analyzer reference
     analyserRef.current = null;
+    setActivityPhase(null);
     
     // Reset audio level
     setAudioLevel(0);
@@ -235,7 +324,7 @@ export default function VoiceRecorder({
     // If we have a transcript, submit it immediately before cleaning up
     if (transcript.trim()) {
       console.log("VoiceRecorder: Submitting final transcript on stop:", transcript);
-      onTranscription(transcript);
+      onTranscription(transcript, getRecordingDetails());
       setTranscript('');
     }
     
@@ -261,7 +350,11 @@ export default function VoiceRecorder({
     // Clean up audio resources
     cleanupAudio();
     setRecording(false);
-  }, [cleanupAudio, recording, transcript, onTranscription]);
+  }, [cleanupAudio, recording, transcript, onTranscription, getRecordingDetails]);
+  
+  useEffect(() => {
+    stopRecognitionRef.current = stopRecognition;
+  }, [stopRecognition]);
   
   // Start media recording (fallback) - memoized with useCallback
   const startMediaRecording = useCallback(async () => {
@@ -273,6 +366,8 @@ export default function VoiceRecorder({
       // Reset the audio chunks
       audioChunksRef.current = [];
       setError(null);
+      setReview(null);
+      beginRecordingTrace();
       
       // First check if microphone is available
       const micAvailable = await checkMicrophoneAvailability();
@@ -335,6 +430,8 @@ export default function VoiceRecorder({
           // Create FormData to send to the server
           const formData = new FormData();
           formData.append('audio', audioBlob, 'recording.webm');
+          // Word timestamps and confidence for delivery analytics and the correction step
+          formData.append('verbose', 'true');
           
           try {
             console.log("VoiceRecorder: Sending audio to server for transcription");
@@ -357,9 +454,20 @@ export default function VoiceRecorder({
               // Make sure we have a valid transcript before calling back
               const processedTranscript = data.transcript.trim();
               if (processedTranscript.length > 0) {
-                console.log("VoiceRecorder: Calling onTranscription with:", processedTranscript);
-                // Call onTranscription immediately with the received transcript
-                onTranscription(processedTranscript);
+                const segments: TranscriptSegment[] = Array.isArray(data.segments) ? data.segments : [];
+                const details = getRecordingDetails();
+                const recordingDetails = details && { ...details, segments };
+                const tokens = getTranscriptTokens(segments);
+                
+                if (reviewLowConfidenceRef.current && tokens.some(token => token.lowConfidence)) {
+                  // Let the candidate fix the doubtful words before the answer is graded
+                  console.log("VoiceRecorder: Transcript has low-confidence words, waiting for review");
+                  setReview({ text: processedTranscript, tokens, recording: recordingDetails });
+                } else {
+                  console.log("VoiceRecorder: Calling onTranscription with:", processedTranscript);
+                  // Call onTranscription immediately with the received transcript
+                  onTranscription(processedTranscript, recordingDetails);
+                }
               } else {
                 setError("No speech detected in recording. Please try again.");
               }
@@ -404,7 +512,7 @@ export default function VoiceRecorder({
       }
       setRecording(false);
     }
-  }, [onTranscription, setupAudioVisualization, cleanupAudio, recording]);
+  }, [onTranscription, setupAudioVisualization, cleanupAudio, recording, getRecordingDetails]);
   
   // Start speech recognition - memoized with useCallback
   const startRecognition = useCallback(() => {
@@ -416,6 +524,8 @@ export default function VoiceRecorder({
       // Reset state
       setTranscript('');
       setError(null);
+      setReview(null);
+      beginRecordingTrace();
       
       // Get speech recognition constructor
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -506,7 +616,7 @@ export default function VoiceRecorder({
           // Short timeout to ensure the latest transcript has been set
           setTimeout(() => {
             console.log("VoiceRecorder: Submitting final transcript after delay:", transcript);
-            onTranscription(transcript);
+            onTranscription(transcript, getRecordingDetails());
             // Clear transcript after sending to prevent duplicate submissions
             setTranscript('');
           }, 100);
@@ -560,13 +670,17 @@ export default function VoiceRecorder({
       setUseFallbackRecorder(true);
       startMediaRecording();
     }
-  }, [isListening, onTranscription, transcript, setupAudioVisualization, cleanupAudio, startMediaRecording, recording]);
+  }, [isListening, onTranscription, transcript, setupAudioVisualization, cleanupAudio, startMediaRecording, recording, getRecordingDetails]);
   
   // Handle changes to the isListening prop
   useEffect(() => {
     console.log("VoiceRecorder: isListening changed to", isListening);
     
-    if (isListening && !recording) {
+    if (!isListening) {
+      silenceStoppedRef.current = false;
+    }
+    
+    if (isListening && !recording && !silenceStoppedRef.current) {
       // Check if the API is supported
       if ((!window.SpeechRecognition && !window.webkitSpeechRecognition) || useFallbackRecorder) {
         console.log("VoiceRecorder: Using fallback recorder");
@@ -582,9 +696,16 @@ export default function VoiceRecorder({
     }
   }, [isListening, recording, startRecognition, stopRecognition, useFallbackRecorder, startMediaRecording]); 
   
+  // Send the reviewed transcript, with any corrections
+  const submitReview = () => {
+    if (!review || !review.text.trim()) return;
+    onTranscription(review.text.trim(), review.recording);
+    setReview(null);
+  };
+  
   // Enhanced UI with audio visualization and test playback
   return (
-    <div className={recording || error || testAudioUrl ? "block" : "hidden"}>
+    <div className={recording || error || testAudioUrl || review ? "block" : "hidden"}>
       {error && (
         <div className="mb-4 p-3 bg-red-900/30 border border-red-800 rounded-md">
           <p className="text-red-400 font-medium">{error}</p>
@@ -606,6 +727,17 @@ export default function VoiceRecorder({
           </span>
         </div>
         
+        {/* Silence detection status */}
+        {recording && autoStopAfterSilence && activityPhase && (
+          <p className="text-xs text-gray-400 mb-2">
+            {activityPhase === 'calibrating'
+              ? 'Measuring background noise...'
+              : activityPhase === 'waiting'
+                ? 'Listening; start whenever you are ready'
+                : 'Listening; stay quiet for a few seconds when you are done'}
+          </p>
+        )}
+        
         {/* Audio level visualization */}
         {recording && (
           <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden mb-3">
@@ -627,6 +759,41 @@ export default function VoiceRecorder({
         {transcript && (
           <p className="text-xs text-gray-400 max-w-full overflow-hidden mb-2">{transcript}</p>
         )}
+        
+        {/* Correction step for words the transcription wasn't sure of */}
+        {review && !recording && (
+          <div className="w-full mt-2 p-3 bg-gray-900/50 rounded-lg border border-yellow-700/40">
+            <p className="text-xs text-yellow-300 mb-2">
+              The highlighted words may have been misheard. Fix anything that&apos;s wrong before submitting.
+            </p>
+            <p className="text-sm text-gray-300 mb-2">
+              {review.tokens.map((token, idx) => (
+                <span
+                  key={idx}
+                  className={token.lowConfidence ? 'bg-yellow-500/30 text-yellow-100 rounded px-0.5' : ''}
+                  title={token.confidence !== undefined ? `${Math.round(token.confidence * 100)}% confident` : undefined}
+                >
+                  {token.word}{' '}
+                </span>
+              ))}
+            </p>
+            <textarea
+              value={review.text}
+              onChange={(e) => setReview({ ...review, text: e.target.value })}
+              rows={4}
+              className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-200"
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={submitReview}
+                disabled={!review.text.trim()}
+                className="py-1 px-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm text-white"
+              >
+                Submit answer
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
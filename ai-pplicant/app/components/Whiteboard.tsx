@@ -0,0 +1,203 @@
+'use client';
+
+import { analyzeDiagram, type DiagramComponentKind, type DiagramParseResult } from '../lib/diagram';
+
+interface WhiteboardProps {
+  source: string;
+  parsed: DiagramParseResult;
+  disabled?: boolean;
+  onSourceChange: (source: string) => void;
+}
+
+const NODE_WIDTH = 132;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 56;
+const ROW_GAP = 24;
+const PADDING = 12;
+
+// Fill and stroke per component kind; SVG attributes, so plain colors rather than Tailwind classes
+const KIND_COLORS: Record<DiagramComponentKind, [string, string]> = {
+  client: ['#1e3a5f', '#60a5fa'],
+  cdn: ['#164e63', '#22d3ee'],
+  'load-balancer': ['#312e81', '#818cf8'],
+  gateway: ['#312e81', '#a5b4fc'],
+  service: ['#1f2937', '#9ca3af'],
+  worker: ['#1f2937', '#d1d5db'],
+  cache: ['#713f12', '#facc15'],
+  queue: ['#7c2d12', '#fb923c'],
+  database: ['#14532d', '#4ade80'],
+  storage: ['#14532d', '#86efac'],
+  search: ['#581c87', '#c084fc'],
+  external: ['#374151', '#6b7280'],
+};
+
+const PLACEHOLDER = `client: client "Web app"
+lb: load-balancer
+api: service "Links API" x3
+cache: cache "Redis"
+db: database "Links DB"
+client -> lb -> api
+api -> cache: hot links
+api -> db: reads and writes
+
+# or a Mermaid flowchart:
+# flowchart LR
+#   U((Users)) --> LB[Load balancer] --> API[Links API]
+#   API -->|writes| DB[(Links DB)]`;
+
+// Columns from the entry points rightwards: each component sits one column past the furthest component pointing at it
+function layoutDiagram({ diagram }: DiagramParseResult) {
+  const column = new Map(diagram.components.map(component => [component.id, 0]));
+  // Bounded passes so cycles settle instead of pushing components right forever
+  for (let pass = 0; pass < diagram.components.length; pass++) {
+    let moved = false;
+    for (const edge of diagram.edges) {
+      const next = (column.get(edge.from) ?? 0) + 1;
+      if (edge.from !== edge.to && next > (column.get(edge.to) ?? 0)) {
+        column.set(edge.to, next);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  const rows = new Map<number, number>();
+  const positions = new Map(diagram.components.map(component => {
+    const x = column.get(component.id) ?? 0;
+    const y = rows.get(x) ?? 0;
+    rows.set(x, y + 1);
+    return [component.id, { x: PADDING + x * (NODE_WIDTH + COLUMN_GAP), y: PADDING + y * (NODE_HEIGHT + ROW_GAP) }];
+  }));
+
+  const columns = Math.max(0, ...Array.from(column.values())) + 1;
+  const height = Math.max(1, ...Array.from(rows.values()));
+  return {
+    positions,
+    width: PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP,
+    height: PADDING * 2 + height * NODE_HEIGHT + (height - 1) * ROW_GAP
+  };
+}
+
+// Whiteboard for system design questions: sketch the architecture as text and see it drawn as you type
+export default function Whiteboard({ source, parsed, disabled = false, onSourceChange }: WhiteboardProps) {
+  const { diagram, errors } = parsed;
+  const findings = analyzeDiagram(diagram);
+  const { positions, width, height } = layoutDiagram(parsed);
+  const flagged = new Set(findings.flatMap(finding => finding.components));
+
+  return (
+    <div className="bg-gray-800/30 p-4 rounded-xl shadow-lg border border-gray-700/50 backdrop-blur-sm mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-medium text-white">Whiteboard</h3>
+        <span className="text-xs text-gray-400">
+          {diagram.components.length > 0
+            ? `${diagram.components.length} components, ${diagram.edges.length} connections (${parsed.syntax === 'mermaid' ? 'Mermaid' : 'component syntax'})`
+            : 'Mermaid flowchart or component syntax'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+        <textarea
+          value={source}
+          onChange={e => onSourceChange(e.target.value)}
+          disabled={disabled}
+          placeholder={PLACEHOLDER}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          rows={12}
+          className="w-full py-2 px-3 bg-gray-900/80 rounded-lg border border-gray-700 font-mono text-sm text-gray-100 resize-y focus:outline-none focus:border-indigo-500"
+        />
+
+        <div className="bg-gray-900/80 rounded-lg border border-gray-700 overflow-auto min-h-48">
+          {diagram.components.length > 0 ? (
+            <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Architecture diagram">
+              <defs>
+                <marker id="whiteboard-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+                </marker>
+              </defs>
+
+              {diagram.edges.map((edge, index) => {
+                const from = positions.get(edge.from);
+                const to = positions.get(edge.to);
+                if (!from || !to) return null;
+                const startX = from.x + NODE_WIDTH;
+                const startY = from.y + NODE_HEIGHT / 2;
+                const endX = to.x;
+                const endY = to.y + NODE_HEIGHT / 2;
+                // Edges pointing back to an earlier column curve under the boxes
+                const backwards = endX <= startX;
+                const path = backwards
+                  ? `M ${from.x + NODE_WIDTH / 2} ${from.y + NODE_HEIGHT} C ${from.x + NODE_WIDTH / 2} ${height}, ${to.x + NODE_WIDTH / 2} ${height}, ${to.x + NODE_WIDTH / 2} ${to.y + NODE_HEIGHT}`
+                  : `M ${startX} ${startY} C ${startX + COLUMN_GAP / 2} ${startY}, ${endX - COLUMN_GAP / 2} ${endY}, ${endX} ${endY}`;
+                return (
+                  <g key={index}>
+                    <path d={path} fill="none" stroke="#6b7280" strokeWidth={1.5} markerEnd="url(#whiteboard-arrow)" />
+                    {edge.label && !backwards && (
+                      <text x={(startX + endX) / 2} y={(startY + endY) / 2 - 4} textAnchor="middle" fontSize={9} fill="#9ca3af">
+                        {edge.label.length > 18 ? `${edge.label.slice(0, 17)}…` : edge.label}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+
+              {diagram.components.map(component => {
+                const position = positions.get(component.id)!;
+                const [fill, stroke] = KIND_COLORS[component.kind];
+                return (
+                  <g key={component.id} transform={`translate(${position.x}, ${position.y})`}>
+                    {/* Replicated components are drawn as a stack */}
+                    {component.replicated && (
+                      <rect x={4} y={-4} width={NODE_WIDTH} height={NODE_HEIGHT} rx={component.kind === 'database' ? 14 : 6} fill={fill} stroke={stroke} strokeOpacity={0.5} />
+                    )}
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={component.kind === 'database' ? 14 : 6}
+                      fill={fill}
+                      stroke={flagged.has(component.label) ? '#f87171' : stroke}
+                      strokeWidth={flagged.has(component.label) ? 2 : 1}
+                      strokeDasharray={component.kind === 'external' ? '4 3' : undefined}
+                    />
+                    <text x={NODE_WIDTH / 2} y={19} textAnchor="middle" fontSize={12} fill="#f9fafb">
+                      {component.label.length > 18 ? `${component.label.slice(0, 17)}…` : component.label}
+                    </text>
+                    <text x={NODE_WIDTH / 2} y={34} textAnchor="middle" fontSize={9} fill={stroke}>
+                      {component.kind}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          ) : (
+            <p className="p-4 text-xs text-gray-400">Your diagram appears here as you type.</p>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs font-mono text-red-300">
+          {errors.slice(0, 5).map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {findings.length > 0 ? (
+        <ul className="mt-3 space-y-1 text-xs text-amber-300">
+          {findings.map((finding, index) => (
+            <li key={index}>⚠ {finding.message}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-xs text-gray-400">
+          {diagram.components.length > 0
+            ? 'No structural gaps found. The diagram is sent with your answer, so talk through how a request flows through it.'
+            : 'Sketch the components and how they connect. The diagram is sent with your spoken answer and checked for gaps such as a missing cache or a single point of failure.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+// Color a 1-5 score so weak areas stand out at a glance
+export const scoreColor = (score: number) => {
+  if (score >= 4) return 'bg-green-500';
+  if (score >= 3) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
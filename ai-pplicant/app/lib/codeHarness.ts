@@ -0,0 +1,146 @@
+import type { CodeRunResult, CodeTestCase } from './types';
+
+type CodeTestResult = CodeRunResult['tests'][number];
+
+// Infinite loops and very slow solutions are cut off after this long
+export const RUN_TIMEOUT_MS = 5000;
+
+// What the harness reports back while it runs the tests
+export type HarnessMessage =
+  | { type: 'test'; result: Pick<CodeTestResult, 'passed' | 'actual' | 'error' | 'durationMs'> & { index: number } }
+  | { type: 'error'; error: string; logs: string[] }
+  | { type: 'done'; logs: string[] };
+
+// Test harness shared by the browser worker and the server's child process. It defines runTests(code, functionName,
+// tests, post), where post sends a HarnessMessage out. Every built-in the harness relies on is captured before the
+// candidate's code is loaded, so code that overwrites globals or prototypes can't change how the tests are checked.
+export const HARNESS_SOURCE = `
+const objectIs = Object.is;
+const objectKeys = Object.keys;
+const isArray = Array.isArray;
+const hasOwn = Object.prototype.hasOwnProperty;
+const apply = Reflect.apply;
+const stringify = JSON.stringify;
+const toText = String;
+const isFiniteNumber = Number.isFinite;
+const clone = structuredClone;
+const now = performance.now.bind(performance);
+const round = Math.round;
+const FunctionConstructor = Function;
+
+const format = value => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number' && !isFiniteNumber(value)) return toText(value);
+  try {
+    return stringify(value) ?? toText(value);
+  } catch (error) {
+    return toText(value);
+  }
+};
+
+const describeError = error => {
+  try {
+    return error !== null && typeof error === 'object' && 'message' in error ? error.name + ': ' + error.message : toText(error);
+  } catch (describeFailure) {
+    return 'Unknown error';
+  }
+};
+
+// Plain loops rather than array methods, which the candidate's code could replace
+const equal = (a, b) => {
+  if (objectIs(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (isArray(a) !== isArray(b)) return false;
+  const keysA = objectKeys(a);
+  const keysB = objectKeys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (let index = 0; index < keysA.length; index++) {
+    const key = keysA[index];
+    if (!apply(hasOwn, b, [key]) || !equal(a[key], b[key])) return false;
+  }
+  return true;
+};
+
+const logs = [];
+console.log = console.info = console.warn = console.error = (...values) => {
+  if (logs.length < 50) {
+    let line = '';
+    for (let index = 0; index < values.length; index++) {
+      line += (index > 0 ? ' ' : '') + (typeof values[index] === 'string' ? values[index] : format(values[index]));
+    }
+    logs[logs.length] = line;
+  }
+};
+
+const runTests = async (code, functionName, tests, post) => {
+  let solution;
+  try {
+    const module = { exports: {} };
+    const load = new FunctionConstructor('module', 'exports', code + '\\n;return typeof ' + functionName + " === 'function' ? " + functionName + ' : undefined;');
+    solution = load(module, module.exports) || module.exports[functionName] || module.exports.default;
+  } catch (error) {
+    post({ type: 'error', error: describeError(error), logs });
+    return;
+  }
+
+  if (typeof solution !== 'function') {
+    post({ type: 'error', error: 'No function named ' + functionName + ' was found', logs });
+    return;
+  }
+
+  for (let index = 0; index < tests.length; index++) {
+    const started = now();
+    const result = { index, passed: false, actual: undefined, error: undefined, durationMs: 0 };
+    try {
+      const actual = await apply(solution, undefined, clone(tests[index].args));
+      result.actual = format(actual);
+      result.passed = equal(actual, tests[index].expected);
+    } catch (error) {
+      result.error = describeError(error);
+    }
+    result.durationMs = round((now() - started) * 100) / 100;
+    post({ type: 'test', result });
+  }
+
+  post({ type: 'done', logs });
+};
+`;
+
+// Plain JavaScript runs as-is, apart from export keywords the harness has no use for
+export const stripExports = (source: string) => source.replace(/^(\s*)export\s+(default\s+)?/gm, '$1');
+
+const formatValue = (value: unknown) => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+// Collect the harness's messages into a run result. Compile errors, a missing function and timeouts fail the
+// tests that didn't get to run.
+export function createRunResults(tests: CodeTestCase[]) {
+  const results: (CodeTestResult | undefined)[] = [];
+
+  return {
+    record({ index, ...result }: Extract<HarnessMessage, { type: 'test' }>['result']) {
+      const test = tests[index];
+      if (!test) return;
+      results[index] = { ...result, hidden: test.hidden, args: formatValue(test.args), expected: formatValue(test.expected) };
+    },
+
+    summarize(error?: string, logs: string[] = [], timedOut = false): CodeRunResult {
+      const checked = tests.map((test, index): CodeTestResult => results[index] || {
+        passed: false,
+        hidden: test.hidden,
+        args: formatValue(test.args),
+        expected: formatValue(test.expected),
+        error: error || 'Did not run',
+        durationMs: 0,
+      });
+      const passed = checked.filter(test => test.passed).length;
+      return {
+        status: timedOut ? 'timeout' : error ? 'error' : passed === checked.length ? 'passed' : 'failed',
+        passed,
+        total: checked.length,
+        tests: checked,
+        error,
+        logs,
+      };
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { createRunResults, HARNESS_SOURCE, RUN_TIMEOUT_MS, stripExports, type HarnessMessage } from './codeHarness';
+import type { CodeLanguage, CodeRunResult, CodingSpec } from './types';
+
+// The worker is built from this source rather than bundled, so nothing from the app is in scope. Network and storage
+// APIs are removed before the candidate's code is loaded, and postMessage is kept private to the harness so the
+// candidate's code can't report its own test results. The harness sits in a closure, out of the candidate's reach.
+const WORKER_SOURCE = `
+(() => {
+'use strict';
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel']) {
+  try {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch (error) {
+    try {
+      self[name] = undefined;
+    } catch (ignored) {
+      // Left as it is when it can't be replaced either
+    }
+  }
+}
+
+const post = self.postMessage.bind(self);
+for (let scope = Object.getPrototypeOf(self); scope; scope = Object.getPrototypeOf(scope)) {
+  if (Object.prototype.hasOwnProperty.call(scope, 'postMessage')) delete scope.postMessage;
+}
+Object.defineProperty(self, 'postMessage', { value: undefined, writable: false, configurable: false });
+${HARNESS_SOURCE}
+self.onmessage = event => {
+  self.onmessage = null;
+  const { code, functionName, tests } = event.data;
+  runTests(code, functionName, tests, post);
+};
+})();
+`;
+
+// Strip types on the server; syntax errors come back as messages with line numbers
+async function transpileTypeScript(source: string) {
+  const response = await fetch('/api/transpile', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.invalidFields?.[0] || data.error || `Server error: ${response.status}`);
+  }
+  return data.code as string;
+}
+
+// Run the candidate's solution against the question's tests in a throwaway worker. Hidden tests never reach the
+// page, so these are the visible ones; the server runs them all again when the answer is submitted.
+export async function runCode(source: string, language: CodeLanguage, spec: CodingSpec): Promise<CodeRunResult> {
+  const { record, summarize } = createRunResults(spec.tests);
+
+  let code: string;
+  try {
+    code = language === 'typescript' ? await transpileTypeScript(source) : stripExports(source);
+  } catch (error) {
+    return summarize(error instanceof Error ? error.message : String(error));
+  }
+
+  return new Promise(resolve => {
+    const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(workerUrl);
+
+    const finish = (result: CodeRunResult) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => {
+      console.log(`Code runner: Stopped after ${RUN_TIMEOUT_MS}ms`);
+      finish(summarize(`Timed out after ${RUN_TIMEOUT_MS / 1000} seconds`, [], true));
+    }, RUN_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<HarnessMessage>) => {
+      const message = event.data;
+      if (message.type === 'test') {
+        record(message.result);
+      } else if (message.type === 'error') {
+        finish(summarize(message.error, message.logs));
+      } else {
+        finish(summarize(undefined, message.logs));
+      }
+    };
+
+    worker.onerror = event => {
+      event.preventDefault();
+      finish(summarize(event.message || 'The code crashed the test runner'));
+    };
+
+    worker.postMessage({
+      code,
+      functionName: spec.functionName,
+      tests: spec.tests.map(({ args, expected }) => ({ args, expected })),
+    });
+  });
+}
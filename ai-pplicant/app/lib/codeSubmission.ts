@@ -0,0 +1,60 @@
+import type { CodeRunResult, CodeSubmission, CodingSpec, FeedbackResponse, Question } from './types';
+
+// Failing tests listed in the feedback prompt; the rest are summarized by count
+const MAX_DESCRIBED_FAILURES = 3;
+
+// The spec the page gets: hidden tests stay on the server, which runs them when the answer is submitted
+export function withoutHiddenTests(spec: CodingSpec): CodingSpec {
+  const visible = spec.tests.filter(test => !test.hidden);
+  return { ...spec, tests: visible, hiddenTests: spec.tests.length - visible.length };
+}
+
+export function withoutHiddenQuestionTests(question: Question): Question {
+  return question.coding ? { ...question, coding: withoutHiddenTests(question.coding) } : question;
+}
+
+export function withoutHiddenFollowUpTests<T extends FeedbackResponse>(feedback: T): T {
+  return feedback.follow_up_coding ? { ...feedback, follow_up_coding: withoutHiddenTests(feedback.follow_up_coding) } : feedback;
+}
+
+// Results the page gets back, e.g. with a stored session: whether each hidden test passed, but not its inputs
+export function withoutHiddenTestDetails(results: CodeRunResult): CodeRunResult {
+  return {
+    ...results,
+    tests: results.tests.map(test => (test.hidden ? { passed: test.passed, hidden: true, args: '', expected: '', durationMs: test.durationMs } : test)),
+  };
+}
+
+// Editor contents and test results for the feedback prompt
+export function describeCodeSubmission(submission: CodeSubmission) {
+  const lines = [
+    `Code (${submission.language}):`,
+    '```',
+    submission.source.trim() || '(empty)',
+    '```'
+  ];
+
+  const results = submission.results;
+  if (!results) {
+    lines.push('The candidate did not run the tests.');
+    return lines.join('\n');
+  }
+
+  lines.push(`Test results: ${results.passed} of ${results.total} passed${results.status === 'timeout' ? ', then the run timed out' : ''}.`);
+  if (results.error) {
+    lines.push(`Error: ${results.error}`);
+  }
+
+  const failures = results.tests.filter(test => !test.passed);
+  for (const test of failures.slice(0, MAX_DESCRIBED_FAILURES)) {
+    lines.push(`- Failed${test.hidden ? ' (hidden)' : ''}: called with ${test.args}, expected ${test.expected}, ${test.error ? `threw ${test.error}` : `got ${test.actual}`}`);
+  }
+  if (failures.length > MAX_DESCRIBED_FAILURES) {
+    lines.push(`- ...and ${failures.length - MAX_DESCRIBED_FAILURES} more failing tests`);
+  }
+  if (results.logs.length > 0) {
+    lines.push(`Console output: ${results.logs.slice(0, 5).join(' | ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getInterviewMode } from './modes';
+import { companyProfileSchema, parseModelOutput } from './schemas';
+import type { CompanyProfile, InterviewMode } from './types';
+
+// Profile packs live in data/companies as one JSON file per company (override with COMPANY_PACKS_DIR)
+const packsDirectory = () => process.env.COMPANY_PACKS_DIR || path.join(process.cwd(), 'data', 'companies');
+
+let profilesPromise: Promise<CompanyProfile[]> | null = null;
+
+async function readProfiles(directory: string): Promise<CompanyProfile[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.warn(`Company profiles: No packs directory at ${directory}`);
+      return [];
+    }
+    throw error;
+  }
+
+  const profiles: CompanyProfile[] = [];
+  for (const file of files) {
+    const result = parseModelOutput(await fs.readFile(path.join(directory, file), 'utf8'), companyProfileSchema);
+    if (result.success) {
+      profiles.push(result.data);
+    } else {
+      // A broken pack shouldn't take the others down with it
+      console.error(`Company profiles: Skipping ${file}:`, result.errors.map(error => `${error.field} ${error.message}`).join('; '));
+    }
+  }
+
+  console.log(`Company profiles: Loaded ${profiles.length} packs from ${directory}`);
+  return profiles;
+}
+
+// Packs are read once per server process
+export function getCompanyProfiles(): Promise<CompanyProfile[]> {
+  if (!profilesPromise) {
+    profilesPromise = readProfiles(packsDirectory()).catch(error => {
+      profilesPromise = null;
+      throw error;
+    });
+  }
+  return profilesPromise;
+}
+
+// "Amazon.com, Inc." and "amazon" should find the same pack
+export const normalizeCompanyName = (name: string) =>
+  name.toLowerCase().replace(/[,.]?\s*\b(inc|llc|ltd|corp|corporation|co)\b\.?$/, '').replace(/[^a-z0-9]+/g, '');
+
+export async function findCompanyProfile(company: string | undefined): Promise<CompanyProfile | null> {
+  if (!company?.trim()) return null;
+
+  const target = normalizeCompanyName(company);
+  const profiles = await getCompanyProfiles();
+  return profiles.find(profile =>
+    [profile.name, ...profile.aliases].some(name => normalizeCompanyName(name) === target)
+  ) || null;
+}
+
+// Profile summary for the question and feedback prompts
+export function describeCompanyProfile(profile: CompanyProfile, interviewMode: InterviewMode) {
+  const lines = [
+    `About ${profile.name}: ${profile.summary}`,
+    `Values: ${profile.values.join('; ')}`,
+  ];
+
+  if (profile.leadershipPrinciples.length > 0) {
+    lines.push(`Leadership principles:\n${profile.leadershipPrinciples.map(principle => `- ${principle.name}: ${principle.description}`).join('\n')}`);
+  }
+  lines.push(`Interview stages:\n${profile.interviewStages.map(stage => `- ${stage.name}: ${stage.description}`).join('\n')}`);
+
+  // Packs list technical and behavioral focus areas; each mode says which of them apply to it
+  for (const focus of getInterviewMode(interviewMode).profileFocus) {
+    const focusAreas = profile.focusAreas[focus];
+    if (focusAreas.length > 0) {
+      lines.push(`Known ${focus} focus areas: ${focusAreas.join('; ')}`);
+    }
+  }
+  if (profile.questionStyles.length > 0) {
+    lines.push(`Typical question styles:\n${profile.questionStyles.map(style => `- ${style}`).join('\n')}`);
+  }
+
+  return lines.join('\n');
+}
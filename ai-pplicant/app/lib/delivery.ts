@@ -0,0 +1,236 @@
+import type { DeliveryMetrics, DeliveryTrend } from './types';
+import type { TranscriptSegment } from './stt/types';
+
+// How an answer sounded rather than what it said: pace, filler words, long pauses and how steady the
+// voice was. Computed in the browser from the transcript and the recorder's microphone level, so it
+// works the same for Web Speech and for recordings transcribed on the server. Server transcriptions
+// also have word timestamps, which place the pauses exactly.
+
+// Microphone level samples (0-100) taken at a fixed interval while recording
+export interface VolumeTrace {
+  samples: number[];
+  intervalMs: number;
+}
+
+// What the recorder hands over with a transcript
+export interface RecordingDetails {
+  durationSeconds: number;
+  volume: VolumeTrace;
+  // Word timestamps from a verbose server transcription
+  segments?: TranscriptSegment[];
+}
+
+// Comfortable interview pace; slower sounds hesitant, faster is hard to follow
+const PACE_RANGE = { min: 110, max: 170 };
+
+// Silences at least this long in the middle of an answer count as long pauses
+const LONG_PAUSE_SECONDS = 2.5;
+
+// Filler words per 100 words above which they become distracting
+const FILLER_RATE_LIMIT = 4;
+
+// Below this, the volume jumps around enough to notice
+const CONSISTENCY_LIMIT = 55;
+
+// Traces shorter than this (in samples) or this flat say nothing useful about the voice
+const MIN_SAMPLES = 10;
+const MIN_DYNAMIC_RANGE = 5;
+
+// "like" only counts as a filler when it isn't doing a job in the sentence ("I'd like", "looks like")
+const LIKE_AS_WORD = /^(i|you|we|they|would|i'd|we'd|they'd|really|look|looks|looked|seem|seems|feel|feels|felt|something|anything|nothing|things|didn't|don't|doesn't|just)$/i;
+
+const FILLER_PATTERNS: [string, RegExp][] = [
+  ['um', /\b(um+|erm)\b/gi],
+  ['uh', /\b(uh+|er+|ah+)\b/gi],
+  ['like', /(?:([\w']+)\s+)?\blike\b(?!\s+(this|that|a|an|the|to|it)\b)/gi],
+  ['you know', /\byou know\b(?!\s+(how|what|when|where|why|that|the|if|about)\b)/gi],
+  ['I mean', /\bi mean\b/gi],
+  ['sort of', /\bsort of\b/gi],
+  ['kind of', /\bkind of\b/gi],
+  ['basically', /\bbasically\b/gi],
+];
+
+const round = (value: number, places: number = 0) => Math.round(value * 10 ** places) / 10 ** places;
+
+function percentile(sorted: number[], share: number) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))];
+}
+
+export function countFillers(transcript: string): DeliveryMetrics['fillers'] {
+  return FILLER_PATTERNS
+    .map(([phrase, pattern]) => ({
+      phrase,
+      count: Array.from(transcript.matchAll(pattern)).filter(match => phrase !== 'like' || !LIKE_AS_WORD.test(match[1] || '')).length
+    }))
+    .filter(filler => filler.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+// Speech and silence from the microphone level: anything a quarter of the way from the noise floor
+// to the typical speaking level counts as speech
+function analyzeVolume({ samples, intervalMs }: VolumeTrace) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const floor = percentile(sorted, 0.1);
+  const speaking = percentile(sorted, 0.75);
+  if (samples.length < MIN_SAMPLES || speaking - floor < MIN_DYNAMIC_RANGE) return null;
+
+  const threshold = floor + (speaking - floor) * 0.25;
+  const isSpeech = samples.map(sample => sample > threshold);
+  const first = isSpeech.indexOf(true);
+  const last = isSpeech.lastIndexOf(true);
+
+  // Silent runs between the first and last speech; leading and trailing silence isn't a pause
+  const pauses: number[] = [];
+  let run = 0;
+  for (let i = first; i <= last; i++) {
+    if (isSpeech[i]) {
+      if (run > 0) pauses.push((run * intervalMs) / 1000);
+      run = 0;
+    } else {
+      run++;
+    }
+  }
+  const longPauses = pauses.filter(pause => pause >= LONG_PAUSE_SECONDS);
+
+  const voiced = samples.filter((_, index) => isSpeech[index]);
+  const mean = voiced.reduce((sum, sample) => sum + sample, 0) / voiced.length;
+  const deviation = Math.sqrt(voiced.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / voiced.length);
+
+  return {
+    speakingSeconds: ((last - first + 1) * intervalMs) / 1000,
+    longPauses: longPauses.length,
+    longestPauseSeconds: round(Math.max(0, ...pauses), 1),
+    averageVolume: round(mean),
+    // Coefficient of variation turned into a 0-100 steadiness score
+    volumeConsistency: round(100 * (1 - Math.min(1, deviation / mean)))
+  };
+}
+
+// Gaps between consecutive words, from the transcription's word timestamps
+function analyzeTimestamps(segments: TranscriptSegment[]) {
+  const words = segments.flatMap(segment => segment.words);
+  if (words.length < 2) return null;
+
+  const gaps = words.slice(1).map((word, index) => word.start - words[index].end);
+  return {
+    speakingSeconds: words[words.length - 1].end - words[0].start,
+    longPauses: gaps.filter(gap => gap >= LONG_PAUSE_SECONDS).length,
+    longestPauseSeconds: round(Math.max(0, ...gaps), 1)
+  };
+}
+
+export function analyzeDelivery(transcript: string, durationSeconds: number, volume?: VolumeTrace, segments?: TranscriptSegment[]): DeliveryMetrics {
+  const wordCount = transcript.split(/\s+/).filter(Boolean).length;
+  const fillers = countFillers(transcript);
+  const fillerCount = fillers.reduce((sum, filler) => sum + filler.count, 0);
+  const measured = volume ? analyzeVolume(volume) : null;
+  // Word timestamps place pauses exactly; the microphone level only estimates them
+  const timed = segments ? analyzeTimestamps(segments) : null;
+  const pauses = timed || measured;
+  // Pace over the time actually spent talking, when the timestamps or microphone level show where that was
+  const speakingSeconds = pauses?.speakingSeconds || durationSeconds;
+
+  return {
+    durationSeconds: round(durationSeconds, 1),
+    wordCount,
+    wordsPerMinute: speakingSeconds > 0 ? round(wordCount / (speakingSeconds / 60)) : 0,
+    fillers,
+    fillerCount,
+    fillerRate: wordCount > 0 ? round((fillerCount / wordCount) * 100, 1) : 0,
+    longPauses: pauses?.longPauses ?? 0,
+    longestPauseSeconds: pauses?.longestPauseSeconds ?? 0,
+    pauseSource: timed ? 'timestamps' : measured ? 'volume' : 'none',
+    averageVolume: measured?.averageVolume ?? null,
+    volumeConsistency: measured?.volumeConsistency ?? null
+  };
+}
+
+// Short coaching notes for one answer; empty when the delivery was fine
+export function getDeliveryNotes(metrics: DeliveryMetrics): string[] {
+  const notes: string[] = [];
+  if (metrics.wordCount >= 20) {
+    if (metrics.wordsPerMinute > PACE_RANGE.max) {
+      notes.push(`Fast at ${metrics.wordsPerMinute} words per minute; slow down to ${PACE_RANGE.min}-${PACE_RANGE.max}`);
+    } else if (metrics.wordsPerMinute < PACE_RANGE.min) {
+      notes.push(`Slow at ${metrics.wordsPerMinute} words per minute; aim for ${PACE_RANGE.min}-${PACE_RANGE.max}`);
+    }
+  }
+  if (metrics.fillerRate > FILLER_RATE_LIMIT && metrics.fillers.length > 0) {
+    notes.push(`${metrics.fillerCount} filler words, mostly "${metrics.fillers[0].phrase}"; pause silently instead`);
+  }
+  if (metrics.longPauses > 0) {
+    notes.push(`${metrics.longPauses} long ${metrics.longPauses === 1 ? 'pause' : 'pauses'} (longest ${metrics.longestPauseSeconds}s); signpost while you think`);
+  }
+  if (metrics.volumeConsistency !== null && metrics.volumeConsistency < CONSISTENCY_LIMIT) {
+    notes.push('Your volume rose and fell a lot; keep a steady distance from the microphone');
+  }
+  return notes;
+}
+
+// Delivery line for the feedback prompt
+export function describeDelivery(metrics: DeliveryMetrics) {
+  return `${metrics.wordsPerMinute} words per minute over ${round(metrics.durationSeconds)}s, ` +
+    `${metrics.fillerCount} filler words (${metrics.fillerRate} per 100 words)` +
+    (metrics.pauseSource === 'none' ? '' : `, ${metrics.longPauses} pauses over ${LONG_PAUSE_SECONDS}s`) +
+    (metrics.volumeConsistency === null ? '' : `, volume steadiness ${metrics.volumeConsistency}/100`) +
+    '.';
+}
+
+export interface DeliveryTrendInput {
+  question: string;
+  metrics: DeliveryMetrics;
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+// Averages across the interview and what changed between the first and second half of the answers
+export function summarizeDeliveryTrend(entries: DeliveryTrendInput[]): DeliveryTrend {
+  const metrics = entries.map(entry => entry.metrics);
+  const consistencies = metrics.flatMap(metric => (metric.volumeConsistency !== null ? [metric.volumeConsistency] : []));
+
+  const notes: string[] = [];
+  if (metrics.length >= 2) {
+    const half = Math.ceil(metrics.length / 2);
+    const early = metrics.slice(0, half);
+    const late = metrics.slice(half);
+    const change = (pick: (metric: DeliveryMetrics) => number) => average(late.map(pick)) - average(early.map(pick));
+
+    const fillerChange = change(metric => metric.fillerRate);
+    if (fillerChange <= -1) notes.push('You used fewer filler words as the interview went on.');
+    if (fillerChange >= 1) notes.push('Filler words crept in as the interview went on.');
+
+    const paceChange = change(metric => metric.wordsPerMinute);
+    if (paceChange >= 20) notes.push('You sped up in the later answers.');
+    if (paceChange <= -20) notes.push('You slowed down in the later answers.');
+
+    const pauseChange = change(metric => metric.longPauses);
+    if (pauseChange >= 1) notes.push('Long pauses became more frequent later on.');
+    if (pauseChange <= -1) notes.push('You paused less as you warmed up.');
+  }
+
+  const topFillers = countFillerTotals(metrics).slice(0, 3);
+  return {
+    answers: metrics.length,
+    averageWordsPerMinute: round(average(metrics.map(metric => metric.wordsPerMinute))),
+    averageFillerRate: round(average(metrics.map(metric => metric.fillerRate)), 1),
+    totalLongPauses: metrics.reduce((sum, metric) => sum + metric.longPauses, 0),
+    averageVolumeConsistency: consistencies.length > 0 ? round(average(consistencies)) : null,
+    topFillers,
+    perAnswer: entries.map(({ question, metrics: metric }) => ({
+      question,
+      wordsPerMinute: metric.wordsPerMinute,
+      fillerRate: metric.fillerRate,
+      longPauses: metric.longPauses,
+      volumeConsistency: metric.volumeConsistency
+    })),
+    notes
+  };
+}
+
+function countFillerTotals(metrics: DeliveryMetrics[]) {
+  const totals = new Map<string, number>();
+  for (const filler of metrics.flatMap(metric => metric.fillers)) {
+    totals.set(filler.phrase, (totals.get(filler.phrase) || 0) + filler.count);
+  }
+  return Array.from(totals, ([phrase, count]) => ({ phrase, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDiagram, parseDiagram, type DiagramFinding } from './diagram';
+
+const checksFor = (source: string) => analyzeDiagram(parseDiagram(source).diagram);
+const finding = (findings: DiagramFinding[], check: DiagramFinding['check']) => findings.filter(item => item.check === check);
+
+describe('parseDiagram', () => {
+  it('reads a Mermaid flowchart with shapes, link labels and chained links', () => {
+    const { diagram, syntax, errors } = parseDiagram([
+      'flowchart LR',
+      '  %% the read path',
+      '  client[Web app] --> lb[Load balancer] --> api[Orders API x3]',
+      '  api -->|reads| orders[(Orders)]',
+      '  api -- publishes --> events[Order queue];',
+    ].join('\n'));
+
+    expect(syntax).toBe('mermaid');
+    expect(errors).toEqual([]);
+    expect(diagram.components).toEqual([
+      { id: 'client', label: 'Web app', kind: 'client', replicated: false },
+      { id: 'lb', label: 'Load balancer', kind: 'load-balancer', replicated: false },
+      { id: 'api', label: 'Orders API x3', kind: 'service', replicated: true },
+      // The cylinder shape makes it a database even though the label doesn't say so
+      { id: 'orders', label: 'Orders', kind: 'database', replicated: false },
+      { id: 'events', label: 'Order queue', kind: 'queue', replicated: false },
+    ]);
+    expect(diagram.edges).toEqual([
+      { from: 'client', to: 'lb' },
+      { from: 'lb', to: 'api' },
+      { from: 'api', to: 'orders', label: 'reads' },
+      { from: 'api', to: 'events', label: 'publishes' },
+    ]);
+  });
+
+  it('reports unreadable Mermaid lines and drops what they added', () => {
+    const { diagram, errors } = parseDiagram([
+      'graph TD',
+      '  client --> api',
+      '  api --> cache ~~ db',
+      '  api -->',
+    ].join('\n'));
+
+    expect(errors).toEqual(['Line 3: could not read "~~ db"', 'Line 4: a link needs a node on both ends']);
+    expect(diagram.components.map(component => component.id)).toEqual(['client', 'api']);
+    expect(diagram.edges).toEqual([{ from: 'client', to: 'api' }]);
+  });
+
+  it('reads the component and edge syntax, creating components only seen in edges', () => {
+    const { diagram, syntax, errors } = parseDiagram([
+      'client: client "Web app"',
+      'api: service x3  # behind the load balancer',
+      'users-db: database "Users DB"',
+      '',
+      'client -> lb -> api',
+      'api -> users-db: reads and writes',
+    ].join('\n'));
+
+    expect(syntax).toBe('dsl');
+    expect(errors).toEqual([]);
+    expect(diagram.components).toEqual([
+      { id: 'client', label: 'Web app', kind: 'client', replicated: false },
+      { id: 'api', label: 'api', kind: 'service', replicated: true },
+      { id: 'users-db', label: 'Users DB', kind: 'database', replicated: false },
+      { id: 'lb', label: 'lb', kind: 'load-balancer', replicated: false },
+    ]);
+    expect(diagram.edges).toEqual([
+      { from: 'client', to: 'lb' },
+      { from: 'lb', to: 'api' },
+      { from: 'api', to: 'users-db', label: 'reads and writes' },
+    ]);
+  });
+
+  it('reports unreadable lines of the component and edge syntax', () => {
+    const { diagram, errors } = parseDiagram([
+      'api: service',
+      'web app -> api',
+      'just some words',
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      'Line 2: component ids can only use letters, digits, "-" and "_"',
+      'Line 3: expected "id: kind" or "a -> b", got "just some words"',
+    ]);
+    expect(diagram.components.map(component => component.id)).toEqual(['api']);
+    expect(diagram.edges).toEqual([]);
+  });
+});
+
+describe('analyzeDiagram', () => {
+  it('finds nothing wrong with a replicated, cached design', () => {
+    expect(checksFor([
+      'client: client',
+      'lb: load-balancer x2',
+      'api: service x3',
+      'cache: cache',
+      'db: database "Orders DB" replicas',
+      'client -> lb -> api -> db',
+      'api -> cache',
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('flags a design with no database or storage', () => {
+    const findings = checksFor('client: client\nlb: load-balancer\napi: service x3\nclient -> lb -> api');
+
+    expect(finding(findings, 'no-storage')).toHaveLength(1);
+  });
+
+  it('flags a database that is read with nothing caching in front of it', () => {
+    const findings = checksFor('client -> lb -> api -> db\ndb: database "Orders DB" replicas\napi: service x3\nlb: load-balancer x2');
+
+    expect(finding(findings, 'missing-cache')).toEqual([expect.objectContaining({ components: ['Orders DB'] })]);
+  });
+
+  it('flags components every path to the data depends on, including the only copy of the data', () => {
+    const findings = checksFor('client -> lb -> api -> cache -> db\ncache: cache\ndb: database "Orders DB"\nlb: load-balancer x2');
+
+    expect(finding(findings, 'single-point-of-failure').map(item => item.components)).toEqual([['api'], ['cache'], ['Orders DB']]);
+    expect(finding(findings, 'single-point-of-failure')[2].message).toContain('only copy of the data');
+  });
+
+  it('flags a queue nothing consumes', () => {
+    const findings = checksFor('events: queue "Order events"\nclient -> lb -> api -> events\napi -> db\ndb: database');
+
+    expect(finding(findings, 'unbounded-queue')).toEqual([expect.objectContaining({ components: ['Order events'] })]);
+  });
+
+  it('flags clients calling services directly without a load balancer', () => {
+    const findings = checksFor('client: client "Web app"\napi: service "Orders API" x3\nclient -> api');
+
+    expect(finding(findings, 'no-load-balancer')).toEqual([expect.objectContaining({ components: ['Orders API'] })]);
+  });
+
+  it('flags components that are not connected to anything', () => {
+    const findings = checksFor('client -> lb -> api -> db\nsearch: search "Product search"');
+
+    expect(finding(findings, 'disconnected')).toEqual([expect.objectContaining({ components: ['Product search'] })]);
+  });
+});
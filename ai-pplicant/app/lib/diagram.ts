@@ -0,0 +1,338 @@
+import type { Diagram, DiagramComponent } from './types';
+
+// Whiteboard diagrams are written as text: a Mermaid flowchart, or the simpler component/edge syntax below.
+// Both parse to the same structure, which the whiteboard renders, /api/chat describes to the model,
+// and the structural checks run over. Kept free of server code so the page can use it while the candidate types.
+//
+//   client: client "Web app"
+//   api: service x3
+//   users-db: database "Users DB"
+//   client -> lb -> api
+//   api -> users-db: reads and writes
+
+export const DIAGRAM_COMPONENT_KINDS = [
+  'client', 'cdn', 'load-balancer', 'gateway', 'service', 'worker', 'cache', 'queue', 'database', 'storage', 'search', 'external'
+] as const;
+
+export type DiagramComponentKind = (typeof DIAGRAM_COMPONENT_KINDS)[number];
+
+export interface DiagramParseResult {
+  diagram: Diagram;
+  syntax: 'mermaid' | 'dsl';
+  // Lines that could not be read, with their line numbers
+  errors: string[];
+}
+
+export interface DiagramFinding {
+  check: 'no-storage' | 'missing-cache' | 'single-point-of-failure' | 'unbounded-queue' | 'no-load-balancer' | 'disconnected';
+  // Labels of the components the finding is about
+  components: string[];
+  message: string;
+  // Short suggestion for the improvements list
+  fix: string;
+}
+
+// First match wins, so the more specific kinds come first
+const KIND_PATTERNS: [DiagramComponentKind, RegExp][] = [
+  ['cache', /\b(cache|caching|redis|memcached?)\b/],
+  ['queue', /\b(queue|kafka|sqs|rabbitmq|pub ?sub|kinesis|stream|topic|event bus|message bus)\b/],
+  ['search', /\b(search|elasticsearch|opensearch|solr)\b/],
+  ['database', /\b(db|database|postgres(ql)?|mysql|sql|mongo(db)?|dynamo(db)?|cassandra|spanner|datastore)\b/],
+  ['storage', /\b(s3|blob|bucket|object stor(e|age)|storage|gcs|file store)\b/],
+  ['cdn', /\b(cdn|cloudfront|edge cache)\b/],
+  ['load-balancer', /\b(load ?balancer|lb|elb|alb|nginx|haproxy)\b/],
+  ['gateway', /\b(gateway|api gw)\b/],
+  ['worker', /\b(workers?|consumers?|jobs?|cron|processor|scheduler)\b/],
+  ['client', /\b(client|users?|browser|mobile|web ?app|ios|android)\b/],
+  ['external', /\b(third[- ]party|external|stripe|twilio|email provider|sms provider|payment provider)\b/],
+];
+
+const REPLICATED = /\b(x\s?\d+|\d+\s?x|replicas?|replicated|cluster|pool|fleet|multi[- ]az|ha)\b|\(\s*n\s*\)|\*$/i;
+
+// Where data ends up; the single-point-of-failure check looks for components every path to these runs through
+const SINK_KINDS: DiagramComponentKind[] = ['database', 'storage'];
+
+export function inferComponentKind(text: string): DiagramComponentKind {
+  const normalized = text.toLowerCase().replace(/[-_]/g, ' ');
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0] || 'service';
+}
+
+// Collects components and edges in the order they appear, creating components for ids only seen in edges
+function createBuilder() {
+  const components: DiagramComponent[] = [];
+  const edges: Diagram['edges'] = [];
+
+  const upsert = (id: string, details: Partial<DiagramComponent> = {}) => {
+    let component = components.find(existing => existing.id === id);
+    if (!component) {
+      const label = details.label || id;
+      component = { id, label, kind: inferComponentKind(`${id} ${label}`), replicated: REPLICATED.test(label) };
+      components.push(component);
+    }
+    Object.assign(component, Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)));
+    return component;
+  };
+
+  const connect = (from: string, to: string, label?: string) => {
+    upsert(from);
+    upsert(to);
+    edges.push(label ? { from, to, label } : { from, to });
+  };
+
+  // Drops what a line added when the rest of it turns out to be unreadable
+  const mark = () => [components.length, edges.length] as const;
+  const rollback = ([componentCount, edgeCount]: readonly [number, number]) => {
+    components.length = componentCount;
+    edges.length = edgeCount;
+  };
+
+  return { upsert, connect, mark, rollback, diagram: { components, edges } };
+}
+
+const MERMAID_HEADER = /^(graph|flowchart)\b/i;
+const MERMAID_IGNORED = /^(%%|subgraph\b|end\b|classDef\b|class\b|style\b|linkStyle\b|click\b|direction\b)/i;
+// id, then an optional shape: [label], [(database)], ((circle)), (rounded), {decision}, [[subroutine]]
+const MERMAID_NODE = /^([A-Za-z0-9_-]+)\s*(\[\([^\]]*\)\]|\(\([^)]*\)\)|\[\[[^\]]*\]\]|\[[^\]]*\]|\([^)]*\)|\{[^}]*\})?/;
+// -->, ---, -.->, ==>, with an optional |label| or inline -- label --> text
+const MERMAID_LINK = /^(?:--\s+([^-|]+?)\s+-->|-\.->|-->|---|==>)\s*(?:\|([^|]*)\|)?/;
+
+function parseMermaidNode(text: string, builder: ReturnType<typeof createBuilder>) {
+  const match = text.match(MERMAID_NODE);
+  if (!match) return null;
+
+  const [token, id, shape] = match;
+  if (shape) {
+    const label = shape.replace(/^[[({]+|[\])}]+$/g, '').replace(/^"|"$/g, '').trim() || id;
+    const component = builder.upsert(id, { label });
+    component.kind = inferComponentKind(`${id} ${label}`);
+    component.replicated = REPLICATED.test(label);
+    // Mermaid's cylinder shape is a database even when the label doesn't say so
+    if (shape.startsWith('[(') && component.kind === 'service') {
+      component.kind = 'database';
+    }
+  } else {
+    builder.upsert(id);
+  }
+  return { id, length: token.length };
+}
+
+function parseMermaid(lines: string[], builder: ReturnType<typeof createBuilder>, errors: string[]) {
+  lines.forEach((line, index) => {
+    const text = line.trim();
+    if (!text || MERMAID_HEADER.test(text) || MERMAID_IGNORED.test(text)) return;
+
+    const start = builder.mark();
+    const fail = (message: string) => {
+      builder.rollback(start);
+      errors.push(`Line ${index + 1}: ${message}`);
+    };
+
+    let rest = text.replace(/;$/, '');
+    const first = parseMermaidNode(rest, builder);
+    if (!first) {
+      fail(`expected a node id, got "${text}"`);
+      return;
+    }
+    let previous = first.id;
+    rest = rest.slice(first.length).trim();
+
+    // A line can chain several links: A --> B --> C
+    while (rest) {
+      const link = rest.match(MERMAID_LINK);
+      if (!link) {
+        fail(`could not read "${rest}"`);
+        return;
+      }
+      rest = rest.slice(link[0].length).trim();
+      const next = parseMermaidNode(rest, builder);
+      if (!next) {
+        fail('a link needs a node on both ends');
+        return;
+      }
+      builder.connect(previous, next.id, (link[1] || link[2])?.trim() || undefined);
+      previous = next.id;
+      rest = rest.slice(next.length).trim();
+    }
+  });
+}
+
+const DSL_DECLARATION = /^([A-Za-z0-9_-]+)\s*:\s*([a-z-]+)(?:\s+"([^"]*)")?((?:\s+\S+)*)$/i;
+
+function parseDsl(lines: string[], builder: ReturnType<typeof createBuilder>, errors: string[]) {
+  lines.forEach((line, index) => {
+    const text = line.replace(/#.*$/, '').trim();
+    if (!text) return;
+
+    // client -> lb -> api: label
+    if (text.includes('->')) {
+      const [path, ...labelParts] = text.split(/:(?![^"]*"$)/);
+      const ids = path.split('->').map(id => id.trim());
+      if (ids.some(id => !/^[A-Za-z0-9_-]+$/.test(id))) {
+        errors.push(`Line ${index + 1}: component ids can only use letters, digits, "-" and "_"`);
+        return;
+      }
+      const label = labelParts.join(':').trim().replace(/^"|"$/g, '') || undefined;
+      for (let i = 1; i < ids.length; i++) {
+        builder.connect(ids[i - 1], ids[i], label);
+      }
+      return;
+    }
+
+    // api: service "Orders API" x3
+    const declaration = text.match(DSL_DECLARATION);
+    if (!declaration) {
+      errors.push(`Line ${index + 1}: expected "id: kind" or "a -> b", got "${text}"`);
+      return;
+    }
+    const [, id, kindText, label, flags] = declaration;
+    const kind = (DIAGRAM_COMPONENT_KINDS as readonly string[]).includes(kindText.toLowerCase())
+      ? kindText.toLowerCase() as DiagramComponentKind
+      : inferComponentKind(kindText);
+    builder.upsert(id, {
+      kind,
+      label: label || undefined,
+      replicated: REPLICATED.test(`${label || ''} ${flags}`) || undefined
+    });
+  });
+}
+
+export function parseDiagram(source: string): DiagramParseResult {
+  const lines = source.split('\n');
+  const builder = createBuilder();
+  const errors: string[] = [];
+  const syntax = MERMAID_HEADER.test(lines.find(line => line.trim())?.trim() || '') ? 'mermaid' : 'dsl';
+
+  if (syntax === 'mermaid') {
+    parseMermaid(lines, builder, errors);
+  } else {
+    parseDsl(lines, builder, errors);
+  }
+
+  return { diagram: builder.diagram, syntax, errors };
+}
+
+// Every component reachable from the given start components, skipping one that is taken out
+function reachable(diagram: Diagram, starts: string[], removed?: string) {
+  const seen = new Set<string>();
+  const pending = starts.filter(id => id !== removed);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const edge of diagram.edges) {
+      if (edge.from === id && edge.to !== removed && !seen.has(edge.to)) {
+        pending.push(edge.to);
+      }
+    }
+  }
+  return seen;
+}
+
+// Structural problems an interviewer would point at on a whiteboard
+export function analyzeDiagram(diagram: Diagram): DiagramFinding[] {
+  const findings: DiagramFinding[] = [];
+  const { components, edges } = diagram;
+  if (components.length === 0) return findings;
+
+  const byKind = (...kinds: DiagramComponentKind[]) => components.filter(component => kinds.includes(component.kind));
+  const incoming = (id: string) => edges.filter(edge => edge.to === id);
+  const outgoing = (id: string) => edges.filter(edge => edge.from === id);
+  const labelOf = (id: string) => components.find(component => component.id === id)?.label || id;
+
+  const sinks = byKind(...SINK_KINDS);
+  if (sinks.length === 0) {
+    findings.push({
+      check: 'no-storage',
+      components: [],
+      message: 'The diagram has no database or storage, so it is unclear where the data lives.',
+      fix: 'Add the data store and show which services read and write it'
+    });
+  }
+
+  const readDatabases = byKind('database').filter(database => incoming(database.id).length > 0);
+  if (readDatabases.length > 0 && byKind('cache', 'cdn').length === 0) {
+    findings.push({
+      check: 'missing-cache',
+      components: readDatabases.map(database => database.label),
+      message: `Nothing caches reads in front of ${readDatabases.map(database => database.label).join(' and ')}, so every request hits the database.`,
+      fix: `Put a cache in front of ${readDatabases[0].label} for hot reads`
+    });
+  }
+
+  // Entry points are the clients, or whatever nothing points at when no client is drawn
+  const clients = byKind('client');
+  const entries = (clients.length > 0 ? clients : components.filter(component => incoming(component.id).length === 0)).map(component => component.id);
+  const sinkIds = new Set(sinks.map(sink => sink.id));
+  const reachesData = (removed?: string) => Array.from(reachable(diagram, entries, removed)).some(id => sinkIds.has(id) && id !== removed);
+  if (entries.length > 0 && reachesData()) {
+    const singlePoints = components.filter(component =>
+      !entries.includes(component.id) &&
+      component.kind !== 'external' &&
+      !component.replicated &&
+      !reachesData(component.id)
+    );
+    for (const component of singlePoints) {
+      findings.push({
+        check: 'single-point-of-failure',
+        components: [component.label],
+        message: sinkIds.has(component.id)
+          ? `${component.label} is a single point of failure: it is the only copy of the data and has no replica.`
+          : `${component.label} is a single point of failure: every path to the data goes through it and it has no replica.`,
+        fix: `Replicate ${component.label} or add a failover for it`
+      });
+    }
+  }
+
+  for (const queue of byKind('queue')) {
+    if (outgoing(queue.id).length === 0) {
+      findings.push({
+        check: 'unbounded-queue',
+        components: [queue.label],
+        message: `Nothing consumes ${queue.label}, so it grows without bound.`,
+        fix: `Add consumers for ${queue.label} and cap its size or retention`
+      });
+    }
+  }
+
+  const directCalls = edges.filter(edge =>
+    clients.some(client => client.id === edge.from) &&
+    ['service', 'worker'].includes(components.find(component => component.id === edge.to)?.kind || '')
+  );
+  if (directCalls.length > 0 && byKind('load-balancer', 'gateway').length === 0) {
+    const targets = Array.from(new Set(directCalls.map(edge => labelOf(edge.to))));
+    findings.push({
+      check: 'no-load-balancer',
+      components: targets,
+      message: `Clients call ${targets.join(' and ')} directly, with no load balancer to spread traffic across instances.`,
+      fix: 'Add a load balancer or API gateway in front of the services'
+    });
+  }
+
+  if (components.length > 1) {
+    const isolated = components.filter(component => incoming(component.id).length === 0 && outgoing(component.id).length === 0);
+    if (isolated.length > 0) {
+      findings.push({
+        check: 'disconnected',
+        components: isolated.map(component => component.label),
+        message: `${isolated.map(component => component.label).join(' and ')} ${isolated.length === 1 ? 'is' : 'are'} not connected to anything.`,
+        fix: `Show how ${isolated[0].label} fits into the request flow`
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Diagram summary for the feedback prompt, with the structural checks so feedback can name components
+export function describeDiagram(diagram: Diagram, findings: DiagramFinding[] = analyzeDiagram(diagram)) {
+  const labelOf = (id: string) => diagram.components.find(component => component.id === id)?.label || id;
+  const lines = [
+    `Components: ${diagram.components.map(component => `${component.label} (${component.kind}${component.replicated ? ', replicated' : ''})`).join('; ')}`,
+    'Connections:',
+    ...diagram.edges.map(edge => `- ${labelOf(edge.from)} -> ${labelOf(edge.to)}${edge.label ? ` (${edge.label})` : ''}`)
+  ];
+  if (findings.length > 0) {
+    lines.push('Structural checks:', ...findings.map(finding => `- ${finding.message}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,85 @@
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+// Uploaded documents are turned into plain text locally; nothing is sent to a third party
+
+export type DocumentKind = 'pdf' | 'docx' | 'html' | 'text';
+
+// Large enough for any resume or job posting, small enough to keep parsing fast
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  md: 'text',
+};
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+};
+
+// Browsers don't always send a useful type (especially for .md), so fall back to the extension
+export function getDocumentKind(file: File): DocumentKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return MIME_KINDS[file.type] || EXTENSION_KINDS[extension] || null;
+}
+
+// Collapse the whitespace noise PDF and DOCX extraction leaves behind, keeping line breaks
+function normalizeText(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Elements that are never part of the document itself on a saved web page
+const BOILERPLATE_SELECTORS = 'script, style, noscript, template, svg, nav, header, footer, aside, form, button, iframe';
+
+const BLOCK_SELECTORS = 'p, div, section, article, main, h1, h2, h3, h4, h5, h6, ul, ol, table, tr, blockquote, pre';
+
+// Readable text from an HTML fragment: one line per block, list items as "- " bullets
+export function htmlToText(html: string) {
+  const $ = cheerio.load(html);
+
+  $(BOILERPLATE_SELECTORS).remove();
+  $('br').replaceWith('\n');
+  $(BLOCK_SELECTORS).prepend('\n').append('\n');
+  $('li').prepend('\n- ');
+
+  return normalizeText($.root().text());
+}
+
+export async function extractDocumentText(file: File): Promise<string> {
+  const kind = getDocumentKind(file);
+  if (!kind) {
+    throw new Error(`Unsupported document type: ${file.type || file.name}`);
+  }
+
+  const data = await file.arrayBuffer();
+
+  switch (kind) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const { text } = await extractText(pdf, { mergePages: true });
+      return normalizeText(text);
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+      return normalizeText(value);
+    }
+    case 'html':
+      return htmlToText(new TextDecoder().decode(data));
+    case 'text':
+      return normalizeText(new TextDecoder().decode(data));
+  }
+}
@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeFileAtomic } from './files';
+
+describe('writeFileAtomic', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'write-atomic-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('creates the directory and writes the file', async () => {
+    const filePath = path.join(directory, 'nested', 'session.json');
+    await writeFileAtomic(filePath, '{"id":"a"}');
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{"id":"a"}');
+  });
+
+  it('lets overlapping writes to one file all succeed', async () => {
+    const filePath = path.join(directory, 'imported.json');
+    const contents = Array.from({ length: 10 }, (_, index) => `{"write":${index}}`);
+
+    await Promise.all(contents.map(content => writeFileAtomic(filePath, content)));
+
+    expect(contents).toContain(await fs.readFile(filePath, 'utf8'));
+    // No temp files are left behind
+    expect(await fs.readdir(directory)).toEqual(['imported.json']);
+  });
+});
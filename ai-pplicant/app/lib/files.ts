@@ -0,0 +1,12 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Write to a temp file first and rename it into place, so a crash never leaves a half-written file.
+// Each write gets its own temp file, so overlapping writes to one file don't rename each other's away.
+export async function writeFileAtomic(filePath: string, contents: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, contents, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isPauseCommand } from './handsFree';
+
+describe('isPauseCommand', () => {
+  it('accepts a transcript that is only a request to stop', () => {
+    for (const transcript of ['pause', 'Pause.', 'Hold on a moment.', 'wait please', 'Please stop the interview!', '  Wait,  a second  ']) {
+      expect(isPauseCommand(transcript), transcript).toBe(true);
+    }
+  });
+
+  it('rejects real answers that start with the same words', () => {
+    for (const transcript of [
+      'Wait, I think the cache would need invalidating first.',
+      'Pause the consumers while the migration runs, then replay the queue.',
+      'Hold on to the connection and retry with backoff.',
+      'Stop the world garbage collection pauses were the problem.',
+      '',
+    ]) {
+      expect(isPauseCommand(transcript), transcript).toBe(false);
+    }
+  });
+});
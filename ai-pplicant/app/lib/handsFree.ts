@@ -0,0 +1,34 @@
+// Hands-free interviews run like a phone screen: the microphone opens once the interviewer has asked
+// a question and silence ends the answer. Saying "pause" or pressing P hands control back to the buttons.
+
+export type HandsFreeStatus = 'paused' | 'interviewer' | 'listening' | 'thinking' | 'waiting';
+
+// Keys that pause and resume the loop; Escape only pauses
+export const PAUSE_KEYS = ['p', 'P', 'Escape'];
+
+// Gap between the interviewer finishing and the microphone opening, so the tail of the speech isn't recorded
+export const HANDS_FREE_OPEN_DELAY_MS = 600;
+
+// An answer that is only a request to stop ("pause", "hold on a moment", "wait please")
+const PAUSE_COMMAND = /^(please )?(pause|hold on|wait|stop)( the interview| please| a (second|moment|minute))?( please)?$/;
+
+export function isPauseCommand(transcript: string) {
+  const normalized = transcript.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+  return PAUSE_COMMAND.test(normalized);
+}
+
+interface HandsFreeState {
+  paused: boolean;
+  isSpeaking: boolean;
+  listening: boolean;
+  processing: boolean;
+}
+
+// What the loop is doing right now, for the status indicator
+export function getHandsFreeStatus({ paused, isSpeaking, listening, processing }: HandsFreeState): HandsFreeStatus {
+  if (listening) return 'listening';
+  if (paused) return 'paused';
+  if (isSpeaking) return 'interviewer';
+  if (processing) return 'thinking';
+  return 'waiting';
+}
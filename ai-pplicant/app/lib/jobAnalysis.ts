@@ -0,0 +1,146 @@
+import { completeStructured, describeProvider, getLLMProvider, MOCK_GENERATED_BY, type GeneratedBy } from './llm';
+import { describeJobPosting, extractJobFields } from './jobPosting';
+import { jobAnalysisSchema, parseModelOutput } from './schemas';
+import { findSkills, mentionsSkill, type SkillMatch } from './skills';
+import type { JobAnalysis, JobPosting } from './types';
+
+// Keywords that point at the business domain of a role
+const DOMAINS: [string, RegExp][] = [
+  ['Fintech', /\b(payments?|banking|fintech|trading|lending|insurance|ledger|fraud)\b/i],
+  ['Healthcare', /\b(health ?care|clinical|patients?|medical|hipaa|pharma)\b/i],
+  ['E-commerce', /\b(e-?commerce|checkout|marketplace|retail|shopping|merchants?)\b/i],
+  ['Gaming', /\b(gam(e|es|ing)|players?|unity|unreal)\b/i],
+  ['Advertising', /\b(ad ?tech|advertis(ing|ers)|campaigns?|bidding)\b/i],
+  ['Security', /\b(cyber ?security|threat detection|siem|zero trust|vulnerabilit(y|ies))\b/i],
+  ['Developer Tools', /\b(developer (tools|experience|platform)|sdks?|devtools|open[- ]source)\b/i],
+  ['Education', /\b(edtech|education|learners?|students?|courses?)\b/i],
+  ['Logistics', /\b(logistics|supply chain|shipping|fleet|warehouses?|delivery)\b/i],
+  ['Media & Social', /\b(social network|creators?|streaming|video|content moderation|feeds?)\b/i],
+  ['AI & Machine Learning', /\b(machine learning|ai platform|llms?|models? training|generative ai)\b/i],
+  ['Enterprise SaaS', /\b(saas|b2b|enterprise customers|crm|workflow automation)\b/i],
+];
+
+const PREFERRED_LINE = /nice[- ]to[- ]have|preferred|bonus|a plus|pluses|ideally/i;
+
+// How many sentences mention the skill under any of its names
+const countMentions = (text: string, skill: SkillMatch) =>
+  text.split(/[\n.;]/).filter(sentence => [skill.name, ...skill.aliases].some(alias => mentionsSkill(sentence, alias))).length;
+
+function detectDomain(text: string) {
+  const scored = DOMAINS
+    .map(([domain, pattern]) => ({ domain, hits: (text.match(new RegExp(pattern.source, 'gi')) || []).length }))
+    .filter(candidate => candidate.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+  return scored[0]?.domain || 'General software';
+}
+
+// More soft-skill language means more behavioral questions; clamped so neither side disappears
+function estimateTechnicalPercent(technical: SkillMatch[], behavioral: SkillMatch[], text: string) {
+  const technicalWeight = technical.reduce((sum, skill) => sum + countMentions(text, skill), 0);
+  const behavioralWeight = behavioral.reduce((sum, skill) => sum + countMentions(text, skill), 0) * 2;
+  if (technicalWeight + behavioralWeight === 0) return 50;
+
+  const percent = (technicalWeight / (technicalWeight + behavioralWeight)) * 100;
+  return Math.min(90, Math.max(20, Math.round(percent / 5) * 5));
+}
+
+// Offline analysis built on the skills taxonomy and the posting parser
+export function analyzeJobOffline(jobDescription: string, posting?: JobPosting): JobAnalysis {
+  const fields = posting || extractJobFields(jobDescription);
+
+  // Skills only named in nice-to-have lines are preferred; anything else counts as required
+  const isPreferredLine = (line: string) =>
+    PREFERRED_LINE.test(line) || fields.niceToHaves.some(niceToHave => line.includes(niceToHave));
+  const lines = jobDescription.split('\n');
+  const preferredText = [...fields.niceToHaves, ...lines.filter(isPreferredLine)].join('\n');
+  const requiredText = [...fields.requirements, ...lines.filter(line => !isPreferredLine(line))].join('\n');
+
+  // Most-mentioned skills first
+  const skills = findSkills(jobDescription)
+    .sort((a, b) => countMentions(jobDescription, b) - countMentions(jobDescription, a));
+  const technical = skills.filter(skill => !skill.behavioral);
+  const behavioral = skills.filter(skill => skill.behavioral);
+
+  const requiredNames = new Set(findSkills(requiredText).map(skill => skill.name));
+  const preferredNames = new Set(findSkills(preferredText).map(skill => skill.name));
+  const required = skills.filter(skill => requiredNames.has(skill.name));
+  const preferred = skills.filter(skill => !requiredNames.has(skill.name) && preferredNames.has(skill.name));
+
+  // The categories with the most required technical skills are what the interview will dig into.
+  // Languages say little about the kind of questions, so they don't count as a focus area.
+  const categoryCounts = new Map<string, number>();
+  for (const skill of required.filter(match => !match.behavioral && match.category !== 'Programming Languages')) {
+    categoryCounts.set(skill.category, (categoryCounts.get(skill.category) || 0) + 1);
+  }
+  const focusAreas = Array.from(categoryCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([category]) => category);
+  if (behavioral.length > 0) {
+    focusAreas.push('Leadership & Collaboration');
+  }
+
+  return {
+    requiredSkills: required.map(skill => skill.name).slice(0, 15),
+    preferredSkills: preferred.map(skill => skill.name).slice(0, 10),
+    seniority: fields.level || 'Not specified',
+    domain: detectDomain(jobDescription),
+    focusAreas: focusAreas.length > 0 ? focusAreas : ['General problem solving'],
+    technicalPercent: estimateTechnicalPercent(technical, behavioral, jobDescription),
+  };
+}
+
+// Analyze with the configured LLM, falling back to the offline analyzer
+export async function analyzeJob(jobDescription: string, posting?: JobPosting): Promise<{ analysis: JobAnalysis; generatedBy: GeneratedBy }> {
+  const provider = getLLMProvider('analysis');
+
+  if (provider.isMock) {
+    return { analysis: analyzeJobOffline(jobDescription, posting), generatedBy: MOCK_GENERATED_BY };
+  }
+
+  const promptContent = `
+    You are a technical recruiter analyzing a job description to predict what the interviews will focus on.
+
+    Job description:
+    "${jobDescription}"
+    ${posting ? `
+    Fields parsed from the posting:
+    ${describeJobPosting(posting)}
+    ` : ''}
+    Format your response as a JSON object with:
+    - "requiredSkills": Array of the must-have skills and technologies (short names, most important first)
+    - "preferredSkills": Array of nice-to-have skills
+    - "seniority": The seniority level (e.g. "Entry", "Mid", "Senior", "Staff", "Principal", "Manager")
+    - "domain": The business domain (e.g. "Fintech", "Healthcare", "Developer Tools")
+    - "focusAreas": Array of 2-4 areas the interviews will focus on (e.g. "System Design", "Frontend", "Leadership")
+    - "technicalPercent": Estimated percentage (0-100) of the interview that will be technical rather than behavioral
+  `;
+
+  try {
+    const result = await completeStructured(
+      provider,
+      { messages: [{ role: 'user', content: promptContent }], json: true, temperature: 0.2 },
+      content => parseModelOutput(content, jobAnalysisSchema)
+    );
+
+    if (result.success) {
+      return { analysis: result.data, generatedBy: describeProvider(provider) };
+    }
+  } catch (error) {
+    console.error(`Job analysis: LLM provider error (${provider.name}):`, error);
+  }
+
+  return { analysis: analyzeJobOffline(jobDescription, posting), generatedBy: MOCK_GENERATED_BY };
+}
+
+// Analysis summary for the question prompts
+export function describeJobAnalysis(analysis: JobAnalysis) {
+  return [
+    `Seniority: ${analysis.seniority}`,
+    `Domain: ${analysis.domain}`,
+    `Focus areas: ${analysis.focusAreas.join(', ')}`,
+    analysis.requiredSkills.length > 0 ? `Required skills: ${analysis.requiredSkills.join(', ')}` : '',
+    analysis.preferredSkills.length > 0 ? `Preferred skills: ${analysis.preferredSkills.join(', ')}` : '',
+    `Expected balance: about ${analysis.technicalPercent}% technical, ${100 - analysis.technicalPercent}% behavioral`,
+  ].filter(Boolean).join('\n');
+}
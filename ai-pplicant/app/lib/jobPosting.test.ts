@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractJobFields, parseJobPostingHtml } from './jobPosting';
+
+// Job pages saved from the boards, trimmed of scripts and styles
+const savedPage = (name: string) =>
+  readFileSync(path.join(__dirname, '../../fixtures/job-postings', `${name}.html`), 'utf8');
+
+describe('parseJobPostingHtml', () => {
+  it('reads a Greenhouse posting', () => {
+    const { text, posting } = parseJobPostingHtml(savedPage('greenhouse'));
+
+    expect(posting).toEqual({
+      title: 'Senior Backend Engineer',
+      location: 'Berlin, Germany',
+      level: 'Senior',
+      requirements: [
+        '5+ years of experience building backend services',
+        'Strong knowledge of Go or Java',
+        'Experience operating PostgreSQL in production',
+      ],
+      niceToHaves: ['Experience with Kafka', 'Familiarity with Kubernetes'],
+    });
+    expect(text).toContain('Northwind builds the logistics platform');
+    // Only the description, not the application form or the board's footer
+    expect(text).not.toContain('First Name');
+    expect(text).not.toContain('Powered by Greenhouse');
+  });
+
+  it('reads a Lever posting', () => {
+    const { text, posting } = parseJobPostingHtml(savedPage('lever'));
+
+    expect(posting).toEqual({
+      title: 'Staff Frontend Engineer',
+      location: 'Remote - US',
+      level: 'Staff',
+      requirements: [
+        '8+ years of experience building web applications',
+        'Deep knowledge of TypeScript and React',
+        'A track record of leading projects across teams',
+      ],
+      niceToHaves: ['Experience with WebGL'],
+    });
+    expect(text).toContain('Acme Robotics makes the fleet software');
+    // The headline and apply buttons are left out
+    expect(text).not.toContain('Apply for this job');
+    expect(text).not.toContain('Engineering – Web Platform');
+  });
+
+  it('falls back to the structured data on unknown boards', () => {
+    const html = `
+      <html><head>
+        <script type="application/ld+json">${JSON.stringify({
+          '@context': 'https://schema.org',
+          '@type': 'JobPosting',
+          title: 'Data Engineer',
+          description: '<p>Qualifications</p><ul><li>3 years of Python</li><li>SQL</li></ul>',
+          jobLocation: { '@type': 'Place', address: { addressLocality: 'Lisbon', addressCountry: 'PT' } },
+        })}</script>
+      </head><body><nav>Jobs Home</nav><div>Apply now</div></body></html>`;
+
+    const { text, posting } = parseJobPostingHtml(html);
+
+    expect(posting.title).toBe('Data Engineer');
+    expect(posting.location).toBe('Lisbon, PT');
+    expect(posting.level).toBe('Mid');
+    expect(posting.requirements).toEqual(['3 years of Python', 'SQL']);
+    expect(text).not.toContain('Apply now');
+  });
+
+  it('falls back to the main content without structured data', () => {
+    const html = `
+      <html><body>
+        <header>Careers at Example</header>
+        <main>
+          <h1>Junior Product Designer</h1>
+          <p>Location: Toronto, Canada</p>
+          <h3>About you</h3>
+          <ul><li>A portfolio of shipped work</li></ul>
+        </main>
+      </body></html>`;
+
+    const { posting } = parseJobPostingHtml(html);
+
+    expect(posting).toEqual({
+      title: 'Junior Product Designer',
+      location: 'Toronto, Canada',
+      level: 'Entry',
+      requirements: ['A portfolio of shipped work'],
+      niceToHaves: [],
+    });
+  });
+});
+
+describe('extractJobFields', () => {
+  it('sorts bullets under requirement and nice-to-have headings', () => {
+    const text = [
+      'Platform Engineer',
+      'We run the infrastructure for our product teams.',
+      'Preferred qualifications:',
+      '- Terraform',
+      'Minimum qualifications:',
+      '- Linux administration',
+      '- Networking fundamentals',
+      'Benefits',
+      '- Unlimited holidays',
+    ].join('\n');
+
+    const posting = extractJobFields(text);
+
+    expect(posting.title).toBe('Platform Engineer');
+    // "Preferred qualifications" is a nice-to-have, not a requirement
+    expect(posting.niceToHaves).toEqual(['Terraform']);
+    expect(posting.requirements).toEqual(['Linux administration', 'Networking fundamentals']);
+  });
+
+  it('reads the location and level from the text', () => {
+    expect(extractJobFields('Engineer\nThis role is fully remote.\nLevel: L4')).toMatchObject({ location: 'Remote', level: 'L4' });
+    expect(extractJobFields('Engineer\nYou have 10+ years of experience.')).toMatchObject({ location: undefined, level: 'Staff' });
+  });
+
+  it('prefers the hints from the page layout', () => {
+    const posting = extractJobFields('Some Heading\nLocation: Paris', { title: 'Senior SRE', location: 'London', level: 'Intern' });
+
+    expect(posting).toMatchObject({ title: 'Senior SRE', location: 'London', level: 'Senior' });
+  });
+});
@@ -0,0 +1,223 @@
+import * as cheerio from 'cheerio';
+import { htmlToText } from './documents';
+import type { JobPosting } from './types';
+
+type CheerioPage = ReturnType<typeof cheerio.load>;
+
+interface PostingHints {
+  title?: string;
+  location?: string;
+  level?: string;
+}
+
+// Where the posting lives on a known job board's page
+interface PostingLayout extends PostingHints {
+  bodyHtml: string;
+}
+
+interface LayoutParser {
+  name: string;
+  matches($: CheerioPage): boolean;
+  extract($: CheerioPage): PostingLayout;
+}
+
+const firstText = ($: CheerioPage, selector: string) =>
+  $(selector).first().text().replace(/\s+/g, ' ').trim() || undefined;
+
+const boardUrlMatches = ($: CheerioPage, host: string) =>
+  $(`meta[content*="${host}"], link[href*="${host}"], base[href*="${host}"]`).length > 0;
+
+const LAYOUT_PARSERS: LayoutParser[] = [
+  {
+    // Both the classic (#app_body) and the newer (job__*) Greenhouse board markup
+    name: 'greenhouse',
+    matches: $ => $('#app_body, .job__description').length > 0 || boardUrlMatches($, 'greenhouse.io'),
+    extract: $ => ({
+      title: firstText($, '.app-title, .job__title h1, .job__title'),
+      location: firstText($, '#header .location, .job__location, .location'),
+      bodyHtml: $('.job__description').html() || $('#content').html() || '',
+    }),
+  },
+  {
+    name: 'lever',
+    matches: $ => $('.posting-headline, .posting-page').length > 0 || boardUrlMatches($, 'lever.co'),
+    extract: $ => {
+      // Everything except the headline and the apply buttons
+      const sections = $('.posting-page .section.page-centered')
+        .not('.posting-header, .last-section-apply')
+        .map((_, section) => $.html(section))
+        .get();
+
+      return {
+        title: firstText($, '.posting-headline h2'),
+        location: firstText($, '.posting-categories .location, .posting-categories .sort-by-location'),
+        level: firstText($, '.posting-categories .commitment'),
+        bodyHtml: sections.join('\n') || $('[data-qa="job-description"]').html() || '',
+      };
+    },
+  },
+];
+
+type JsonLdNode = Record<string, unknown>;
+
+// Most job boards also embed a schema.org JobPosting, which is a reliable source of the basic fields
+function findJsonLdPosting($: CheerioPage): JsonLdNode | null {
+  const candidates: unknown[] = [];
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      const data = JSON.parse($(script).text());
+      candidates.push(...(Array.isArray(data) ? data : [data]));
+      if (data && Array.isArray(data['@graph'])) {
+        candidates.push(...data['@graph']);
+      }
+    } catch {
+      // Ignore malformed structured data
+    }
+  });
+
+  return (candidates.find(node =>
+    !!node && typeof node === 'object' && (node as JsonLdNode)['@type'] === 'JobPosting'
+  ) as JsonLdNode | undefined) || null;
+}
+
+function jsonLdLocation(posting: JsonLdNode): string | undefined {
+  const locations = [posting.jobLocation].flat().filter(Boolean) as JsonLdNode[];
+  const names = locations
+    .map(location => {
+      const address = (location.address || {}) as JsonLdNode;
+      return [address.addressLocality, address.addressRegion, address.addressCountry]
+        .filter(part => typeof part === 'string' && part)
+        .join(', ');
+    })
+    .filter(Boolean);
+
+  if (names.length > 0) return names.join('; ');
+  return posting.jobLocationType === 'TELECOMMUTE' ? 'Remote' : undefined;
+}
+
+const REQUIREMENT_HEADING = /requirements|qualifications|what you('|’)ll need|what we('|’)re looking for|you (have|bring|should have)|must[- ]haves?|about you|who you are|skills( and| &) experience/i;
+const NICE_TO_HAVE_HEADING = /nice[- ]to[- ]haves?|preferred|bonus|pluses|plus if|extra credit|would be great|ideally/i;
+
+const LEVELS: [RegExp, string][] = [
+  [/\bintern(ship)?\b/i, 'Intern'],
+  [/\b(junior|jr\.?|entry[- ]level|new grad|graduate)\b/i, 'Entry'],
+  [/\b(principal|distinguished)\b/i, 'Principal'],
+  [/\bstaff\b/i, 'Staff'],
+  [/\b(senior|sr\.?)\b/i, 'Senior'],
+  [/\b(lead|tech lead)\b/i, 'Lead'],
+  [/\b(director|head of|vp)\b/i, 'Director'],
+  [/\bmanager\b/i, 'Manager'],
+  [/\b(mid[- ]level|intermediate)\b/i, 'Mid'],
+];
+
+function levelFrom(text: string) {
+  return LEVELS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+// Without an explicit level, the years of experience asked for are the next best signal
+function levelFromYears(text: string) {
+  const match = /(\d{1,2})\+?\s*(?:-\s*\d{1,2}\s*)?years?/i.exec(text);
+  if (!match) return undefined;
+
+  const years = Number(match[1]);
+  if (years <= 1) return 'Entry';
+  if (years <= 4) return 'Mid';
+  if (years <= 7) return 'Senior';
+  return 'Staff';
+}
+
+const isBullet = (line: string) => /^[-•*·]\s+/.test(line);
+
+// Short lines that aren't bullets or sentences are treated as section headings
+const isHeading = (line: string) =>
+  !isBullet(line) && line.length <= 60 && (line.endsWith(':') || !/[.!?]$/.test(line));
+
+// Pull the title, location, level, requirements and nice-to-haves out of posting text
+export function extractJobFields(text: string, hints: PostingHints = {}): JobPosting {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const requirements: string[] = [];
+  const niceToHaves: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (isHeading(line)) {
+      // Check nice-to-haves first: "Preferred qualifications" should not count as a requirement
+      current = NICE_TO_HAVE_HEADING.test(line) ? niceToHaves : REQUIREMENT_HEADING.test(line) ? requirements : null;
+      continue;
+    }
+
+    if (current && isBullet(line)) {
+      current.push(line.replace(/^[-•*·]\s+/, ''));
+    }
+  }
+
+  const firstLine = lines[0];
+  const title = hints.title || (firstLine && firstLine.length <= 80 && !/[.!?]$/.test(firstLine) ? firstLine : undefined);
+
+  const locationMatch = /^location:?\s*(.+)$/im.exec(text);
+  const workplace = /\b(remote|hybrid|on-?site)\b/i.exec(text);
+  const location = hints.location || locationMatch?.[1].trim() || (workplace ? workplace[1][0].toUpperCase() + workplace[1].slice(1).toLowerCase() : undefined);
+
+  const levelMatch = /^(?:level|seniority):?\s*(.+)$/im.exec(text);
+  const level = (title && levelFrom(title)) || levelMatch?.[1].trim() || (hints.level && levelFrom(hints.level)) || levelFromYears(text);
+
+  return {
+    title,
+    location,
+    level,
+    requirements: requirements.slice(0, 15),
+    niceToHaves: niceToHaves.slice(0, 10),
+  };
+}
+
+// Clean text and structured fields from a saved job posting page
+export function parseJobPostingHtml(html: string): { text: string; posting: JobPosting } {
+  const $ = cheerio.load(html);
+  const jsonLd = findJsonLdPosting($);
+  const parser = LAYOUT_PARSERS.find(layout => layout.matches($));
+
+  let layout: PostingLayout = { bodyHtml: '' };
+  if (parser) {
+    console.log(`Job posting: Using ${parser.name} layout`);
+    layout = parser.extract($);
+  }
+
+  // Unknown boards: the structured data description, then the page's main content
+  const bodyHtml = layout.bodyHtml
+    || (typeof jsonLd?.description === 'string' ? jsonLd.description : '')
+    || $('main, article, [role="main"]').first().html()
+    || $('body').html()
+    || html;
+
+  const text = htmlToText(bodyHtml);
+  const posting = extractJobFields(text, {
+    title: layout.title || (typeof jsonLd?.title === 'string' ? jsonLd.title : undefined) || firstText($, 'h1'),
+    location: layout.location || (jsonLd ? jsonLdLocation(jsonLd) : undefined),
+    level: layout.level,
+  });
+
+  return { text, posting };
+}
+
+// Structured posting summary for the question prompts
+export function describeJobPosting(posting: JobPosting) {
+  const lines: string[] = [];
+
+  if (posting.title) {
+    lines.push(`Role: ${posting.title}${posting.level ? ` (${posting.level} level)` : ''}`);
+  } else if (posting.level) {
+    lines.push(`Level: ${posting.level}`);
+  }
+  if (posting.location) {
+    lines.push(`Location: ${posting.location}`);
+  }
+  if (posting.requirements.length > 0) {
+    lines.push(`Requirements: ${posting.requirements.join('; ')}`);
+  }
+  if (posting.niceToHaves.length > 0) {
+    lines.push(`Nice to have: ${posting.niceToHaves.join('; ')}`);
+  }
+
+  return lines.join('\n');
+}
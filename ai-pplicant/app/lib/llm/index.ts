@@ -0,0 +1,69 @@
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { GeneratedBy, LLMProvider, LLMPurpose } from './types';
+
+export type { GeneratedBy, LLMCompletionRequest, LLMMessage, LLMProvider, LLMPurpose } from './types';
+export { completeStructured, repairCompletion, type StructuredCompletion } from './structured';
+
+// Models used with the hosted OpenAI API when nothing else is configured
+const DEFAULT_OPENAI_MODELS: Record<LLMPurpose, string> = {
+  chat: 'gpt-4o-mini',
+  interview: 'gpt-3.5-turbo',
+  report: 'gpt-4o-mini',
+  analysis: 'gpt-4o-mini',
+};
+
+// Ollama's OpenAI-compatible endpoint is the most common local setup
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_COMPATIBLE_MODEL = 'llama3.1';
+
+const purposeModelEnv: Record<LLMPurpose, string | undefined> = {
+  chat: process.env.LLM_CHAT_MODEL,
+  interview: process.env.LLM_INTERVIEW_MODEL,
+  report: process.env.LLM_REPORT_MODEL,
+  analysis: process.env.LLM_ANALYSIS_MODEL,
+};
+
+// Pick the provider from LLM_PROVIDER, defaulting to OpenAI when a key is set and the mock otherwise
+export function getLLMProvider(purpose: LLMPurpose): LLMProvider {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase();
+  const providerName = configured || (process.env.OPENAI_API_KEY ? 'openai' : 'mock');
+  const configuredModel = purposeModelEnv[purpose] || process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.log('LLM provider: OpenAI selected but OPENAI_API_KEY is missing - using mock provider');
+        return createMockProvider();
+      }
+      return createOpenAIProvider({
+        name: 'openai',
+        model: configuredModel || DEFAULT_OPENAI_MODELS[purpose],
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+
+    case 'openai-compatible':
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        model: configuredModel || DEFAULT_COMPATIBLE_MODEL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL,
+        supportsJsonMode: process.env.LLM_JSON_MODE !== 'false',
+      });
+
+    case 'mock':
+      return createMockProvider();
+
+    default:
+      console.warn(`LLM provider: Unknown provider "${providerName}" - using mock provider`);
+      return createMockProvider();
+  }
+}
+
+export function describeProvider(provider: LLMProvider): GeneratedBy {
+  return { provider: provider.name, model: provider.model };
+}
+
+// Attribution for responses that came from the offline heuristics
+export const MOCK_GENERATED_BY: GeneratedBy = { provider: 'mock', model: 'heuristic' };
@@ -0,0 +1,17 @@
+import type { LLMProvider } from './types';
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    model: 'heuristic',
+    isMock: true,
+
+    async complete() {
+      throw new Error('The mock provider does not generate text; use the offline mock functions instead');
+    },
+
+    async *stream() {
+      throw new Error('The mock provider does not generate text; use the offline mock functions instead');
+    },
+  };
+}
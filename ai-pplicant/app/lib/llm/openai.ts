@@ -0,0 +1,50 @@
+import { OpenAI } from 'openai';
+import type { LLMProvider } from './types';
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey: string;
+  // Set for OpenAI-compatible servers such as llama.cpp or Ollama
+  baseURL?: string;
+  // Some local servers don't support response_format, so it can be switched off
+  supportsJsonMode?: boolean;
+}
+
+export function createOpenAIProvider({ name, model, apiKey, baseURL, supportsJsonMode = true }: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    model,
+    isMock: false,
+
+    async complete({ messages, json = false, temperature }) {
+      const completion = await client.chat.completions.create({
+        messages,
+        model,
+        ...(json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
+      });
+
+      return completion.choices[0]?.message?.content || '';
+    },
+
+    async *stream({ messages, json = false, temperature }) {
+      const completion = await client.chat.completions.create({
+        messages,
+        model,
+        stream: true,
+        ...(json && supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
+      });
+
+      for await (const chunk of completion) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { FieldError, ValidationResult } from '../schemas';
+import type { LLMCompletionRequest, LLMProvider } from './types';
+
+export type StructuredCompletion<T> =
+  | { success: true; data: T; repaired: boolean }
+  | { success: false; invalidFields: string[] };
+
+const describeErrors = (errors: FieldError[]) =>
+  errors.map(error => `- ${error.field}: ${error.message}`).join('\n');
+
+const uniqueFields = (errors: FieldError[]) => Array.from(new Set(errors.map(error => error.field)));
+
+// Validate a completion and, if it doesn't match, ask the model once to fix it using the validation errors
+export async function repairCompletion<T>(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  content: string,
+  parse: (content: string) => ValidationResult<T>
+): Promise<StructuredCompletion<T>> {
+  const first = parse(content);
+  if (first.success) {
+    return { success: true, data: first.data, repaired: false };
+  }
+
+  console.warn(`LLM output from ${provider.name}/${provider.model} failed validation, retrying once:\n${describeErrors(first.errors)}`);
+
+  const repairedContent = await provider.complete({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required format:\n${describeErrors(first.errors)}\n\nReply with the corrected JSON only. Keep every field that was already valid and fix the ones listed above.`,
+      },
+    ],
+  });
+
+  const second = parse(repairedContent);
+  if (second.success) {
+    console.log(`LLM output from ${provider.name}/${provider.model} passed validation after repair`);
+    return { success: true, data: second.data, repaired: true };
+  }
+
+  console.error(`LLM output from ${provider.name}/${provider.model} still invalid after repair:\n${describeErrors(second.errors)}`);
+  return { success: false, invalidFields: uniqueFields(second.errors) };
+}
+
+// Complete a request whose output must pass validation, with one repair retry
+export async function completeStructured<T>(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  parse: (content: string) => ValidationResult<T>
+): Promise<StructuredCompletion<T>> {
+  const content = await provider.complete(request);
+  return repairCompletion(provider, request, content, parse);
+}
@@ -0,0 +1,30 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  // Ask the model for a JSON object response
+  json?: boolean;
+  temperature?: number;
+}
+
+// Reported with every generated response so callers can see what produced it
+export interface GeneratedBy {
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  // Mock providers don't generate text; routes use their offline heuristics instead
+  isMock: boolean;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  // Yields the completion text piece by piece as the model generates it
+  stream(request: LLMCompletionRequest): AsyncIterable<string>;
+}
+
+// What the provider is being used for, so each purpose can use its own model
+export type LLMPurpose = 'chat' | 'interview' | 'report' | 'analysis';
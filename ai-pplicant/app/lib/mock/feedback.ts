@@ -0,0 +1,57 @@
+import { getQuestionMode } from '../modes';
+import { weightedScore } from '../rubric';
+import type { CodeSubmission, Diagram, DimensionScore, FeedbackResponse } from '../types';
+import { analyzeAnswer, coveredKeyPoints } from './heuristics';
+import { pickOne, type RandomSource } from './random';
+
+const clampScore = (score: number) => Math.min(5, Math.max(1, score));
+
+// Function to generate mock feedback for development/when API key is missing.
+// Scoring is deterministic; pass a seeded random source to make the follow-up pick reproducible too.
+// Each question mode grades from the answer signals in its own way (see lib/modes).
+export function getMockFeedback(userAnswer: string, question: string, category: string, company: string, difficulty: string = 'Technical Round', questionMode: string = 'technical', generateFollowUp: boolean = false, keyPoints: string[] = [], random: RandomSource = Math.random, code?: CodeSubmission, diagram?: Diagram): FeedbackResponse {
+  console.log(`Using mock ${questionMode} feedback (API key missing or in development)`);
+
+  const signals = analyzeAnswer(userAnswer);
+
+  // Answer length sets the baseline that the other signals adjust
+  let lengthScore = 3; // Default average score
+  if (signals.wordCount < 10) {
+    lengthScore = 2; // Too short
+  } else if (signals.wordCount > 60) {
+    lengthScore = 4; // Detailed answer
+  }
+
+  // Share of the question bank's key points the answer touched on, when the question has them
+  const covered = coveredKeyPoints(userAnswer, keyPoints);
+  const missed = keyPoints.filter(point => !covered.includes(point));
+  const coverage = keyPoints.length > 0 ? covered.length / keyPoints.length : null;
+
+  // Fill in the same rubric dimensions the LLM grader uses
+  const mode = getQuestionMode(questionMode);
+  const { scores, ...written } = mode.mock.grade({ answer: userAnswer, signals, company, category, difficulty, lengthScore, covered, missed, coverage, code, diagram });
+  const dimensions: DimensionScore[] = mode.rubric.map(({ id, label, weight }) => ({
+    id,
+    label,
+    weight,
+    score: clampScore(scores[id]?.[0] ?? lengthScore),
+    justification: scores[id]?.[1] ?? 'Scored from the length of the answer.'
+  }));
+
+  // Generate a more conversational follow-up if requested
+  const feedbackResponse: FeedbackResponse = {
+    ...written,
+    dimensions,
+    score: weightedScore(dimensions),
+    follow_up_question: generateFollowUp ? pickOne(mode.mock.followUps(company, signals), random) : '',
+    follow_up_category: category
+  };
+
+  console.log("Mock feedback response (summarized):", {
+    score: feedbackResponse.score,
+    hasFollowUp: !!feedbackResponse.follow_up_question,
+    followUpCategory: feedbackResponse.follow_up_category
+  });
+
+  return feedbackResponse;
+}
@@ -0,0 +1,97 @@
+// Answer signals the offline grader scores from, in place of an LLM
+
+export interface StarSignals {
+  situation: boolean;
+  task: boolean;
+  action: boolean;
+  result: boolean;
+  // The parts that were found appear in Situation, Task, Action, Result order
+  inOrder: boolean;
+}
+
+export interface AnswerSignals {
+  wordCount: number;
+  sentenceCount: number;
+  star: StarSignals;
+  // Big-O notation or plain-English complexity, as written in the answer
+  complexity: string[];
+  // Concrete numbers with a unit, e.g. "40%", "200ms" or "3x"
+  metrics: string[];
+  // First-person singular versus plural action statements
+  ownActions: number;
+  teamActions: number;
+  mentionsEdgeCases: boolean;
+  mentionsTradeoffs: boolean;
+  // Sequencing words that show a step-by-step explanation
+  signposts: number;
+}
+
+// STAR parts are matched as phrases in context rather than the words "situation" or "result" themselves
+const STAR_PATTERNS: Record<keyof Omit<StarSignals, 'inOrder'>, RegExp> = {
+  situation: /\b(at my (last|previous|current|old) (job|company|role|team)|when i was (working|at|on|a)|(we|our team|the team|the company) (was|were|had)|(last|a few|two|three) (year|month|quarter)s?( ago)?|in (19|20)\d\d|back when|there was a)\b/i,
+  task: /\b(my (goal|task|job|role|responsibility) was|i was (responsible|asked|tasked|assigned|brought in)|i (needed|had) to|we (needed|had) to|the (goal|challenge|problem) was)\b/i,
+  action: /\bi (built|led|wrote|proposed|decided|implemented|organized|set up|reached out|talked|met|created|designed|migrated|refactored|introduced|started|drove|convinced|automated|rewrote|coordinated|analy[sz]ed|prioritized|negotiated|mentored)\b/i,
+  result: /\b(as a result|in the end|ultimately|which (led|resulted|meant|cut|reduced|increased|saved)|the (outcome|result|impact) was|(this|that|it) (reduced|increased|cut|improved|saved|doubled|halved)|we (reduced|increased|cut|improved|saved|shipped|launched|delivered|hit|met)|i learned|looking back)\b/i,
+};
+
+const COMPLEXITY_NOTATION = /(?<![A-Za-z0-9])[OΘΩ]\(\s*(?:[^()]|\([^()]*\))+\)/g;
+const SPOKEN_COMPLEXITY = /\b(big[- ]o of [a-z0-9 ]+?(?=[,.;]|$| time| space)|(constant|logarithmic|linear|linearithmic|quadratic|cubic|exponential|n log n) (time|space|complexity))\b/gi;
+
+const METRIC = /(?:[$€£]\s?\d[\d,.]*\s?(?:k|m|bn|million|billion)?|\b\d[\d,.]*\s?(?:%|percent\b|x\b|times (?:faster|slower|more|less)\b|ms\b|milliseconds\b|seconds?\b|minutes?\b|hours?\b|days?\b|weeks?\b|months?\b|k\b|million\b|billion\b|users\b|customers\b|requests\b|rps\b|qps\b|engineers\b|people\b|services\b|tickets\b|bugs\b|incidents\b|(?:per|a) (?:day|week|month|quarter|year)\b))/gi;
+
+// "I migrated..." versus "we migrated...", skipping opinions and states like "I think" or "we were"
+const OWN_ACTION = /\bi (?!am|was|think|guess|believe|mean|feel|would|could|might|have|had|do|don't|like|want)[a-z']{3,}/gi;
+const TEAM_ACTION = /\bwe (?!are|were|would|could|might|have|had|do|don't)[a-z']{3,}/gi;
+
+const SIGNPOSTS = /\b(first(ly)?|second(ly)?|then|next|after that|finally|to start|step \d)\b/gi;
+
+// Where each STAR part first appears, or -1
+function starPositions(answer: string) {
+  return Object.fromEntries(
+    Object.entries(STAR_PATTERNS).map(([part, pattern]) => [part, answer.search(pattern)])
+  ) as Record<keyof typeof STAR_PATTERNS, number>;
+}
+
+export function analyzeAnswer(answer: string): AnswerSignals {
+  const positions = starPositions(answer);
+  const found = Object.values(positions).filter(position => position !== -1);
+
+  return {
+    wordCount: answer.split(/\s+/).filter(Boolean).length,
+    sentenceCount: answer.split(/[.!?]+/).filter(sentence => sentence.trim().length > 0).length,
+    star: {
+      situation: positions.situation !== -1,
+      task: positions.task !== -1,
+      action: positions.action !== -1,
+      result: positions.result !== -1,
+      inOrder: found.length > 1 && found.every((position, i) => i === 0 || position >= found[i - 1]),
+    },
+    complexity: Array.from(new Set([
+      ...(answer.match(COMPLEXITY_NOTATION) || []),
+      ...(answer.match(SPOKEN_COMPLEXITY) || []).map(phrase => phrase.toLowerCase()),
+    ])),
+    metrics: Array.from(new Set((answer.match(METRIC) || []).map(metric => metric.trim()))),
+    ownActions: (answer.match(OWN_ACTION) || []).length,
+    teamActions: (answer.match(TEAM_ACTION) || []).length,
+    mentionsEdgeCases: /\b(edge cases?|corner cases?|empty (input|string|array|list)|null|overflow|out of bounds|fail(s|ure|ed)?|timeouts?|retr(y|ies))\b/i.test(answer),
+    mentionsTradeoffs: /\b(trade-?offs?|on the other hand|at the cost of|downside|versus|vs\.?|instead of|pros and cons)\b/i.test(answer),
+    signposts: (answer.match(SIGNPOSTS) || []).length,
+  };
+}
+
+const stem = (word: string) => word.slice(0, 4);
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'such', 'from', 'into', 'than', 'that', 'this', 'what', 'when', 'their', 'they', 'your', 'how', 'not', 'are', 'per']);
+
+// A key point counts as covered when most of its meaningful words show up in the answer
+export function coveredKeyPoints(answer: string, keyPoints: string[]) {
+  // Compare word stems so "caching" covers "cache"
+  const answerStems = new Set((answer.toLowerCase().match(/[a-z0-9+#]+/g) || []).map(stem));
+
+  return keyPoints.filter(point => {
+    const words = (point.toLowerCase().match(/[a-z0-9+#]+/g) || []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+    if (words.length === 0) return false;
+    const hits = words.filter(word => answerStems.has(stem(word)));
+    return hits.length / words.length >= 0.5;
+  });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { selectBankQuestions } from '../questionBank';
+import type { BankQuestion } from '../types';
+import { getMockFeedback } from './feedback';
+import { deriveRandom } from './random';
+
+const bank: BankQuestion[] = Array.from({ length: 12 }, (_, index) => ({
+  id: `question-${index}`,
+  question: `Technical question ${index}`,
+  category: 'Caching',
+  difficulty: 'Technical Round',
+  mode: 'technical',
+  skills: [],
+  companies: [],
+  keyPoints: ['Eviction policy'],
+  timeLimitSeconds: 300,
+}));
+
+const pickQuestions = (seed: number) =>
+  selectBankQuestions(bank, { mode: 'technical', company: 'Acme', count: 3, random: deriveRandom(seed, 'questions') })
+    .map(question => question.id);
+
+const feedback = (seed: number) => {
+  const question = 'How would you cache product pages?';
+  const answer = 'I would put a read-through cache in front of the product database and expire entries after a few minutes.';
+  return getMockFeedback(answer, question, 'Caching', 'Acme', 'Technical Round', 'technical', true, [], deriveRandom(seed, 'follow-up', question, answer));
+};
+
+describe('seeded mock interviews', () => {
+  it('picks the same bank questions and feedback for the same seed', () => {
+    expect(pickQuestions(1234)).toEqual(pickQuestions(1234));
+    expect(feedback(1234)).toEqual(feedback(1234));
+  });
+
+  it('picks different bank questions and follow-ups for a different seed', () => {
+    expect(pickQuestions(1234)).not.toEqual(pickQuestions(5678));
+    expect(feedback(1234).follow_up_question).not.toBe(feedback(5678).follow_up_question);
+  });
+});
@@ -0,0 +1,42 @@
+// Seedable random numbers for the offline mock engine, so the same seed and answers replay the same interview
+
+export type RandomSource = () => number;
+
+// Seeds are unsigned 32-bit integers so they survive JSON and fit in a URL
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// mulberry32: tiny and fast, and plenty random enough for picking questions
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// FNV-1a, continuing from a previous hash so several keys can be chained
+function hashString(text: string, hash: number) {
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// A separate stream per purpose and per answer, so one extra draw never shifts every later pick
+export function deriveRandom(seed: number, ...keys: string[]): RandomSource {
+  const mixed = keys.reduce((hash, key) => hashString(`\u0000${key}`, hash), (seed ^ 0x811c9dc5) >>> 0);
+  return createRandom(mixed);
+}
+
+export function pickOne<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
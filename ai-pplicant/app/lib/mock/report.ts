@@ -0,0 +1,73 @@
+import { getInterviewModeInfo } from '../modes';
+import { getScoredTurns, groupSimilarPhrases, groupTurnsByPanelist, scorePanelist, scoreSession, summarizeDelivery, summarizeTimeSpent } from '../report';
+import { formatDuration } from '../timing';
+import type { InterviewSession } from '../session';
+import type { InterviewReport, PanelistAssessment } from '../types';
+
+// Each panelist's take, from the strengths and improvements raised on their own questions
+export function getMockPanelAssessments(session: InterviewSession): PanelistAssessment[] {
+  return groupTurnsByPanelist(session).map(({ panelist, turns }) => {
+    const scores = scorePanelist(panelist, turns);
+    if (turns.length === 0) {
+      return { ...scores, assessment: `${panelist.name} didn't get to a scored question, so there is no signal from this part of the panel yet.` };
+    }
+
+    const [strength] = groupSimilarPhrases(turns.map(turn => turn.feedback.strengths || []));
+    const [improvement] = groupSimilarPhrases(turns.map(turn => turn.feedback.improvements || []));
+    return {
+      ...scores,
+      assessment: `${panelist.name} heard ${turns.length} answer${turns.length === 1 ? '' : 's'} averaging ${scores.score}/5.` +
+        (strength ? ` Liked: ${strength.theme.charAt(0).toLowerCase()}${strength.theme.slice(1)}.` : '') +
+        (improvement ? ` Wants to see: ${improvement.theme.charAt(0).toLowerCase()}${improvement.theme.slice(1)}.` : '')
+    };
+  });
+}
+
+// Deterministic end-of-interview report for development/when API key is missing
+export function getMockReport(session: InterviewSession): InterviewReport {
+  console.log(`Using mock report for session ${session.id} (API key missing or in development)`);
+
+  const turns = getScoredTurns(session);
+  const scores = scoreSession(session);
+
+  const strengthGroups = groupSimilarPhrases(turns.map(turn => turn.feedback.strengths || []));
+  const improvementGroups = groupSimilarPhrases(turns.map(turn => turn.feedback.improvements || []));
+
+  // Prefer strengths seen in more than one answer, otherwise show the most common ones
+  const repeated = strengthGroups.filter(group => group.occurrences > 1);
+  const recurringStrengths = (repeated.length > 0 ? repeated : strengthGroups)
+    .slice(0, 3)
+    .map(group => group.theme);
+
+  const improvementThemes = improvementGroups.slice(0, 3);
+
+  const modeLabel = getInterviewModeInfo(session.interviewMode).label.toLowerCase();
+  let summary: string;
+  if (scores.questionCount === 0) {
+    summary = `No answers were scored in this ${modeLabel} interview for ${session.company}, so there is nothing to summarize yet.`;
+  } else {
+    const strongest = [...scores.categoryScores].sort((a, b) => b.score - a.score)[0];
+    summary = `You answered ${scores.questionCount} ${modeLabel} question${scores.questionCount === 1 ? '' : 's'} for ${session.company} with an average score of ${scores.overallScore}/5. ` +
+      `Your strongest area was ${strongest.category} (${strongest.score}/5)` +
+      (scores.weakestQuestion && scores.weakestQuestion.category !== strongest.category
+        ? `, while ${scores.weakestQuestion.category} needs the most work (${scores.weakestQuestion.score}/5).`
+        : '.') +
+      (improvementThemes.length > 0 ? ` Focus your next practice session on: ${improvementThemes[0].theme.toLowerCase()}.` : '');
+  }
+
+  const timeSpent = summarizeTimeSpent(session);
+  const delivery = summarizeDelivery(session);
+  if (timeSpent && timeSpent.overLimitCount > 0) {
+    summary += ` You went over the recommended time on ${timeSpent.overLimitCount} of ${timeSpent.questions.length} questions, ${formatDuration(timeSpent.totalSeconds)} in total.`;
+  }
+
+  return {
+    ...scores,
+    recurringStrengths,
+    improvementThemes,
+    summary,
+    ...(session.panel ? { panelAssessments: getMockPanelAssessments(session) } : {}),
+    ...(timeSpent ? { timeSpent } : {}),
+    ...(delivery ? { delivery } : {})
+  };
+}
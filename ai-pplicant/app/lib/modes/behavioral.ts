@@ -0,0 +1,188 @@
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+const STAR_PARTS = ['situation', 'task', 'action', 'result'] as const;
+
+export const behavioralMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'behavioral',
+  interviewer: 'behavioral interviewer',
+  timeLimitSeconds: 180,
+  profileFocus: ['behavioral'],
+
+  rubric: [
+    {
+      id: 'structure',
+      label: 'STAR Structure',
+      weight: 0.3,
+      description: 'Is it a clear story covering Situation, Task, Action and Result?'
+    },
+    {
+      id: 'specificity',
+      label: 'Specificity',
+      weight: 0.25,
+      description: 'Is it a concrete example with the candidate\'s own role and contributions spelled out?'
+    },
+    {
+      id: 'impact',
+      label: 'Impact',
+      weight: 0.25,
+      description: 'Are measurable results or lessons learned shared?'
+    },
+    {
+      id: 'relevance',
+      label: 'Relevance',
+      weight: 0.2,
+      description: 'Does the example answer the question and show skills that matter for the role?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced behavioral interviewer at ${company}, familiar with the company's unique culture, values, and behavioral interview style.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Based on this job description and your in-depth knowledge of ${company}'s specific behavioral interview process, generate ONE thoughtful, open-ended behavioral question that:
+          1. Reflects a question that would actually be asked at ${company} - not a generic behavioral question
+          2. Aligns with ${company}'s core values and cultural attributes
+          3. Probes for experiences that demonstrate skills crucial for success at ${company}
+          4. Is crafted to elicit specific examples (STAR method) rather than hypothetical situations
+          5. Feels authentic to the company's interview style and expectations
+          6. Adapts to the specific role requirements in the job description
+
+          Consider specific aspects of ${company}'s culture when crafting the question:
+          - The company's approach to collaboration and teamwork
+          - How the company handles challenges and failures
+          - The specific leadership principles or values the company prioritizes
+          - What makes someone successful within the company's culture
+
+          Format the output as a JSON array containing just one object with:
+          - "question": A company-specific behavioral question that feels authentic to ${company}'s interview process
+          - "category": The specific competency being assessed relevant to success at ${company}
+          - "difficulty": The interview stage (should be "Initial Screen")
+
+          Example format:
+          [
+            {
+              "question": "At ${company}, we value [specific company value]. Tell me about a time when you demonstrated this value in a challenging situation and what the outcome was.",
+              "category": "Cultural Alignment",
+              "difficulty": "Initial Screen"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are creating a list of behavioral interview questions for a position at ${company}.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Based on this job description and public knowledge about ${company}'s interview process, generate 5 behavioral interview questions that:
+          1. Reflect the ACTUAL behavioral questions commonly asked at ${company}
+          2. Follow the typical STAR method (Situation, Task, Action, Result) format
+          3. Cover different competencies like leadership, teamwork, conflict resolution, problem-solving, and adaptability
+          4. Progress from introductory to more challenging questions
+          5. Are specific to the company culture and values of ${company}
+
+          Make these questions as authentic and company-specific as possible, mimicking the real interview experience at ${company}.
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The behavioral interview question
+          - "category": The competency being assessed (e.g., "Leadership", "Teamwork", "Conflict Resolution", "Problem Solving", "Adaptability")
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")
+
+          Example format:
+          [
+            {
+              "question": "Tell me about a time when you had to lead a team through a difficult project at a previous company. How did you handle it?",
+              "category": "Leadership",
+              "difficulty": "Second Round"
+            },
+            ...
+          ]
+        `,
+
+  feedbackGuidelines: `
+      For this behavioral question:
+      - Assess if they told a clear story with a beginning, middle, and end
+      - Check if their example was relevant to the question and showed key skills
+      - Evaluate if they explained their specific role and contributions
+      - Note if they shared measurable results or lessons learned
+      - Mention STAR method (Situation, Task, Action, Result) only if they clearly didn't follow it
+      `,
+
+  mock: {
+    resumeOpener: (company, resume) => {
+      const role = resume.roles[0];
+      return role
+        ? {
+            question: `Tell me about yourself, starting with your time as ${role.title}${role.organization ? ` at ${role.organization}` : ''}, and why you're interested in this role at ${company}.`,
+            category: "Introduction",
+            difficulty: "Initial Screen"
+          }
+        : null;
+    },
+
+    genericOpener: company => ({
+      question: `Tell me about yourself and why you're interested in this role at ${company}.`,
+      category: "Introduction",
+      difficulty: "Initial Screen"
+    }),
+
+    followUps: (company, signals) => [
+      `That's a good example. Can you tell me about another situation where you demonstrated similar skills?`,
+      `If you were to face that situation again at ${company}, what would you do differently?`,
+      `How do you think that experience prepared you for the role at ${company}?`,
+      `What was the most challenging aspect of that situation, and how did you overcome it?`,
+      `How did that experience change your approach to teamwork or problem-solving?`,
+      ...(signals.metrics.length === 0 ? [`How did you measure whether that worked?`] : []),
+      ...(signals.teamActions > signals.ownActions ? [`You mentioned what the team did. What was your own part in it?`] : [])
+    ],
+
+    grade: ({ signals, company, category, lengthScore, missed, coverage }) => {
+      // Check for STAR elements as phrases in context
+      const starFound = STAR_PARTS.filter(part => signals.star[part]);
+      const starMissing = STAR_PARTS.filter(part => !signals.star[part]);
+      const hasMetrics = signals.metrics.length > 0;
+      const ownsActions = signals.ownActions > 0 && signals.ownActions >= signals.teamActions;
+
+      return {
+        scores: {
+          structure: [
+            1 + starFound.length - (starFound.length === 4 && !signals.star.inOrder ? 1 : 0),
+            starMissing.length === 0
+              ? signals.star.inOrder ? 'Told the story in Situation, Task, Action, Result order.' : 'Covered all of STAR, but out of order.'
+              : `The story was missing the ${starMissing.join(', ')}.`
+          ],
+          specificity: [
+            lengthScore + (ownsActions ? 1 : -1),
+            ownsActions ? 'Described what you personally did.' : signals.teamActions > 0 ? 'Talked about what "we" did more than your own part.' : 'Your own role and contributions were unclear.'
+          ],
+          impact: [
+            hasMetrics ? (signals.metrics.length >= 2 ? 5 : 4) : signals.star.result ? 3 : 2,
+            hasMetrics ? `Backed up the outcome with numbers (${signals.metrics.slice(0, 2).join(', ')}).` : signals.star.result ? 'Shared an outcome, but without any numbers.' : 'No measurable result or outcome was shared.'
+          ],
+          relevance: coverage !== null
+            ? [1 + Math.round(coverage * 4), missed.length === 0 ? 'Hit everything this question is looking for.' : `Didn't show: ${missed.slice(0, 2).join('; ')}.`]
+            : [
+                signals.wordCount > 60 ? 4 : 3,
+                signals.wordCount > 60 ? 'The example gave enough detail to show the skills asked about.' : 'The example only touched on the skills asked about.'
+              ]
+        },
+        feedback: `Your response to the ${category} question ${starMissing.length === 0 ? 'follows the STAR structure well' : `is missing the ${starMissing.join(' and ')} part of a STAR answer`}. ` +
+          (ownsActions ? 'You were clear about your own actions. ' : `Focus more on what you did yourself rather than what the team did. `) +
+          (hasMetrics
+            ? `Numbers like ${signals.metrics[0]} make the impact concrete.`
+            : `For behavioral interviews at ${company}, it's important to provide specific, measurable outcomes from your experiences.`),
+        strengths: [
+          "Shared a relevant personal experience",
+          starFound.length >= 3 ? "Included most elements of the STAR method" : "Provided some context for your actions",
+          hasMetrics ? "Quantified the outcome" : ownsActions ? "Owned your actions" : "Kept your response focused"
+        ],
+        improvements: [
+          starMissing.length > 0 ? `Add the ${starMissing[0]} to complete the STAR structure` : "Tighten the situation so the actions and result get more time",
+          hasMetrics ? "Explain how you measured the result" : "Quantify your achievements with specific metrics where possible",
+          "Connect your experience more explicitly to the role at " + company
+        ],
+        follow_up: `Can you tell me more about what you personally learned from this experience and how it would apply to your potential role at ${company}?`
+      };
+    }
+  }
+};
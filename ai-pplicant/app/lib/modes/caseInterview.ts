@@ -0,0 +1,172 @@
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+const STRUCTURE = /\b(framework|break (it|this) (down|into)|three (areas|buckets|parts)|buckets?|on one side|revenue (and|vs\.?) costs?|supply (and|vs\.?) demand|internal (and|vs\.?) external|first(ly)?|second(ly)?|finally)\b/gi;
+const ESTIMATE = /\b(assum(e|ing|ption)|roughly|about|approximately|estimate|ballpark|multiply|divide|times|per (year|month|day|customer|user|store))\b/i;
+const HYPOTHESIS = /\b(hypothes(is|es|ize)|i suspect|my guess|likely (driver|cause|reason)|root cause|drivers?)\b/i;
+const BUSINESS = /\b(revenue|costs?|margins?|profit(ability)?|market (size|share)|pricing|competitors?|customers?|unit economics|break[- ]even|roi|payback|channels?)\b/gi;
+const RECOMMENDATION = /\b(i (would|'d) recommend|my recommendation|recommend(ation)?|i (would|'d) (go|proceed|invest|launch|enter)|next steps?|risks?)\b/i;
+
+export const caseMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'case',
+  interviewer: 'case interviewer',
+  timeLimitSeconds: 900,
+  profileFocus: ['behavioral'],
+
+  rubric: [
+    {
+      id: 'structure',
+      label: 'Structure',
+      weight: 0.3,
+      description: 'Is the problem broken into a clear, mutually exclusive structure before diving in?'
+    },
+    {
+      id: 'analysis',
+      label: 'Quantitative Analysis',
+      weight: 0.3,
+      description: 'Are assumptions stated and estimates worked through with sensible numbers?'
+    },
+    {
+      id: 'judgment',
+      label: 'Business Judgment',
+      weight: 0.2,
+      description: 'Do hypotheses and insights reflect how the business actually makes money?'
+    },
+    {
+      id: 'recommendation',
+      label: 'Recommendation',
+      weight: 0.2,
+      description: 'Does the answer end in a clear recommendation with risks and next steps?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced case interviewer for ${company}, running a business case interview.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate ONE case question that:
+          1. Presents a realistic business problem ${company} or one of its customers could face
+          2. Can be worked through out loud in about ten minutes: structure, estimate, then recommend
+          3. Includes enough context (the situation and the decision to be made) to get started
+          4. Fits the seniority and focus of the role
+
+          Format the output as a JSON array containing just one object with:
+          - "question": The case prompt, phrased the way an interviewer would say it
+          - "category": The kind of case (e.g. "Market Sizing", "Profitability", "Market Entry", "Pricing")
+          - "difficulty": The interview stage (should be "Initial Screen" or similar)
+
+          Example format:
+          [
+            {
+              "question": "${company} is considering launching a subscription tier for small businesses. How would you decide whether it's worth it?",
+              "category": "Market Entry",
+              "difficulty": "Initial Screen"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced case interviewer for ${company} preparing a case interview loop.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate 5 case questions that:
+          1. Mix market sizing, profitability, market entry, pricing and operations cases
+          2. Are grounded in problems ${company} or its customers plausibly face
+          3. Progress from a quick estimation to an ambiguous strategic decision
+          4. Each give enough context to structure the problem and reach a recommendation
+          5. Match the seniority and focus areas of the role
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The case prompt
+          - "category": The kind of case
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")
+
+          Example format:
+          [
+            {
+              "question": "Profits at ${company}'s largest business line fell 15% this year while revenue grew. What's going on?",
+              "category": "Profitability",
+              "difficulty": "Second Round"
+            },
+            ...
+          ]
+        `,
+
+  feedbackGuidelines: `
+      For this case question:
+      - Check whether they laid out a structure before diving into details
+      - Assess whether assumptions were stated and the arithmetic holds up
+      - Evaluate whether their hypotheses make business sense for the situation
+      - Note whether they landed on a clear recommendation with risks and next steps
+      - Point out where a better structure or a sanity check would have helped
+      `,
+
+  mock: {
+    resumeOpener: () => null,
+
+    genericOpener: company => ({
+      question: `${company} wants to know how many people in the US would pay for a premium version of its main product. How would you estimate that?`,
+      category: "Market Sizing",
+      difficulty: "Initial Screen"
+    }),
+
+    followUps: (company, signals) => [
+      `Which part of your structure would you dig into first, and why?`,
+      `Say the numbers come back half of what you estimated. Does your recommendation change?`,
+      `What data would you ask ${company} for to test your hypothesis?`,
+      `What's the biggest risk in your recommendation, and how would you mitigate it?`,
+      ...(signals.metrics.length === 0 ? [`Can you put a number on that? Walk me through the math.`] : [])
+    ],
+
+    grade: ({ answer, signals, company, category, lengthScore, missed, coverage }) => {
+      const structureSignals = (answer.match(STRUCTURE) || []).length;
+      const estimates = ESTIMATE.test(answer);
+      const hypothesis = HYPOTHESIS.test(answer);
+      const businessTerms = Array.from(new Set((answer.match(BUSINESS) || []).map(term => term.toLowerCase())));
+      const recommends = RECOMMENDATION.test(answer);
+
+      return {
+        scores: {
+          structure: [
+            structureSignals >= 3 ? 5 : structureSignals === 2 ? 4 : structureSignals === 1 ? 3 : lengthScore - 1,
+            structureSignals >= 2 ? 'Laid out a clear structure before the details.' : structureSignals === 1 ? 'Hinted at a structure, but did not lay it out fully.' : 'Went into details without a structure.'
+          ],
+          analysis: [
+            1 + (estimates ? 2 : 0) + Math.min(signals.metrics.length, 2),
+            signals.metrics.length > 0 ? `Worked with concrete numbers (${signals.metrics.slice(0, 2).join(', ')}).` : estimates ? 'Stated assumptions, but never put numbers on them.' : 'No assumptions or numbers were worked through.'
+          ],
+          judgment: coverage !== null
+            ? [
+                1 + Math.round(coverage * 4),
+                missed.length === 0 ? 'Covered every key point a strong answer needs.' : `Missed: ${missed.slice(0, 2).join('; ')}.`
+              ]
+            : [
+                2 + (hypothesis ? 1 : 0) + Math.min(businessTerms.length, 2),
+                hypothesis ? 'Led with a hypothesis about what drives the problem.' : businessTerms.length > 0 ? `Used the right business levers (${businessTerms.slice(0, 2).join(', ')}).` : 'Did not connect the answer to how the business makes money.'
+              ],
+          recommendation: [
+            recommends ? 4 + (/\brisks?\b/i.test(answer) ? 1 : 0) : 1,
+            recommends ? 'Ended with a clear recommendation.' : 'Did not commit to a recommendation.'
+          ]
+        },
+        feedback: `Your approach to the ${category} case ${structureSignals >= 2 ? 'starts with a clear structure' : 'would be easier to follow with a structure up front'}. ` +
+          (signals.metrics.length > 0 ? 'Putting numbers on your assumptions made the analysis concrete. ' : 'State your assumptions and work through the numbers out loud. ') +
+          (recommends
+            ? 'Landing on a recommendation is exactly how a case should end.'
+            : `Case interviewers at ${company || 'most companies'} expect you to close with a recommendation, even a tentative one.`),
+        strengths: [
+          "Engaged with the business problem",
+          structureSignals >= 2 ? "Structured the problem before solving it" : estimates ? "Stated assumptions" : "Kept the discussion moving",
+          recommends ? "Committed to a recommendation" : hypothesis ? "Worked from a hypothesis" : "Touched on the key business levers"
+        ],
+        improvements: [
+          structureSignals >= 2 ? "Say which branch of the structure matters most and why" : "Lay out a structure of two to four buckets before diving in",
+          missed.length > 0 ? `Cover ${missed[0].charAt(0).toLowerCase()}${missed[0].slice(1)}` : "Sanity-check your estimate against a known number",
+          recommends ? "Add the main risks and next steps to the recommendation" : "Finish with a clear recommendation"
+        ],
+        follow_up: `If you only had one week and one analyst, what would you look at first to confirm your recommendation?`
+      };
+    }
+  }
+};
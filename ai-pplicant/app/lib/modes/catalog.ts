@@ -0,0 +1,111 @@
+// Interview modes as the UI sees them. Kept free of server code so the setup page can import it;
+// prompts, rubrics and mock content for each mode live in the registry next to this file.
+
+export const INTERVIEW_MODE_IDS = ['technical', 'coding', 'behavioral', 'system-design', 'product-sense', 'case', 'mixed'] as const;
+
+export type InterviewModeId = (typeof INTERVIEW_MODE_IDS)[number];
+
+// Modes a single question can belong to; a mixed interview draws from several of them
+export const QUESTION_MODE_IDS = ['technical', 'coding', 'behavioral', 'system-design', 'product-sense', 'case'] as const;
+
+export type QuestionModeId = (typeof QUESTION_MODE_IDS)[number];
+
+export interface InterviewModeInfo {
+  id: InterviewModeId;
+  label: string;
+  // Shown under the mode buttons on the setup page
+  description: string;
+  // Question modes asked in this interview, in the order they alternate
+  questionModes: QuestionModeId[];
+  // SVG path for the 20x20 button icon
+  icon: string;
+  colors: {
+    button: string;
+    badge: string;
+    // Avatar gradient and suit
+    light: string;
+    dark: string;
+    suit: string;
+  };
+  // Used when the chat API returns no follow-up question
+  genericFollowUp(category: string): string;
+}
+
+export const INTERVIEW_MODE_CATALOG: Record<InterviewModeId, InterviewModeInfo> = {
+  technical: {
+    id: 'technical',
+    label: 'Technical',
+    description: 'Focus on coding, algorithms, and technical knowledge',
+    questionModes: ['technical'],
+    icon: 'M12.316 3.051a1 1 0 01.633 1.265l-4 12a1 1 0 11-1.898-.632l4-12a1 1 0 011.265-.633zM5.707 6.293a1 1 0 010 1.414L3.414 10l2.293 2.293a1 1 0 11-1.414 1.414l-3-3a1 1 0 010-1.414l3-3a1 1 0 011.414 0zm8.586 0a1 1 0 011.414 0l3 3a1 1 0 010 1.414l-3 3a1 1 0 11-1.414-1.414L16.586 10l-2.293-2.293a1 1 0 010-1.414z',
+    colors: { button: 'bg-blue-600', badge: 'bg-blue-600/30 text-blue-300', light: '#3b82f6', dark: '#1e40af', suit: '#1d4ed8' },
+    genericFollowUp: category => `How would you approach a problem related to ${category || "system design"}?`,
+  },
+  coding: {
+    id: 'coding',
+    label: 'Coding',
+    description: 'Solve algorithm problems in the editor, run them against hidden tests, and talk through your approach',
+    questionModes: ['coding'],
+    icon: 'M2 5a2 2 0 012-2h12a2 2 0 012 2v10a2 2 0 01-2 2H4a2 2 0 01-2-2V5zm3.293 1.293a1 1 0 011.414 0l3 3a1 1 0 010 1.414l-3 3a1 1 0 01-1.414-1.414L7.586 10 5.293 7.707a1 1 0 010-1.414zM11 12a1 1 0 100 2h3a1 1 0 100-2h-3z',
+    colors: { button: 'bg-rose-600', badge: 'bg-rose-600/30 text-rose-300', light: '#f43f5e', dark: '#be123c', suit: '#e11d48' },
+    genericFollowUp: category => `How would you change your ${category || "solution"} if the input were ten times larger?`,
+  },
+  behavioral: {
+    id: 'behavioral',
+    label: 'Behavioral',
+    description: 'Focus on soft skills, experience, and situational questions',
+    questionModes: ['behavioral'],
+    icon: 'M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-6-3a2 2 0 11-4 0 2 2 0 014 0zm-2 4a5 5 0 00-4.546 2.916A5.986 5.986 0 005 10a6 6 0 0012 0c0-.35-.041-.69-.101-1.021A5 5 0 0010 11z',
+    colors: { button: 'bg-indigo-600', badge: 'bg-indigo-600/30 text-indigo-300', light: '#6366f1', dark: '#4338ca', suit: '#4f46e5' },
+    genericFollowUp: category => `Can you give me an example of a time when you demonstrated ${category || "leadership"}?`,
+  },
+  'system-design': {
+    id: 'system-design',
+    label: 'System Design',
+    description: 'Design a large-scale system end to end: requirements, architecture, scaling and tradeoffs',
+    questionModes: ['system-design'],
+    icon: 'M3 4a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H7v2h6V9h-1a1 1 0 01-1-1V4a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-1v3a1 1 0 01-1 1h-3v2h1a1 1 0 011 1v2a1 1 0 01-1 1H8a1 1 0 01-1-1v-2a1 1 0 011-1h1v-2H6a1 1 0 01-1-1V9H4a1 1 0 01-1-1V4z',
+    colors: { button: 'bg-cyan-600', badge: 'bg-cyan-600/30 text-cyan-300', light: '#06b6d4', dark: '#0e7490', suit: '#0891b2' },
+    genericFollowUp: category => `How would your design for ${category || "this system"} hold up at ten times the traffic?`,
+  },
+  'product-sense': {
+    id: 'product-sense',
+    label: 'Product Sense',
+    description: 'Improve or design a product: users, problems, prioritization and success metrics',
+    questionModes: ['product-sense'],
+    icon: 'M11 3a1 1 0 10-2 0v1a1 1 0 102 0V3zM15.657 5.757a1 1 0 00-1.414-1.414l-.707.707a1 1 0 001.414 1.414l.707-.707zM18 10a1 1 0 01-1 1h-1a1 1 0 110-2h1a1 1 0 011 1zM5.05 6.464A1 1 0 106.464 5.05l-.707-.707a1 1 0 00-1.414 1.414l.707.707zM5 10a1 1 0 01-1 1H3a1 1 0 110-2h1a1 1 0 011 1zM8 16v-1h4v1a2 2 0 11-4 0zM12 14c.015-.34.208-.646.477-.859a4 4 0 10-4.954 0c.27.213.462.519.476.859h4.002z',
+    colors: { button: 'bg-amber-600', badge: 'bg-amber-600/30 text-amber-300', light: '#f59e0b', dark: '#b45309', suit: '#d97706' },
+    genericFollowUp: category => `Which metric would tell you that your ${category || "product"} idea is working?`,
+  },
+  case: {
+    id: 'case',
+    label: 'Case',
+    description: 'Work through a business case: structure the problem, estimate, and recommend',
+    questionModes: ['case'],
+    icon: 'M6 6V5a3 3 0 013-3h2a3 3 0 013 3v1h2a2 2 0 012 2v3.57A22.952 22.952 0 0110 13a22.95 22.95 0 01-8-1.43V8a2 2 0 012-2h2zm2-1a1 1 0 011-1h2a1 1 0 011 1v1H8V5zm1 5a1 1 0 011-1h.01a1 1 0 110 2H10a1 1 0 01-1-1zM2 13.692V16a2 2 0 002 2h12a2 2 0 002-2v-2.308A24.974 24.974 0 0110 15c-2.796 0-5.487-.46-8-1.308z',
+    colors: { button: 'bg-emerald-600', badge: 'bg-emerald-600/30 text-emerald-300', light: '#10b981', dark: '#047857', suit: '#059669' },
+    genericFollowUp: category => `Let's take the ${category || "case"} further. What would you recommend, and what is the biggest risk?`,
+  },
+  mixed: {
+    id: 'mixed',
+    label: 'Mixed',
+    description: 'Alternate between behavioral and technical questions, like a full interview loop',
+    questionModes: ['behavioral', 'technical'],
+    icon: 'M8 5a1 1 0 100 2h5.586l-1.293 1.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L13.586 5H8zM12 15a1 1 0 100-2H6.414l1.293-1.293a1 1 0 10-1.414-1.414l-3 3a1 1 0 000 1.414l3 3a1 1 0 001.414-1.414L6.414 15H12z',
+    colors: { button: 'bg-fuchsia-600', badge: 'bg-fuchsia-600/30 text-fuchsia-300', light: '#d946ef', dark: '#a21caf', suit: '#c026d3' },
+    genericFollowUp: category => `Switching gears: tell me about a time you worked on something related to ${category || "your last project"}.`,
+  },
+};
+
+export function isInterviewMode(value: unknown): value is InterviewModeId {
+  return typeof value === 'string' && (INTERVIEW_MODE_IDS as readonly string[]).includes(value);
+}
+
+export function isQuestionMode(value: unknown): value is QuestionModeId {
+  return typeof value === 'string' && (QUESTION_MODE_IDS as readonly string[]).includes(value);
+}
+
+// Unknown modes fall back to technical, the default the routes have always used
+export function getInterviewModeInfo(id: string): InterviewModeInfo {
+  return isInterviewMode(id) ? INTERVIEW_MODE_CATALOG[id] : INTERVIEW_MODE_CATALOG.technical;
+}
@@ -0,0 +1,198 @@
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+const APPROACH = /\b(hash ?(map|set|table)|two pointers?|sliding window|stack|queue|heap|binary search|sort(ed|ing)?|recurs(ion|ive)|dynamic programming|memo(ize|ization)?|greedy|bfs|dfs|one pass|single pass)\b/gi;
+const NESTED_LOOPS = /for\s*\([^)]*\)[^{]*\{[^}]*for\s*\(/;
+
+// Returned when the model's question has no usable spec; the bank has better ones offline
+const PALINDROME_SPEC = {
+  functionName: 'isPalindrome',
+  starterCode: 'function isPalindrome(s) {\n  // Return true if s reads the same forwards and backwards,\n  // ignoring case and anything that is not a letter or digit\n}\n',
+  tests: [
+    { args: ['A man, a plan, a canal: Panama'], expected: true, hidden: false },
+    { args: ['race a car'], expected: false, hidden: false },
+    { args: [''], expected: true, hidden: true },
+    { args: ['0P'], expected: false, hidden: true },
+    { args: ['No lemon, no melon'], expected: true, hidden: true }
+  ]
+};
+
+const CODING_SPEC_FORMAT = `
+          - "coding": The function the candidate writes, with:
+            - "functionName": The function's name
+            - "starterCode": A JavaScript stub with the signature and a comment describing the inputs and output
+            - "tests": 5 to 8 objects with "args" (the argument list as a JSON array), "expected" (the JSON return value) and "hidden" (false for the two examples the candidate sees, true for the rest, which cover edge cases)`;
+
+export const codingMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'coding',
+  interviewer: 'coding interviewer',
+  timeLimitSeconds: 1200,
+  profileFocus: ['technical'],
+
+  rubric: [
+    {
+      id: 'correctness',
+      label: 'Correctness',
+      weight: 0.4,
+      description: 'Does the code pass the tests, including the hidden edge cases?'
+    },
+    {
+      id: 'efficiency',
+      label: 'Efficiency',
+      weight: 0.2,
+      description: 'Is the time and space complexity as good as the problem allows, and do they know what it is?'
+    },
+    {
+      id: 'code-quality',
+      label: 'Code Quality',
+      weight: 0.2,
+      description: 'Is the code readable, with clear names and no needless complexity?'
+    },
+    {
+      id: 'communication',
+      label: 'Communication',
+      weight: 0.2,
+      description: 'Did they explain their approach, its tradeoffs and how they tested it?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced coding interviewer for ${company}, running a live coding interview.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate ONE algorithm question the candidate solves in a code editor that:
+          1. Can be solved in about 20 minutes as a single JavaScript function
+          2. Is the kind of problem ${company} asks in its coding rounds, pitched at the role's seniority
+          3. Has a clear input and output, so it can be checked with automated tests
+          4. Has a naive solution and a better one, so complexity is worth discussing
+
+          Format the output as a JSON array containing just one object with:
+          - "question": The problem statement, phrased the way an interviewer would say it, with one small example
+          - "category": The topic (e.g. "Arrays & Hashing", "Sliding Window", "Trees", "Graphs")
+          - "difficulty": The interview stage (should be "Initial Screen" or similar)${CODING_SPEC_FORMAT}
+
+          Example format:
+          [
+            {
+              "question": "Given an array of integers and a target, return the indices of the two numbers that add up to the target. For example, [2, 7, 11, 15] with target 9 gives [0, 1].",
+              "category": "Arrays & Hashing",
+              "difficulty": "Initial Screen",
+              "coding": {
+                "functionName": "twoSum",
+                "starterCode": "function twoSum(nums, target) {\\n  // Return the indices [i, j] with i < j\\n}\\n",
+                "tests": [
+                  { "args": [[2, 7, 11, 15], 9], "expected": [0, 1], "hidden": false },
+                  { "args": [[3, 2, 4], 6], "expected": [1, 2], "hidden": true }
+                ]
+              }
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced coding interviewer for ${company} preparing a live coding loop.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate 5 algorithm questions the candidate solves in a code editor that:
+          1. Each fit in a single JavaScript function with a clear input and output
+          2. Cover different topics (e.g. hashing, two pointers, sliding window, trees, graphs, dynamic programming)
+          3. Progress from a warm-up to a problem that needs a non-obvious optimization
+          4. Match the seniority of the role and ${company}'s coding rounds
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The problem statement with one small example
+          - "category": The topic
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")${CODING_SPEC_FORMAT}
+        `,
+
+  feedbackGuidelines: `
+      For this coding question:
+      - Treat the test results as ground truth for whether the code works, and name the failing cases
+      - Judge whether the approach has the best complexity the problem allows, and whether they stated it
+      - Comment on readability: names, structure, and needless complexity in the code itself
+      - Assess whether their explanation matched what the code actually does
+      - If they wrote no code, say so plainly and grade correctness on the approach they described
+      `,
+  feedbackFields: `
+      - "follow_up_coding": Only if the follow-up is a new problem to code rather than a question about this solution: an object with "functionName", "starterCode" and "tests" (5 to 8 objects with "args", "expected" and "hidden")`,
+
+  mock: {
+    resumeOpener: () => null,
+
+    genericOpener: () => ({
+      question: "Write a function that checks whether a string is a palindrome, ignoring case and anything that isn't a letter or digit. For example, \"A man, a plan, a canal: Panama\" is a palindrome.",
+      category: "Two Pointers",
+      difficulty: "Initial Screen",
+      coding: PALINDROME_SPEC
+    }),
+
+    followUps: (company, signals) => [
+      `Can you do it in a single pass over the input?`,
+      `What happens with an empty input, or one with a million elements?`,
+      `How would you test this function before shipping it at ${company}?`,
+      `Walk me through your solution on the second example, line by line.`,
+      ...(signals.complexity.length === 0 ? [`What are the time and space complexity of your solution?`] : [])
+    ],
+
+    grade: ({ answer, signals, category, lengthScore, code }) => {
+      // Compile errors and a missing function fail every test, so any run has a pass rate
+      const results = code?.results && code.results.total > 0 ? code.results : null;
+      const wroteCode = !!code && code.source.replace(/\/\/.*|\/\*[\s\S]*?\*\//g, '').replace(/\s/g, '').length > 40;
+      const passRate = results ? results.passed / results.total : null;
+      const failedHidden = results?.tests.filter(test => test.hidden && !test.passed).length ?? 0;
+      const approaches = Array.from(new Set((answer.match(APPROACH) || []).map(term => term.toLowerCase())));
+      const statesComplexity = signals.complexity.length > 0;
+      const nestedLoops = !!code && NESTED_LOOPS.test(code.source);
+      const longLines = code ? code.source.split('\n').filter(line => line.length > 100).length : 0;
+
+      return {
+        scores: {
+          correctness: results
+            ? [
+                1 + Math.round((results.passed / results.total) * 4),
+                results.error
+                  ? `The code did not run: ${results.error}`
+                  : `Passed ${results.passed} of ${results.total} tests${failedHidden > 0 ? `, failing ${failedHidden} hidden edge ${failedHidden === 1 ? 'case' : 'cases'}` : ''}.`
+              ]
+            : [
+                wroteCode ? 2 : 1,
+                wroteCode ? 'Wrote code but never ran it against the tests.' : 'No working code to check.'
+              ],
+          efficiency: [
+            wroteCode ? (nestedLoops ? 2 : 3) + (statesComplexity ? 1 : 0) + (approaches.length > 0 ? 1 : 0) : 1 + (statesComplexity ? 1 : 0),
+            statesComplexity
+              ? `Stated the complexity (${signals.complexity.slice(0, 2).join(', ')}).`
+              : nestedLoops ? 'Nested loops suggest a quadratic solution, and the complexity was never stated.' : 'Never stated the time or space complexity.'
+          ],
+          'code-quality': [
+            wroteCode ? 4 - (longLines > 2 ? 1 : 0) - (/\bvar\b/.test(code?.source || '') ? 1 : 0) : 1,
+            wroteCode ? (longLines > 2 ? 'Some lines are long enough to hurt readability.' : 'The code is compact and readable.') : 'No code to review.'
+          ],
+          communication: [
+            lengthScore + (approaches.length > 0 ? 1 : 0),
+            approaches.length > 0 ? `Named the approach (${approaches.slice(0, 2).join(', ')}).` : 'Did not explain the approach behind the code.'
+          ]
+        },
+        feedback: (passRate === 1
+          ? `Your ${category} solution passes every test, including the hidden edge cases. `
+          : results
+            ? `Your ${category} solution passes ${results.passed} of ${results.total} tests, so there are cases it still gets wrong. `
+            : `For a coding question, the interviewer needs to see code that runs, not just a description. `) +
+          (statesComplexity ? 'Stating the complexity up front was good. ' : 'Always finish by stating the time and space complexity. ') +
+          (approaches.length > 0 ? 'Naming your approach made the code easy to follow.' : 'Talk through the approach before and while you code.'),
+        strengths: [
+          passRate === 1 ? "Passed every test" : wroteCode ? "Got a working draft into the editor" : "Engaged with the problem",
+          statesComplexity ? "Stated the complexity" : "Kept the solution focused",
+          approaches.length > 0 ? `Chose a clear approach (${approaches[0]})` : "Attempted the problem in code"
+        ],
+        improvements: [
+          passRate === 1 ? "Mention which edge cases you tested" : "Run the tests and fix the failing cases before explaining",
+          statesComplexity ? (nestedLoops ? "Look for a way to remove the nested loop" : "Discuss the space-time tradeoff") : "State the time and space complexity",
+          approaches.length > 0 ? "Walk through an example input out loud" : "Explain the approach before writing code"
+        ],
+        follow_up: `What's the time and space complexity, and could you improve either?`
+      };
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import type { Question } from '../types';
+import { behavioralMode } from './behavioral';
+import { caseMode } from './caseInterview';
+import { codingMode } from './coding';
+import { getInterviewModeInfo, type InterviewModeId, type QuestionModeId } from './catalog';
+import { mixedMode } from './mixed';
+import { productSenseMode } from './productSense';
+import { systemDesignMode } from './systemDesign';
+import { technicalMode } from './technical';
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+export type { InterviewModeDefinition, MockGrade, MockGradingContext, QuestionModeDefinition, QuestionPromptContext } from './types';
+export {
+  getInterviewModeInfo,
+  INTERVIEW_MODE_CATALOG,
+  INTERVIEW_MODE_IDS,
+  isInterviewMode,
+  isQuestionMode,
+  QUESTION_MODE_IDS,
+  type InterviewModeId,
+  type InterviewModeInfo,
+  type QuestionModeId
+} from './catalog';
+
+// Adding a mode means a catalog entry for the UI and a definition here; the routes only go through these lookups
+const INTERVIEW_MODES: Record<InterviewModeId, InterviewModeDefinition> = {
+  technical: technicalMode,
+  coding: codingMode,
+  behavioral: behavioralMode,
+  'system-design': systemDesignMode,
+  'product-sense': productSenseMode,
+  case: caseMode,
+  mixed: mixedMode,
+};
+
+const QUESTION_MODES: Record<QuestionModeId, QuestionModeDefinition> = {
+  technical: technicalMode,
+  coding: codingMode,
+  behavioral: behavioralMode,
+  'system-design': systemDesignMode,
+  'product-sense': productSenseMode,
+  case: caseMode,
+};
+
+// Unknown modes fall back to technical, like the catalog
+export function getInterviewMode(id: string): InterviewModeDefinition {
+  return INTERVIEW_MODES[getInterviewModeInfo(id).id];
+}
+
+export function getQuestionMode(id: string): QuestionModeDefinition {
+  return QUESTION_MODES[id as QuestionModeId] || technicalMode;
+}
+
+// The mode a question is asked and graded in: its own tag when the interview allows it, otherwise the interview's first
+export function resolveQuestionMode(interviewMode: string, question?: Pick<Question, 'mode'> | null): QuestionModeId {
+  const { questionModes } = getInterviewModeInfo(interviewMode);
+  return question?.mode && questionModes.includes(question.mode) ? question.mode : questionModes[0];
+}
+
+// Mixed interviews take turns between their question modes; every other mode stays put
+export function nextQuestionMode(interviewMode: string, current: QuestionModeId): QuestionModeId {
+  const { questionModes } = getInterviewModeInfo(interviewMode);
+  return questionModes[(questionModes.indexOf(current) + 1) % questionModes.length];
+}
+
+// Tag generated questions with their mode, alternating where the model left it out or picked one the interview doesn't use
+export function assignQuestionModes(interviewMode: string, questions: Question[]): Question[] {
+  const { questionModes } = getInterviewModeInfo(interviewMode);
+  return questions.map((question, index) => ({
+    ...question,
+    mode: question.mode && questionModes.includes(question.mode) ? question.mode : questionModes[index % questionModes.length]
+  }));
+}
+
+// Give every question a recommended time, from its mode when the model or bank left it out
+export function assignTimeLimits(interviewMode: string, questions: Question[]): Question[] {
+  return questions.map(question => ({
+    ...question,
+    timeLimitSeconds: question.timeLimitSeconds ?? getQuestionMode(resolveQuestionMode(interviewMode, question)).timeLimitSeconds
+  }));
+}
@@ -0,0 +1,74 @@
+import { behavioralMode } from './behavioral';
+import type { InterviewModeDefinition } from './types';
+
+// A mixed interview alternates behavioral and technical questions; each answer is graded by its own question's mode
+export const mixedMode: InterviewModeDefinition = {
+  id: 'mixed',
+  interviewer: 'interviewer',
+  profileFocus: ['technical', 'behavioral'],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced interviewer at ${company} running a full interview that alternates behavioral and technical questions.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate ONE opening question for this interview. Like most real loops, open with a behavioral question that:
+          1. Would actually be asked at ${company} and reflects its values
+          2. Asks for a specific past example rather than a hypothetical
+          3. Connects to the role so the technical questions that follow feel natural
+
+          Format the output as a JSON array containing just one object with:
+          - "question": The opening question
+          - "category": The competency being assessed
+          - "difficulty": The interview stage (should be "Initial Screen")
+          - "mode": "behavioral"
+
+          Example format:
+          [
+            {
+              "question": "Tell me about a project you're proud of and why it mattered to the people who used it.",
+              "category": "Introduction",
+              "difficulty": "Initial Screen",
+              "mode": "behavioral"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced interviewer at ${company} preparing a full interview loop that alternates question types.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate 5 interview questions that alternate behavioral and technical, starting with behavioral:
+          1. Behavioral questions reflect ${company}'s values and ask for specific past examples
+          2. Technical questions cover the skills and technologies in the job description, including one design question for senior roles
+          3. The questions progress from introductory to more challenging
+          4. Each question feels authentic to ${company}'s interview process
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The interview question
+          - "category": The competency or technical area being assessed
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")
+          - "mode": Either "behavioral" or "technical"
+
+          Example format:
+          [
+            {
+              "question": "Tell me about a time you disagreed with a technical decision on your team.",
+              "category": "Conflict Resolution",
+              "difficulty": "First Round",
+              "mode": "behavioral"
+            },
+            {
+              "question": "How would you design a cache for ${company}'s most read-heavy API?",
+              "category": "Caching",
+              "difficulty": "Second Round",
+              "mode": "technical"
+            },
+            ...
+          ]
+        `,
+
+  // Mixed interviews open like behavioral ones
+  mock: behavioralMode.mock
+};
@@ -0,0 +1,182 @@
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+const USERS = /\b(users?|customers?|personas?|segments?|audience|creators?|buyers?|sellers?|drivers?|riders?|merchants?|small business(es)?|power users?|new users?)\b/gi;
+const PAIN_POINTS = /\b(pain points?|frustrat(ed|ing|ion)|struggle|problem(s)? (is|are|they)|need(s)? to|jobs? to be done|friction|churn|drop[- ]off)\b/i;
+const PRIORITIZATION = /\b(prioriti[sz](e|ed|ation)|most important|biggest (impact|opportunity)|impact (vs\.?|versus|and) effort|rice|mvp|first version|start with|focus on|trade-?offs?)\b/i;
+const SOLUTIONS = /\b(feature|build|launch|introduce|add|redesign|experiment|prototype|onboarding|notification|recommendation|integration)\b/gi;
+const METRICS = /\b(metrics?|kpis?|north star|retention|engagement|conversion|activation|dau|mau|nps|revenue|churn|time spent|a\/b test|guardrail|success (looks|would look|means))\b/gi;
+
+export const productSenseMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'product-sense',
+  interviewer: 'product sense interviewer',
+  timeLimitSeconds: 900,
+  profileFocus: ['technical', 'behavioral'],
+
+  rubric: [
+    {
+      id: 'users',
+      label: 'User Understanding',
+      weight: 0.25,
+      description: 'Are the target users segmented and their goals and pain points made concrete?'
+    },
+    {
+      id: 'prioritization',
+      label: 'Prioritization',
+      weight: 0.25,
+      description: 'Is one segment and problem chosen on purpose, with the reasoning explained?'
+    },
+    {
+      id: 'solution',
+      label: 'Solution Quality',
+      weight: 0.25,
+      description: 'Are the proposed solutions creative, specific and tied to the chosen problem?'
+    },
+    {
+      id: 'metrics',
+      label: 'Success Metrics',
+      weight: 0.25,
+      description: 'Is there a clear success metric, with guardrails and a way to validate the idea?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced product sense interviewer at ${company}, familiar with ${company}'s products, users and product culture.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate ONE open-ended product sense question that:
+          1. Asks the candidate to improve, design or evaluate a product close to ${company}'s business
+          2. Leaves room to discuss users, pain points, prioritization, solutions and success metrics
+          3. Fits the seniority and focus of the role
+          4. Sounds like a real product interview question at ${company}, not a generic brainteaser
+
+          Format the output as a JSON array containing just one object with:
+          - "question": The product question, phrased the way an interviewer would say it
+          - "category": The kind of product question (e.g. "Product Improvement", "Product Design", "Metrics")
+          - "difficulty": The interview stage (should be "Initial Screen" or similar)
+
+          Example format:
+          [
+            {
+              "question": "How would you improve ${company}'s onboarding for first-time users?",
+              "category": "Product Improvement",
+              "difficulty": "Initial Screen"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced product sense interviewer at ${company} preparing a product interview loop.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate 5 product sense questions that:
+          1. Mix product improvement, new product design, metrics and prioritization questions
+          2. Are grounded in ${company}'s products, users and market
+          3. Progress from a familiar product improvement to an ambiguous new product or strategy question
+          4. Each leave room to discuss users, pain points, prioritization, solutions and success metrics
+          5. Match the seniority and focus areas of the role
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The product question
+          - "category": The kind of product question (e.g. "Product Improvement", "Product Design", "Metrics", "Strategy")
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")
+
+          Example format:
+          [
+            {
+              "question": "Engagement with ${company}'s search feature dropped 10% last week. How would you figure out why?",
+              "category": "Metrics",
+              "difficulty": "Second Round"
+            },
+            ...
+          ]
+        `,
+
+  feedbackGuidelines: `
+      For this product sense question:
+      - Check whether they identified and segmented the users before proposing anything
+      - Assess whether they chose a problem to focus on and explained why
+      - Evaluate whether the solutions are specific and actually address that problem
+      - Note whether they defined how success would be measured, including guardrail metrics
+      - Call out if they jumped straight to features without a user or a goal
+      `,
+
+  mock: {
+    resumeOpener: (company, resume) => {
+      const project = resume.projects[0];
+      return project
+        ? {
+            question: `Tell me about ${project.name} from your resume as a product. Who was it for, what problem did it solve, and how would you know it was working?`,
+            category: "Product Thinking",
+            difficulty: "Initial Screen"
+          }
+        : null;
+    },
+
+    genericOpener: company => ({
+      question: `What is your favorite ${company} product, and how would you improve it?`,
+      category: "Product Improvement",
+      difficulty: "Initial Screen"
+    }),
+
+    followUps: (company, signals) => [
+      `Which user segment would you focus on first, and why that one?`,
+      `If you could only ship one of those ideas this quarter, which would it be?`,
+      `How would you know this was a success a month after launch?`,
+      `What could go wrong for ${company} if this launched, and how would you catch it?`,
+      ...(signals.metrics.length === 0 ? [`What metric would you set a target for, and what target?`] : []),
+      ...(!signals.mentionsTradeoffs ? [`What are you giving up by prioritizing that?`] : [])
+    ],
+
+    grade: ({ answer, signals, company, category, lengthScore, missed, coverage }) => {
+      const segments = Array.from(new Set((answer.match(USERS) || []).map(user => user.toLowerCase())));
+      const painPoints = PAIN_POINTS.test(answer);
+      const prioritizes = PRIORITIZATION.test(answer);
+      const solutions = (answer.match(SOLUTIONS) || []).length;
+      const metrics = Array.from(new Set((answer.match(METRICS) || []).map(metric => metric.toLowerCase())));
+
+      return {
+        scores: {
+          users: [
+            1 + Math.min(segments.length, 2) + (painPoints ? 2 : 0),
+            segments.length > 1 && painPoints ? 'Segmented the users and named their pain points.' : segments.length > 0 ? 'Mentioned users, but without segments or concrete pain points.' : 'Did not say who the product is for.'
+          ],
+          prioritization: [
+            prioritizes ? 4 + (signals.mentionsTradeoffs ? 1 : 0) : 2,
+            prioritizes ? 'Picked a focus and explained why.' : 'Covered several ideas without choosing what matters most.'
+          ],
+          solution: coverage !== null
+            ? [
+                1 + Math.round(coverage * 4),
+                missed.length === 0 ? 'Covered every key point a strong answer needs.' : `Missed: ${missed.slice(0, 2).join('; ')}.`
+              ]
+            : [
+                lengthScore + (solutions >= 2 ? 1 : solutions === 0 ? -1 : 0),
+                solutions >= 2 ? 'Proposed concrete solutions.' : solutions === 1 ? 'Proposed one solution without alternatives.' : 'No concrete solution was proposed.'
+              ],
+          metrics: [
+            metrics.length >= 2 ? 5 : metrics.length === 1 ? 4 : signals.metrics.length > 0 ? 3 : 1,
+            metrics.length > 0 ? `Defined success with ${metrics.slice(0, 2).join(' and ')}.` : 'No success metric was defined.'
+          ]
+        },
+        feedback: `Your answer to the ${category} question ${segments.length > 0 ? 'starts from the users, which is what product interviewers want to hear' : 'jumps to solutions before saying who they are for'}. ` +
+          (prioritizes ? 'You made a clear call on what to focus on. ' : 'Pick one segment and one problem and say why, rather than covering everything. ') +
+          (metrics.length > 0
+            ? `Tying it back to ${metrics[0]} shows how you'd measure success.`
+            : `Interviewers at ${company} will want to know how you'd measure success, so end with a metric.`),
+        strengths: [
+          "Engaged with the product problem",
+          segments.length > 0 ? "Grounded the answer in users" : "Came up with ideas quickly",
+          prioritizes ? "Prioritized on purpose" : metrics.length > 0 ? "Defined a success metric" : "Kept the answer focused"
+        ],
+        improvements: [
+          painPoints ? "Size the pain points to show which matters most" : "Name concrete pain points for each user segment",
+          missed.length > 0 ? `Cover ${missed[0].charAt(0).toLowerCase()}${missed[0].slice(1)}` : "Compare two solutions before picking one",
+          metrics.length > 0 ? "Add a guardrail metric that could get worse" : "Define a success metric and a target"
+        ],
+        follow_up: `How would you run an experiment to validate this before building all of it?`
+      };
+    }
+  }
+};
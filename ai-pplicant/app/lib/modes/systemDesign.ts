@@ -0,0 +1,191 @@
+import { analyzeDiagram } from '../diagram';
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+const REQUIREMENTS = /\b(requirements?|use cases?|functional|non-functional|clarify|assum(e|ing|ption)|scope|read[- ]heavy|write[- ]heavy|sla|latency target)\b/i;
+const ESTIMATION = /\b(\d[\d,.]*\s?(k|m|million|billion|gb|tb|pb|qps|rps)\b|per second|back[- ]of[- ](the[- ])?envelope|storage|bandwidth|throughput)/i;
+const COMPONENTS = /\b(load balancers?|cache|caching|cdn|databases?|sql|nosql|queues?|kafka|pub\/?sub|api gateway|object stor(e|age)|blob|index(es)?|workers?|microservices?|redis|cassandra|dynamo(db)?|postgres)\b/gi;
+const SCALING = /\b(shard(s|ing)?|partition(s|ing)?|replica(s|tion)?|horizontal(ly)?|scale out|consistent hashing|rate limit(s|ing)?|fan[- ]out|autoscal(e|ing))\b/i;
+const RELIABILITY = /\b(failover|redundan(t|cy)|single point of failure|retr(y|ies)|idempoten(t|cy)|back[- ]?pressure|circuit breaker|monitoring|alert(s|ing)?|eventual(ly)? consisten(t|cy)|strong(ly)? consisten(t|cy)|cap theorem)\b/i;
+
+export const systemDesignMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'system-design',
+  interviewer: 'system design interviewer',
+  timeLimitSeconds: 1800,
+  profileFocus: ['technical'],
+
+  rubric: [
+    {
+      id: 'requirements',
+      label: 'Requirements',
+      weight: 0.2,
+      description: 'Were functional and non-functional requirements clarified and the scale estimated before designing?'
+    },
+    {
+      id: 'architecture',
+      label: 'Architecture',
+      weight: 0.3,
+      description: 'Is there a coherent high-level design with the right components and data flow between them?'
+    },
+    {
+      id: 'scalability',
+      label: 'Scalability & Reliability',
+      weight: 0.25,
+      description: 'Does the design handle growth, hot spots and failures, with a sensible data model and consistency choice?'
+    },
+    {
+      id: 'tradeoffs',
+      label: 'Tradeoffs',
+      weight: 0.25,
+      description: 'Are alternatives compared and the reasons for each choice explained?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced system design interviewer at ${company}, familiar with the scale and architecture of ${company}'s products.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate ONE open-ended system design question that:
+          1. Asks the candidate to design a system close to what they would build at ${company}
+          2. Is broad enough to discuss requirements, high-level architecture, data model, scaling and failure handling
+          3. Fits the seniority of the role - a narrower component for junior roles, a whole product for senior ones
+          4. Leaves room for follow-ups that push on scale, consistency and tradeoffs
+
+          Format the output as a JSON array containing just one object with:
+          - "question": The design prompt, phrased the way an interviewer would say it
+          - "category": The kind of system (e.g. "Feed Systems", "Storage", "Real-time Messaging")
+          - "difficulty": The interview stage (should be "Initial Screen" or similar)
+
+          Example format:
+          [
+            {
+              "question": "Let's design the notification service behind ${company}'s mobile app. Where would you start?",
+              "category": "Messaging Systems",
+              "difficulty": "Initial Screen"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an experienced system design interviewer at ${company} preparing a design interview loop.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Generate 5 system design questions that:
+          1. Ask the candidate to design systems that ${company} actually runs or would plausibly build
+          2. Cover different kinds of systems: read-heavy, write-heavy, real-time, storage and data processing
+          3. Progress from a focused component to a large, multi-region product
+          4. Each leave room to discuss requirements, capacity estimates, architecture, data model, scaling and failure modes
+          5. Match the seniority and focus areas of the role
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": The design prompt
+          - "category": The kind of system being designed
+          - "difficulty": The interview stage/difficulty (e.g., "Initial Screen", "First Round", "Second Round", "Final Round")
+
+          Example format:
+          [
+            {
+              "question": "Design a rate limiter that protects ${company}'s public API across several data centers.",
+              "category": "Distributed Systems",
+              "difficulty": "Second Round"
+            },
+            ...
+          ]
+        `,
+
+  feedbackGuidelines: `
+      For this system design question:
+      - Check whether they clarified requirements and estimated scale before jumping into components
+      - Assess whether the high-level design hangs together and the data flow is clear
+      - Evaluate how the design handles growth, hot spots and component failures
+      - Note whether they explained the tradeoffs behind their choices, such as SQL versus NoSQL or consistency versus availability
+      - Point out the most important bottleneck or failure mode they missed
+      `,
+
+  mock: {
+    resumeOpener: (company, resume) => {
+      const project = resume.projects[0];
+      return project
+        ? {
+            question: `Let's start from ${project.name} on your resume. Sketch its architecture for me, then tell me what you would change if ${company} had to run it at a hundred times the load.`,
+            category: "Architecture Review",
+            difficulty: "Initial Screen"
+          }
+        : null;
+    },
+
+    genericOpener: company => ({
+      question: `Let's design a URL shortener that ${company} could use for links shared by millions of users. Where would you start?`,
+      category: "Web Services",
+      difficulty: "Initial Screen"
+    }),
+
+    followUps: (company, signals) => [
+      `Where is the bottleneck in that design, and what happens when traffic grows ten times?`,
+      `Walk me through what happens when one of those components goes down.`,
+      `How would you partition the data, and how do you avoid hot spots?`,
+      `What would you monitor to know this system is healthy at ${company}?`,
+      ...(!signals.mentionsTradeoffs ? [`What alternatives did you consider, and why did you pick this one?`] : []),
+      ...(signals.metrics.length === 0 ? [`Can you put rough numbers on the traffic and storage this needs?`] : [])
+    ],
+
+    grade: ({ answer, signals, category, lengthScore, missed, coverage, diagram }) => {
+      const clarifies = REQUIREMENTS.test(answer);
+      const estimates = ESTIMATION.test(answer) || signals.metrics.length > 0;
+      // Components drawn on the whiteboard count as much as the ones said out loud
+      const drawn = diagram?.components.filter(component => component.kind !== 'client').map(component => component.label.toLowerCase()) || [];
+      const components = Array.from(new Set([...(answer.match(COMPONENTS) || []).map(component => component.toLowerCase()), ...drawn]));
+      // Structural problems in the diagram, such as a missing cache or a single point of failure
+      const findings = diagram ? analyzeDiagram(diagram) : [];
+      const structural = findings.filter(finding => ['single-point-of-failure', 'unbounded-queue', 'missing-cache', 'no-load-balancer'].includes(finding.check));
+      const scales = SCALING.test(answer);
+      const handlesFailure = RELIABILITY.test(answer) || signals.mentionsEdgeCases;
+
+      return {
+        scores: {
+          requirements: [
+            1 + (clarifies ? 2 : 0) + (estimates ? 2 : 0),
+            clarifies && estimates ? 'Clarified requirements and put numbers on the scale.' : clarifies ? 'Clarified requirements, but never estimated the scale.' : estimates ? 'Estimated the scale, but skipped clarifying requirements.' : 'Jumped into the design without requirements or scale.'
+          ],
+          architecture: coverage !== null
+            ? [
+                1 + Math.round(coverage * 4),
+                missed.length === 0 ? 'The design covered every key part a strong answer needs.' : `The design was missing: ${missed.slice(0, 2).join('; ')}.`
+              ]
+            : [
+                Math.min(lengthScore, 2) + Math.min(components.length, 3),
+                components.length > 0 ? `Named concrete components (${components.slice(0, 3).join(', ')}).` : 'No concrete components or data flow were described.'
+              ],
+          scalability: [
+            2 + (scales ? 1 : 0) + (handlesFailure ? 1 : 0) + (scales && handlesFailure && signals.wordCount > 80 ? 1 : 0) - Math.min(structural.length, 2),
+            structural.length > 0
+              ? `The diagram has structural gaps: ${structural[0].message}`
+              : scales && handlesFailure ? 'Covered both scaling out and failure handling.' : scales ? 'Explained how it scales, but not how it fails.' : handlesFailure ? 'Thought about failures, but not about growth.' : 'Did not discuss scaling or failures.'
+          ],
+          tradeoffs: [
+            signals.mentionsTradeoffs ? 4 + (signals.signposts >= 2 ? 1 : 0) : lengthScore - 1,
+            signals.mentionsTradeoffs ? 'Compared alternatives and explained the choice.' : 'Choices were stated without comparing alternatives.'
+          ]
+        },
+        feedback: `Your design for the ${category} question ${components.length >= 3 ? 'has the main building blocks in place' : 'needs more concrete components to be convincing'}. ` +
+          (clarifies ? 'Starting from the requirements was the right call. ' : 'Spend the first few minutes on requirements and scale before drawing boxes. ') +
+          (scales
+            ? "You also explained how the design scales out."
+            : "The biggest gap is how the design holds up as traffic grows - interviewers will push on that next.") +
+          (findings.length > 0 ? ` On the whiteboard: ${findings[0].message}` : diagram ? ' The diagram holds up to the basic structural checks.' : ''),
+        strengths: [
+          diagram && findings.length === 0 ? "Drew a diagram with no structural gaps" : "Engaged with the design problem",
+          clarifies ? "Clarified the requirements up front" : components.length > 0 ? "Named concrete building blocks" : "Kept the discussion at a high level",
+          scales ? "Addressed how the system scales" : handlesFailure ? "Considered failure handling" : "Kept the design simple"
+        ],
+        improvements: [
+          estimates ? "Use your estimates to justify each component" : "Estimate traffic and storage before choosing components",
+          findings.length > 0 ? findings[0].fix : missed.length > 0 ? `Cover ${missed[0].charAt(0).toLowerCase()}${missed[0].slice(1)}` : "Walk through the data flow for one request end to end",
+          signals.mentionsTradeoffs ? "Discuss consistency and availability explicitly" : "Compare at least one alternative for each major choice"
+        ],
+        follow_up: `How would this design change if it had to run in several regions with users all over the world?`
+      };
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getMockFeedback } from '../mock/feedback';
+
+const communication = (answer: string) => {
+  const feedback = getMockFeedback(answer, 'How would you cache product pages?', 'Caching', 'Acme');
+  return { strengths: feedback.strengths, dimension: feedback.dimensions.find(dimension => dimension.id === 'communication') };
+};
+
+describe('technical mock grader', () => {
+  it('does not praise a long two-sentence answer as detailed while calling it too brief', () => {
+    const { strengths, dimension } = communication(
+      'I would put a read-through cache in front of the product database and key each entry by product id and locale so that pages render quickly for most visitors. ' +
+      'Entries would expire after a few minutes and be invalidated whenever the catalogue service publishes a price or stock change for that product.'
+    );
+
+    expect(dimension?.justification).toBe('The explanation was too brief to follow the reasoning.');
+    expect(strengths).not.toContain('Gave a detailed explanation');
+  });
+
+  it('credits a detailed explanation in both the strengths and the communication score', () => {
+    const { strengths, dimension } = communication(
+      'First, I would put a read-through cache in front of the product database, keyed by product id and locale. ' +
+      'Then each entry would expire after a few minutes so stale prices never live long. ' +
+      'Finally, the catalogue service would publish change events that invalidate the affected pages straight away.'
+    );
+
+    expect(dimension?.justification).toBe('Walked through the answer step by step.');
+    expect(dimension?.score).toBe(4);
+    expect(strengths).toContain('Gave a detailed explanation');
+  });
+});
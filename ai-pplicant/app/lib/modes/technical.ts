@@ -0,0 +1,190 @@
+import type { InterviewModeDefinition, QuestionModeDefinition } from './types';
+
+// Check for keywords that might indicate a good answer
+const POSITIVE_KEYWORDS = ['algorithm', 'complexity', 'optimize', 'efficient', 'scale', 'tradeoff', 'example', 'cache', 'index', 'hash'];
+
+export const technicalMode: InterviewModeDefinition & QuestionModeDefinition = {
+  id: 'technical',
+  interviewer: 'technical interviewer',
+  timeLimitSeconds: 300,
+  profileFocus: ['technical'],
+
+  rubric: [
+    {
+      id: 'correctness',
+      label: 'Correctness',
+      weight: 0.4,
+      description: 'Is the technical approach accurate and would it actually work?'
+    },
+    {
+      id: 'completeness',
+      label: 'Completeness',
+      weight: 0.3,
+      description: 'Does it cover edge cases, complexity, optimizations and tradeoffs?'
+    },
+    {
+      id: 'communication',
+      label: 'Communication',
+      weight: 0.3,
+      description: 'Are complex ideas explained clearly and in a logical order?'
+    }
+  ],
+
+  starterPrompt: ({ company, jobDescription, context }) => `
+          You are an expert technical interviewer for ${company} with extensive knowledge of their interview process.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Based on this job description and your knowledge of ${company}'s specific interview style and technical focus areas, generate ONE thoughtful, open-ended technical question that:
+          1. Reflects the actual interview questions commonly asked at ${company}
+          2. Serves as an excellent conversation starter for a technical interview
+          3. Is open-ended enough to allow for follow-up questions based on the candidate's response
+          4. Specifically relates to the technologies, skills, and projects mentioned in the job description
+          5. Demonstrates familiarity with ${company}'s technical challenges and environment
+          6. Feels authentic to ${company}'s interview culture - not generic
+
+          Consider the unique aspects of ${company}'s engineering culture, such as:
+          - Their specific tech stack and infrastructure
+          - The key technical challenges they're currently facing
+          - The company's core products and technical philosophy
+          - The engineering principles and practices they value
+
+          Format the output as a JSON array containing just one object with:
+          - "question": A company-specific technical question that feels like it would actually be asked at ${company}
+          - "category": The specific category of the question relevant to ${company}'s interview process
+          - "difficulty": The interview stage (should be "Initial Screen" or similar)
+
+          Example format:
+          [
+            {
+              "question": "At ${company}, we face challenges scaling our [specific product] for millions of users. How would you approach optimizing the performance of a distributed system like this?",
+              "category": "System Design & Optimization",
+              "difficulty": "Initial Technical Screen"
+            }
+          ]
+        `,
+
+  questionSetPrompt: ({ company, jobDescription, context }) => `
+          You are an expert technical interviewer for ${company} with years of experience conducting interviews for top engineering candidates.
+          The job description is: "${jobDescription}"
+          ${context}
+
+          Based on this job description and your deep knowledge of ${company}'s specific interview process, generate 5 technical interview questions that:
+          1. Accurately simulate the ACTUAL interview questions asked at ${company} for this role - avoid generic questions
+          2. Follow ${company}'s known interview progression pattern and difficulty curve
+          3. Focus on the company's core technologies, products, and technical challenges
+          4. Reflect the unique emphasis ${company} places on certain technical skills (e.g., some companies focus more on algorithms vs. system design)
+          5. Incorporate aspects of ${company}'s technical environment, architecture, and scale
+          6. Adapt to be progressively more challenging, showing the range from initial to final round questions
+          7. Include questions that assess how candidates would address the company's actual technical challenges
+
+          For each question, consider:
+          - The specific products or services the candidate would work on at ${company}
+          - The scale and technical constraints unique to ${company}
+          - How the question reveals a candidate's compatibility with ${company}'s engineering culture
+          - Whether the question feels authentically like one asked at ${company}, not at other tech companies
+
+          Format the output as a JSON array of objects, where each object has:
+          - "question": A company-specific technical question that feels authentic to ${company}'s interview process
+          - "category": The specific category relevant to ${company}'s technical focus areas
+          - "difficulty": The interview stage/difficulty reflecting ${company}'s interview progression
+
+          Example format:
+          [
+            {
+              "question": "At ${company}, we process millions of [specific data type] events per second. Design a system that can handle this scale while allowing for [specific requirement relevant to company].",
+              "category": "System Design & Scalability",
+              "difficulty": "Technical Round 2"
+            },
+            ...
+          ]
+        `,
+
+  feedbackGuidelines: `
+      For this technical question:
+      - Assess the accuracy and completeness of their technical approach
+      - Evaluate whether they considered edge cases, optimizations, and tradeoffs
+      - Check if they communicated complex ideas clearly and logically
+      - Note any important technical concepts they missed
+      `,
+
+  mock: {
+    resumeOpener: (company, resume) => {
+      const project = resume.projects[0];
+      return project
+        ? {
+            question: `I see ${project.name} on your resume. Can you walk me through the technical decisions you made there and how they would apply to the role at ${company}?`,
+            category: "Technical Background",
+            difficulty: "Initial Screen"
+          }
+        : null;
+    },
+
+    genericOpener: company => ({
+      question: `Can you tell me about your experience with the technologies mentioned in your resume and how they might apply to the role at ${company}?`,
+      category: "Technical Background",
+      difficulty: "Initial Screen"
+    }),
+
+    followUps: (company, signals) => [
+      `That's interesting. Can you elaborate on how you would implement this in a distributed system?`,
+      `How would your approach change if the requirements scaled by 10x?`,
+      `Let's dive deeper into the optimization aspect. How would you improve the efficiency?`,
+      `Could you walk me through how you'd test this solution?`,
+      `If you had to implement this at ${company}, what existing technologies might you leverage?`,
+      ...(signals.complexity.length === 0 ? [`What are the time and space complexity of that approach?`] : []),
+      ...(!signals.mentionsEdgeCases ? [`What edge cases would you need to handle, and how?`] : [])
+    ],
+
+    grade: ({ answer, signals, company, category, difficulty, lengthScore, missed, coverage }) => {
+      const lowerAnswer = answer.toLowerCase();
+      const positiveCount = POSITIVE_KEYWORDS.filter(keyword => lowerAnswer.includes(keyword)).length;
+      const statesComplexity = signals.complexity.length > 0;
+      const coversEdgeCases = signals.mentionsEdgeCases || signals.mentionsTradeoffs;
+      // One test for a detailed explanation, so the strengths can't praise what the communication score calls too brief
+      const explainsInDepth = signals.sentenceCount >= 3 && signals.wordCount > 40;
+
+      return {
+        scores: {
+          correctness: [
+            lengthScore + (statesComplexity ? 1 : 0) + (positiveCount >= 3 || (coverage ?? 0) >= 0.5 ? 1 : 0) - (signals.wordCount < 10 ? 1 : 0),
+            statesComplexity
+              ? `Backed the approach with its complexity (${signals.complexity.slice(0, 2).join(', ')}).`
+              : positiveCount >= 3 ? 'Used the right technical concepts for the problem.' : 'Few technical concepts to confirm the approach would work.'
+          ],
+          completeness: coverage !== null
+            ? [
+                1 + Math.round(coverage * 4),
+                missed.length === 0 ? 'Covered every key point a strong answer needs.' : `Missed: ${missed.slice(0, 2).join('; ')}.`
+              ]
+            : [
+                lengthScore + (coversEdgeCases ? 1 : -1),
+                coversEdgeCases ? 'Considered edge cases or tradeoffs.' : 'Did not discuss edge cases, limits or tradeoffs.'
+              ],
+          communication: [
+            explainsInDepth ? 3 + (signals.signposts >= 2 ? 1 : 0) : lengthScore - 1,
+            !explainsInDepth ? 'The explanation was too brief to follow the reasoning.' : signals.signposts >= 2 ? 'Walked through the answer step by step.' : 'Explained the answer in several sentences, but without clear steps.'
+          ]
+        },
+        feedback: `Your answer to the ${difficulty} question about ${category} ${coverage !== null && coverage >= 0.75 ? 'covers most of what a strong answer needs' : 'shows some understanding of the core concepts'}. ` +
+          (statesComplexity
+            ? `Stating the complexity as ${signals.complexity[0]} is exactly what interviewers listen for. `
+            : `You didn't state the time or space complexity, which interviewers at ${company || 'top companies'} usually expect. `) +
+          (coversEdgeCases
+            ? 'You also thought about edge cases and tradeoffs.'
+            : "Next time, call out edge cases and the tradeoffs of your approach before you're asked."),
+        strengths: [
+          "Attempted to address the main question",
+          statesComplexity ? "Stated the complexity of the approach" : positiveCount > 0 ? "Used some technical terminology correctly" : "Provided a structured response",
+          coversEdgeCases ? "Considered edge cases and tradeoffs" : explainsInDepth ? "Gave a detailed explanation" : "Kept the answer concise"
+        ],
+        improvements: [
+          statesComplexity ? "Compare the complexity against an alternative approach" : "Discuss time and space complexity explicitly, e.g. O(n log n)",
+          missed.length > 0 ? `Cover ${missed[0].charAt(0).toLowerCase()}${missed[0].slice(1)}` : "Provide specific code examples where applicable",
+          coversEdgeCases ? "Mention how your solution would scale in a production environment" : "Walk through edge cases and failure modes"
+        ],
+        follow_up: `Could you elaborate on how your solution would handle edge cases or performance constraints at scale?`
+      };
+    }
+  }
+};
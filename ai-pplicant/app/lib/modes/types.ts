@@ -0,0 +1,72 @@
+import type { AnswerSignals } from '../mock/heuristics';
+import type { RubricDimension } from '../rubric';
+import type { CodeSubmission, Diagram, FeedbackResponse, Question, ResumeProfile } from '../types';
+import type { InterviewModeId, QuestionModeId } from './catalog';
+
+// Company profile packs describe technical and behavioral focus areas
+export type ProfileFocus = 'technical' | 'behavioral';
+
+export interface QuestionPromptContext {
+  company: string;
+  jobDescription: string;
+  // Role, company profile, reference question and resume sections, already formatted for the prompt
+  context: string;
+}
+
+// Everything the offline grader knows about an answer
+export interface MockGradingContext {
+  answer: string;
+  signals: AnswerSignals;
+  company: string;
+  category: string;
+  difficulty: string;
+  // Baseline score from the answer length that the other signals adjust
+  lengthScore: number;
+  // Question bank key points the answer covered and missed; coverage is null when the question has none
+  covered: string[];
+  missed: string[];
+  coverage: number | null;
+  // Editor contents and test results, for coding questions
+  code?: CodeSubmission;
+  // Whiteboard components and edges, for system design questions
+  diagram?: Diagram;
+}
+
+// Offline grade: a [score, justification] per rubric dimension plus the written feedback
+export interface MockGrade extends Pick<FeedbackResponse, 'feedback' | 'strengths' | 'improvements' | 'follow_up'> {
+  scores: Record<string, [number, string]>;
+}
+
+// How one kind of question is graded, by the LLM and offline
+export interface QuestionModeDefinition {
+  id: QuestionModeId;
+  // Used in prompts as "an experienced <interviewer> for <company>"
+  interviewer: string;
+  // Recommended time for a question that doesn't set its own
+  timeLimitSeconds: number;
+  rubric: RubricDimension[];
+  // Mode-specific checks for the feedback prompt
+  feedbackGuidelines: string;
+  // Extra fields the feedback JSON may carry for this mode, as '- "field": description' lines
+  feedbackFields?: string;
+  mock: {
+    followUps(company: string, signals: AnswerSignals): string[];
+    grade(context: MockGradingContext): MockGrade;
+  };
+}
+
+// How an interview in this mode is opened and its questions generated
+export interface InterviewModeDefinition {
+  id: InterviewModeId;
+  interviewer: string;
+  profileFocus: ProfileFocus[];
+  // Prompt for the single conversation starter, and for a full set of five questions
+  starterPrompt(context: QuestionPromptContext): string;
+  questionSetPrompt(context: QuestionPromptContext): string;
+  mock: {
+    // Opener about the candidate's own work, when the resume has something to ask about
+    resumeOpener(company: string, resume: ResumeProfile): Question | null;
+    // Last resort when the question bank has nothing for this mode
+    genericOpener(company: string): Question;
+  };
+}
@@ -0,0 +1,77 @@
+import { coveredKeyPoints } from './mock/heuristics';
+import type { Panelist, Question } from './types';
+
+// Interviewers the setup screen offers for a panel interview
+export const PANELIST_PRESETS: Panelist[] = [
+  {
+    id: 'hiring-manager',
+    name: 'Morgan Lee',
+    role: 'Hiring Manager',
+    focus: ['ownership', 'leadership', 'delivery', 'prioritization', 'stakeholders', 'conflict', 'impact', 'decision'],
+    persona: "Runs the team the candidate would join. Friendly but direct, cares about ownership, judgment and getting things shipped, and asks what the candidate did when things went wrong.",
+    voiceId: 'CbRiJXXYVxEnJjySwh4y',
+  },
+  {
+    id: 'senior-engineer',
+    name: 'Priya Raman',
+    role: 'Senior Engineer',
+    focus: ['technical', 'system design', 'architecture', 'algorithms', 'scalability', 'debugging', 'performance', 'testing', 'data'],
+    persona: "Would be the candidate's day-to-day peer. Curious and precise, digs into technical details and tradeoffs, and wants to hear how the candidate would actually build it.",
+    voiceId: 'pNInz6obpgDQGcFmaJgB',
+  },
+  {
+    id: 'recruiter',
+    name: 'Jordan Ellis',
+    role: 'Recruiter',
+    focus: ['introduction', 'behavioral', 'motivation', 'culture', 'communication', 'career', 'teamwork', 'adaptability', 'values'],
+    persona: "Warm and conversational. Wants to know why this role, how the candidate works with people, and whether they would thrive in the culture.",
+    voiceId: '21m00Tcm4TlvDq8ikWAM',
+  },
+  {
+    id: 'product-manager',
+    name: 'Sam Ortiz',
+    role: 'Product Manager',
+    focus: ['product', 'users', 'customers', 'metrics', 'collaboration', 'tradeoffs', 'case'],
+    persona: "Works with engineering every day. Pragmatic, asks about users, priorities and how the candidate works across functions.",
+    voiceId: 'EXAVITQu4vr4xnSDxMaL',
+  },
+];
+
+export const DEFAULT_PANEL_IDS = ['hiring-manager', 'senior-engineer', 'recruiter'];
+
+export function findPanelist(panel: Panelist[] | undefined, id: string | undefined) {
+  return panel?.find(panelist => panelist.id === id);
+}
+
+// The panelist whose focus best fits the question; on a tie the last speaker gives way, so the panel takes turns
+export function pickPanelist(panel: Panelist[], question: Pick<Question, 'question' | 'category' | 'mode'>, previousId?: string): string {
+  const text = `${question.category} ${question.mode || ''} ${question.question}`.replace(/-/g, ' ');
+  let best = panel[0];
+  let bestScore = -Infinity;
+
+  for (const panelist of panel) {
+    const score = coveredKeyPoints(text, panelist.focus).length - (panelist.id === previousId ? 0.5 : 0);
+    if (score > bestScore) {
+      best = panelist;
+      bestScore = score;
+    }
+  }
+  return best.id;
+}
+
+// Give every question a panelist, keeping any valid choice the model already made
+export function assignPanelists(panel: Panelist[], questions: Question[]): Question[] {
+  let previousId: string | undefined;
+  return questions.map(question => {
+    const panelistId = findPanelist(panel, question.panelistId)?.id || pickPanelist(panel, question, previousId);
+    previousId = panelistId;
+    return { ...question, panelistId };
+  });
+}
+
+// Panel lines for the question, feedback and report prompts
+export function describePanel(panel: Panelist[]) {
+  return panel
+    .map(panelist => `- "${panelist.id}": ${panelist.name}, ${panelist.role}. Focus: ${panelist.focus.join(', ')}. ${panelist.persona}`)
+    .join('\n');
+}
@@ -0,0 +1,61 @@
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getQuestionBank, importQuestions } from './questionBank';
+
+const question = (id: string, text: string) => ({
+  id,
+  question: text,
+  category: 'Caching',
+  difficulty: 'Phone Screen',
+  mode: 'technical',
+  keyPoints: ['Eviction policy'],
+  timeLimitSeconds: 300,
+});
+
+describe('question bank imports', () => {
+  let root: string;
+  let bankDirectory: string;
+  let importDirectory: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'question-bank-'));
+    bankDirectory = path.join(root, 'bank');
+    importDirectory = path.join(root, 'imports');
+    await fs.mkdir(bankDirectory);
+    await fs.writeFile(path.join(bankDirectory, 'default.json'), JSON.stringify({ questions: [question('cache', 'Seed question')] }));
+    process.env.QUESTION_BANK_DIR = bankDirectory;
+    process.env.QUESTION_IMPORT_DIR = importDirectory;
+  });
+
+  afterEach(async () => {
+    delete process.env.QUESTION_BANK_DIR;
+    delete process.env.QUESTION_IMPORT_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('saves imports to the import directory and leaves the bank files alone', async () => {
+    const result = await importQuestions(JSON.stringify([question('queue', 'Imported question')]));
+
+    expect(result).toEqual({ success: true, imported: 1, total: 2 });
+    expect(await fs.readdir(bankDirectory)).toEqual(['default.json']);
+    expect(await fs.readdir(importDirectory)).toEqual(['imported.json']);
+  });
+
+  it('lets imported questions replace bank questions with the same id', async () => {
+    await importQuestions(JSON.stringify([question('cache', 'First import')]));
+    await importQuestions(JSON.stringify([question('cache', 'Second import'), question('queue', 'Another question')]));
+
+    const bank = await getQuestionBank();
+    expect(bank.map(entry => [entry.id, entry.question])).toEqual([['cache', 'Second import'], ['queue', 'Another question']]);
+    expect(await fs.readdir(importDirectory)).toEqual(['imported.json']);
+  });
+
+  it('rejects an invalid import without writing anything', async () => {
+    const result = await importQuestions(JSON.stringify([{ ...question('cache', 'Bad'), keyPoints: [] }]));
+
+    expect(result.success).toBe(false);
+    expect(existsSync(importDirectory)).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeCompanyName } from './companies';
+import { writeFileAtomic } from './files';
+import { getInterviewModeInfo } from './modes';
+import { parseModelOutput, questionBankSchema, type FieldError } from './schemas';
+import type { BankQuestion, InterviewMode, JobAnalysis, Question, QuestionMode } from './types';
+
+// Bank files live in data/questions (override with QUESTION_BANK_DIR). Imports are runtime data, so they are
+// saved outside the source tree in .questions (override with QUESTION_IMPORT_DIR)
+const bankDirectory = () => process.env.QUESTION_BANK_DIR || path.join(process.cwd(), 'data', 'questions');
+const importPath = () => path.join(process.env.QUESTION_IMPORT_DIR || path.join(process.cwd(), '.questions'), 'imported.json');
+
+// Interview stages from first to last, used to order a selected set like a real interview loop
+const STAGES = [
+  'Initial Screen',
+  'Phone Screen',
+  'First Round',
+  'Technical Round 1',
+  'Second Round',
+  'Technical Round 2',
+  'Third Round',
+  'Final Round',
+];
+
+const stageRank = (stage: string) => {
+  const rank = STAGES.findIndex(name => name.toLowerCase() === stage.toLowerCase());
+  return rank === -1 ? STAGES.length / 2 : rank;
+};
+
+const isOpeningStage = (stage: string) => stageRank(stage) <= 1;
+
+let bankPromise: Promise<BankQuestion[]> | null = null;
+
+// Questions in a bank file, or none when the file is missing
+async function readQuestionsFile(filePath: string): Promise<BankQuestion[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const result = parseModelOutput(content, questionBankSchema);
+  if (!result.success) {
+    console.error(`Question bank: Skipping ${path.basename(filePath)}:`, result.errors.map(error => `${error.field} ${error.message}`).join('; '));
+    return [];
+  }
+  return result.data.questions;
+}
+
+async function readBank(directory: string): Promise<BankQuestion[]> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    console.warn(`Question bank: No bank directory at ${directory}`);
+  }
+
+  // Later files replace questions with the same ID, and imports come last so they can override the seed questions
+  const questions = new Map<string, BankQuestion>();
+  for (const filePath of [...files.map(file => path.join(directory, file)), importPath()]) {
+    (await readQuestionsFile(filePath)).forEach(question => questions.set(question.id, question));
+  }
+
+  console.log(`Question bank: Loaded ${questions.size} questions from ${directory}`);
+  return Array.from(questions.values());
+}
+
+// The bank is read once per server process and reloaded after an import
+export function getQuestionBank(): Promise<BankQuestion[]> {
+  if (!bankPromise) {
+    bankPromise = readBank(bankDirectory()).catch(error => {
+      bankPromise = null;
+      throw error;
+    });
+  }
+  return bankPromise;
+}
+
+export type QuestionImportResult =
+  | { success: true; imported: number; total: number }
+  | { success: false; errors: FieldError[] };
+
+// Validate a JSON bank export and merge it into the imported questions file
+export async function importQuestions(content: string): Promise<QuestionImportResult> {
+  const result = parseModelOutput(content, questionBankSchema);
+  if (!result.success) {
+    return result;
+  }
+
+  const filePath = importPath();
+  const merged = new Map((await readQuestionsFile(filePath)).map(question => [question.id, question]));
+  result.data.questions.forEach(question => merged.set(question.id, question));
+
+  await writeFileAtomic(filePath, JSON.stringify({ questions: Array.from(merged.values()) }, null, 2));
+
+  bankPromise = null;
+  const total = (await getQuestionBank()).length;
+  return { success: true, imported: result.data.questions.length, total };
+}
+
+export interface QuestionFilter {
+  mode?: QuestionMode;
+  skill?: string;
+  company?: string;
+}
+
+// Export format matches the import format: { "questions": [...] }
+export async function exportQuestionBank(filter: QuestionFilter = {}) {
+  const bank = await getQuestionBank();
+  const skill = filter.skill?.toLowerCase();
+  const company = filter.company ? normalizeCompanyName(filter.company) : null;
+
+  return {
+    questions: bank.filter(question =>
+      (!filter.mode || question.mode === filter.mode)
+      && (!skill || question.skills.some(tag => tag.toLowerCase() === skill))
+      && (!company || question.companies.some(tag => normalizeCompanyName(tag) === company))
+    ),
+  };
+}
+
+export interface QuestionSelection {
+  mode: InterviewMode;
+  company?: string;
+  jobAnalysis?: JobAnalysis;
+  count: number;
+  // Only pick questions that suit the start of an interview
+  openingOnly?: boolean;
+  // Question texts already asked in this interview
+  exclude?: string[];
+  random?: () => number;
+}
+
+// Questions tagged with the role's required skills or the company are much more likely to be picked,
+// but general questions still get a chance so repeated interviews differ
+function questionWeight(question: BankQuestion, company: string | null, jobAnalysis?: JobAnalysis) {
+  if (question.companies.length > 0 && !question.companies.some(tag => normalizeCompanyName(tag) === company)) {
+    return 0;
+  }
+
+  const required = new Set(jobAnalysis?.requiredSkills.map(skill => skill.toLowerCase()));
+  const preferred = new Set(jobAnalysis?.preferredSkills.map(skill => skill.toLowerCase()));
+  let weight = question.companies.length > 0 ? 5 : 1;
+  for (const skill of question.skills.map(tag => tag.toLowerCase())) {
+    if (required.has(skill)) weight += 5;
+    else if (preferred.has(skill)) weight += 2;
+  }
+  return weight;
+}
+
+// Weighted random pick without replacement, returned in interview stage order
+function pickQuestions(pool: BankQuestion[], count: number, selection: QuestionSelection, company: string | null, random: () => number) {
+  if (selection.openingOnly && pool.some(question => isOpeningStage(question.difficulty))) {
+    pool = pool.filter(question => isOpeningStage(question.difficulty));
+  }
+
+  const candidates = pool
+    .map(question => ({ question, weight: questionWeight(question, company, selection.jobAnalysis) }))
+    .filter(candidate => candidate.weight > 0);
+
+  const picked: BankQuestion[] = [];
+  while (picked.length < count && candidates.length > 0) {
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let target = random() * total;
+    const index = Math.max(0, candidates.findIndex(candidate => (target -= candidate.weight) < 0));
+    picked.push(candidates.splice(index, 1)[0].question);
+  }
+
+  return picked.sort((a, b) => stageRank(a.difficulty) - stageRank(b.difficulty));
+}
+
+// Mixed interviews split the picks between their question modes and alternate them, starting with the first mode
+export function selectBankQuestions(bank: BankQuestion[], selection: QuestionSelection): BankQuestion[] {
+  const random = selection.random || Math.random;
+  const company = selection.company ? normalizeCompanyName(selection.company) : null;
+  const exclude = new Set(selection.exclude);
+  const { questionModes } = getInterviewModeInfo(selection.mode);
+
+  const picksByMode = questionModes.map((mode, index) => pickQuestions(
+    bank.filter(question => question.mode === mode && !exclude.has(question.question)),
+    Math.ceil((selection.count - index) / questionModes.length),
+    selection,
+    company,
+    random
+  ));
+
+  const picked: BankQuestion[] = [];
+  for (let round = 0; picked.length < selection.count && picksByMode.some(picks => picks.length > round); round++) {
+    picksByMode.forEach(picks => {
+      if (round < picks.length) picked.push(picks[round]);
+    });
+  }
+  return picked;
+}
+
+// Strip the bank tags, keeping what the interview and grading need
+export function toInterviewQuestion({ question, category, difficulty, mode, keyPoints, timeLimitSeconds, coding }: BankQuestion): Question {
+  return { question, category, difficulty, mode, keyPoints, timeLimitSeconds, coding };
+}
+
+// Bank questions as calibration material for the question prompts
+export function describeReferenceQuestions(questions: BankQuestion[]) {
+  return questions
+    .map(question => `- [${question.category}, ${question.difficulty}] ${question.question}\n  A strong answer covers: ${question.keyPoints.join('; ')}`)
+    .join('\n');
+}
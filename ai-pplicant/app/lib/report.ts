@@ -0,0 +1,166 @@
+import type { InterviewSession, SessionTurn } from './session';
+import { summarizeDeliveryTrend } from './delivery';
+import type { CategoryScore, DeliveryTrend, ImprovementTheme, InterviewReport, Panelist, PanelistAssessment, TimeSpentSummary } from './types';
+
+export type ScoredTurn = SessionTurn & { feedback: NonNullable<SessionTurn['feedback']> };
+
+// Words that carry no meaning when comparing feedback phrases
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'your', 'you',
+  'more', 'some', 'how', 'what', 'when', 'where', 'about', 'at', 'be', 'is', 'are', 'it',
+  'this', 'that', 'as', 'by', 'from', 'into', 'possible', 'applicable', 'explicitly', 'clearly'
+]);
+
+const roundScore = (value: number) => Math.round(value * 10) / 10;
+
+// Only turns the grader actually scored count towards the report
+export function getScoredTurns(session: InterviewSession): ScoredTurn[] {
+  return session.turns.filter((turn): turn is ScoredTurn =>
+    !!turn.feedback && typeof turn.feedback.score === 'number' && turn.feedback.score > 0
+  );
+}
+
+// Deterministic score aggregation shared by the LLM and offline reports
+export function scoreSession(session: InterviewSession): Pick<InterviewReport, 'overallScore' | 'questionCount' | 'categoryScores' | 'weakestQuestion'> {
+  const turns = getScoredTurns(session);
+
+  if (turns.length === 0) {
+    return { overallScore: 0, questionCount: 0, categoryScores: [], weakestQuestion: null };
+  }
+
+  const overallScore = roundScore(turns.reduce((sum, turn) => sum + turn.feedback.score, 0) / turns.length);
+
+  // Group scores by question category, keeping the order categories first appeared in
+  const categories = new Map<string, number[]>();
+  for (const turn of turns) {
+    const category = turn.question.category || 'General';
+    categories.set(category, [...(categories.get(category) || []), turn.feedback.score]);
+  }
+
+  const categoryScores: CategoryScore[] = Array.from(categories.entries()).map(([category, scores]) => ({
+    category,
+    score: roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    questionCount: scores.length
+  }));
+
+  // Earliest question wins ties so the result is stable
+  const weakest = turns.reduce((lowest, turn) => turn.feedback.score < lowest.feedback.score ? turn : lowest);
+
+  return {
+    overallScore,
+    questionCount: turns.length,
+    categoryScores,
+    weakestQuestion: {
+      question: weakest.question.question,
+      category: weakest.question.category,
+      score: weakest.feedback.score,
+      improvements: weakest.feedback.improvements || []
+    }
+  };
+}
+
+// Time spent on every timed question, scored or not; undefined when nothing was timed
+export function summarizeTimeSpent(session: InterviewSession): TimeSpentSummary | undefined {
+  const questions = session.turns.flatMap(turn => turn.timing
+    ? [{
+        question: turn.question.question,
+        category: turn.question.category,
+        spentSeconds: Math.round(turn.timing.questionSeconds),
+        answerSeconds: Math.round(turn.timing.answerSeconds),
+        limitSeconds: turn.timing.limitSeconds
+      }]
+    : []);
+  if (questions.length === 0) return undefined;
+
+  return {
+    questions,
+    totalSeconds: questions.reduce((sum, question) => sum + question.spentSeconds, 0),
+    overLimitCount: questions.filter(question => question.spentSeconds > question.limitSeconds).length,
+    budgetSeconds: session.timeBudgetSeconds
+  };
+}
+
+// Delivery across every measured answer; undefined when nothing was measured
+export function summarizeDelivery(session: InterviewSession): DeliveryTrend | undefined {
+  const entries = session.turns.flatMap(turn => (turn.delivery ? [{ question: turn.question.question, metrics: turn.delivery }] : []));
+  return entries.length > 0 ? summarizeDeliveryTrend(entries) : undefined;
+}
+
+// Hiring-committee style call from a panelist's average score
+function panelVerdict(score: number, questionCount: number) {
+  if (questionCount === 0) return 'No signal';
+  if (score >= 4.2) return 'Strong hire';
+  if (score >= 3.5) return 'Hire';
+  if (score >= 2.5) return 'Lean no hire';
+  return 'No hire';
+}
+
+// Scored answers grouped by the panelist who asked the question, in panel order
+export function groupTurnsByPanelist(session: InterviewSession): { panelist: Panelist; turns: ScoredTurn[] }[] {
+  const turns = getScoredTurns(session);
+  return (session.panel || []).map(panelist => ({
+    panelist,
+    turns: turns.filter(turn => turn.question.panelistId === panelist.id)
+  }));
+}
+
+// Deterministic per-panelist scores; the written assessment comes from the model or the offline report
+export function scorePanelist(panelist: Panelist, turns: ScoredTurn[]): Omit<PanelistAssessment, 'assessment'> {
+  const score = turns.length > 0 ? roundScore(turns.reduce((sum, turn) => sum + turn.feedback.score, 0) / turns.length) : 0;
+  return {
+    panelistId: panelist.id,
+    name: panelist.name,
+    role: panelist.role,
+    score,
+    questionCount: turns.length,
+    verdict: panelVerdict(score, turns.length)
+  };
+}
+
+function phraseTokens(phrase: string) {
+  return new Set(
+    phrase
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      // Crude stemming so "scale", "scaling" and "scales" land together
+      .map(word => word.replace(/(ing|ed|es|s)$/, ''))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+}
+
+// Merge near-duplicate phrases and count how many answers raised each one, most frequent first
+export function groupSimilarPhrases(phrasesPerAnswer: string[][], threshold: number = 0.5): ImprovementTheme[] {
+  const groups: { theme: string; tokens: Set<string>; answers: Set<number> }[] = [];
+
+  phrasesPerAnswer.forEach((phrases, answerIndex) => {
+    for (const phrase of phrases) {
+      const trimmed = phrase.trim();
+      if (!trimmed) continue;
+
+      const tokens = phraseTokens(trimmed);
+      const match = groups.find(group => similarity(group.tokens, tokens) >= threshold);
+
+      if (match) {
+        match.answers.add(answerIndex);
+        tokens.forEach(token => match.tokens.add(token));
+      } else {
+        groups.push({ theme: trimmed, tokens, answers: new Set([answerIndex]) });
+      }
+    }
+  });
+
+  return groups
+    .map(group => ({ theme: group.theme, occurrences: group.answers.size }))
+    // Stable sort keeps first-seen order for equal counts
+    .sort((a, b) => b.occurrences - a.occurrences);
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { validate } from './schemas';
+
+type FieldValidation<T> =
+  | { data: T | undefined; response?: undefined }
+  | { data?: undefined; response: NextResponse };
+
+// Check an optional request body field against its schema. Gives the parsed value (undefined when the
+// field was left out), or a 400 response naming every invalid part, e.g. "diagram.edges[0].from: ..."
+export function validateBodyField<T>(
+  value: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  field: string,
+  error: string
+): FieldValidation<T> {
+  if (value === undefined || value === null) {
+    return { data: undefined };
+  }
+
+  const result = validate(value, schema);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const fieldPath = (path: string) => (path === 'response' ? field : path.startsWith('[') ? `${field}${path}` : `${field}.${path}`);
+  return {
+    response: NextResponse.json(
+      { error, invalidFields: result.errors.map(({ field: path, message }) => `${fieldPath(path)}: ${message}`) },
+      { status: 400 }
+    ),
+  };
+}
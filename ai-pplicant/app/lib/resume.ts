@@ -0,0 +1,181 @@
+import { findSkills, mentionsSkill } from './skills';
+import type { ResumeProfile, ResumeProject, ResumeRole } from './types';
+
+type ResumeSection = 'summary' | 'experience' | 'projects' | 'skills' | 'education' | 'other';
+
+// Headings resumes commonly use for each section
+const SECTION_HEADINGS: [RegExp, ResumeSection][] = [
+  [/^(professional |career )?(summary|profile|objective|about( me)?)$/, 'summary'],
+  [/^(work |professional |relevant )?(experience|employment( history)?|work history)$/, 'experience'],
+  [/^(personal |selected |side |key )?projects?$/, 'projects'],
+  [/^(technical |core |key )?(skills|technologies|tech stack|competencies)( & tools| and tools)?$/, 'skills'],
+  [/^(education|certifications?|awards|publications|interests|languages|volunteering|references)$/, 'education'],
+];
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now)`, 'i');
+
+const JOB_TITLE = /\b(engineer|developer|programmer|manager|lead|director|analyst|designer|scientist|architect|intern|consultant|specialist|administrator|head|officer|founder)\b/i;
+
+const BULLET = /^[•\-*–·▪◦]\s*/;
+
+// Technical skills from the taxonomy; soft skills are too vague to list on a profile
+function findTechnicalSkills(text: string) {
+  return findSkills(text).filter(skill => !skill.behavioral).map(skill => skill.name);
+}
+
+function sectionFor(line: string): ResumeSection | null {
+  const heading = line.replace(/[:\s]+$/, '').toLowerCase();
+  if (heading.length > 40) return null;
+  const match = SECTION_HEADINGS.find(([pattern]) => pattern.test(heading));
+  return match ? match[1] : null;
+}
+
+function uniqueIgnoringCase(values: string[]) {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// "Senior Engineer, Acme Corp", "Senior Engineer at Acme" or "Acme | Senior Engineer" style headers
+function parseRoleHeader(header: string): Pick<ResumeRole, 'title' | 'organization'> {
+  const parts = header
+    .split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/)
+    .map(part => part.trim())
+    .filter(Boolean);
+  // Some resumes put the company first, so swap when only the second part reads like a job title
+  if (parts.length > 1 && !JOB_TITLE.test(parts[0]) && JOB_TITLE.test(parts[1])) {
+    return { title: parts[1], organization: parts[0] };
+  }
+  return { title: parts[0] || header, organization: parts[1] };
+}
+
+function parseRoles(lines: string[]): ResumeRole[] {
+  const roles: ResumeRole[] = [];
+
+  lines.forEach((line, index) => {
+    const match = DATE_RANGE.exec(line);
+    if (!match) return;
+
+    // The title usually shares the line with the dates, otherwise it sits on the line above
+    let header = line.replace(match[0], '').replace(BULLET, '').replace(/[()|,\s–—-]+$/, '').replace(/^[()|,\s–—-]+/, '');
+    if (!header && index > 0) {
+      header = lines[index - 1].replace(BULLET, '');
+    }
+    if (!header) return;
+
+    roles.push({
+      ...parseRoleHeader(header),
+      startDate: match[1],
+      endDate: match[2],
+    });
+  });
+
+  return roles;
+}
+
+function parseProjects(lines: string[]): ResumeProject[] {
+  const projects: ResumeProject[] = [];
+
+  for (const line of lines) {
+    if (BULLET.test(line)) {
+      // First bullet under a project name describes it
+      const current = projects[projects.length - 1];
+      if (current && !current.description) {
+        current.description = line.replace(BULLET, '');
+      }
+      continue;
+    }
+
+    // "Name: what it does" or "Name - what it does" on one line
+    const inline = /^([^:–—]{2,60}?)\s*(?::|–|—|\s-\s)\s*(.+)$/.exec(line);
+    if (inline) {
+      projects.push({ name: inline[1].trim(), description: inline[2].trim() });
+    } else if (line.length <= 80) {
+      projects.push({ name: line });
+    }
+  }
+
+  return projects.slice(0, 8);
+}
+
+function parseSkills(lines: string[]) {
+  return lines
+    // Drop "Languages:" style labels before splitting the list
+    .map(line => line.replace(BULLET, '').replace(/^[A-Za-z /&]{2,30}:\s*/, ''))
+    .flatMap(line => line.split(/\s*[,;|•·]\s*/))
+    .map(skill => skill.trim())
+    .filter(skill => skill.length > 0 && skill.length <= 40);
+}
+
+// Pull roles, projects, skills and dates out of resume text with simple layout heuristics
+export function parseResume(text: string): ResumeProfile {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const sections: Record<ResumeSection, string[]> = {
+    summary: [], experience: [], projects: [], skills: [], education: [], other: [],
+  };
+
+  let current: ResumeSection = 'other';
+  for (const line of lines) {
+    const section = sectionFor(line);
+    if (section) {
+      current = section;
+    } else {
+      sections[current].push(line);
+    }
+  }
+
+  // A name is usually the first line: a few capitalised words with no contact details
+  const firstLine = lines[0] || '';
+  const name = /^[A-Z][a-zA-Z'.-]+(\s+[A-Z][a-zA-Z'.-]+){1,3}$/.test(firstLine) && !sectionFor(firstLine)
+    ? firstLine
+    : undefined;
+
+  // Resumes without an experience heading still tend to list roles with date ranges
+  const roles = parseRoles(sections.experience.length > 0 ? sections.experience : [...sections.other, ...sections.summary]);
+
+  return {
+    name,
+    roles: roles.slice(0, 10),
+    projects: parseProjects(sections.projects),
+    skills: uniqueIgnoringCase([...parseSkills(sections.skills), ...findTechnicalSkills(text)]).slice(0, 30),
+  };
+}
+
+// Skills the job description asks for that the resume never mentions
+export function findResumeGaps(profile: ResumeProfile, jobDescription: string) {
+  const resumeSkills = profile.skills.join(', ');
+  return findTechnicalSkills(jobDescription).filter(skill => !mentionsSkill(resumeSkills, skill));
+}
+
+// Resume summary for the question and feedback prompts
+export function describeResume(profile: ResumeProfile, jobDescription?: string) {
+  const lines: string[] = [];
+
+  if (profile.roles.length > 0) {
+    lines.push(`Roles: ${profile.roles.map(role =>
+      `${role.title}${role.organization ? ` at ${role.organization}` : ''}${role.startDate ? ` (${role.startDate} - ${role.endDate || 'unknown'})` : ''}`
+    ).join('; ')}`);
+  }
+  if (profile.projects.length > 0) {
+    lines.push(`Projects: ${profile.projects.map(project =>
+      project.description ? `${project.name} (${project.description})` : project.name
+    ).join('; ')}`);
+  }
+  if (profile.skills.length > 0) {
+    lines.push(`Skills: ${profile.skills.join(', ')}`);
+  }
+  if (jobDescription) {
+    const gaps = findResumeGaps(profile, jobDescription);
+    if (gaps.length > 0) {
+      lines.push(`In the job description but not on the resume: ${gaps.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
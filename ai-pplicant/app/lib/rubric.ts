@@ -0,0 +1,31 @@
+import { getQuestionMode } from './modes';
+import type { DimensionScore } from './types';
+
+export interface RubricDimension {
+  id: string;
+  label: string;
+  // Share of the overall score; each rubric's weights add up to 1
+  weight: number;
+  description: string;
+}
+
+// What a question mode grades, and how much each part counts; each mode defines its own rubric
+export function getRubric(questionMode: string): RubricDimension[] {
+  return getQuestionMode(questionMode).rubric;
+}
+
+// Weighted average of the dimension scores, rounded to one decimal like the report scores
+export function weightedScore(dimensions: Pick<DimensionScore, 'score' | 'weight'>[]) {
+  const totalWeight = dimensions.reduce((sum, dimension) => sum + dimension.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const score = dimensions.reduce((sum, dimension) => sum + dimension.score * dimension.weight, 0) / totalWeight;
+  return Math.round(score * 10) / 10;
+}
+
+// Rubric lines for the grading prompt
+export function describeRubric(rubric: RubricDimension[]) {
+  return rubric
+    .map(dimension => `- "${dimension.id}" (${Math.round(dimension.weight * 100)}%): ${dimension.description}`)
+    .join('\n');
+}
@@ -0,0 +1,336 @@
+import { z } from 'zod';
+import { DIAGRAM_COMPONENT_KINDS } from './diagram';
+import { QUESTION_MODE_IDS } from './modes/catalog';
+import { weightedScore, type RubricDimension } from './rubric';
+import type { DimensionScore } from './types';
+
+// Runtime schemas for model output. The shared Question and FeedbackResponse types are inferred from these.
+
+const requiredText = z.string().trim().min(1, 'must be a non-empty string');
+
+export const CODE_LANGUAGES = ['javascript', 'typescript'] as const;
+
+// One call to the candidate's function and the value it should return
+export const codeTestCaseSchema = z.object({
+  args: z.array(z.unknown()),
+  expected: z.unknown(),
+  // Hidden tests only show the candidate whether they passed
+  hidden: z.boolean().default(true),
+});
+
+// Coding questions name the function to write and the tests it is run against in the browser
+export const codingSpecSchema = z.object({
+  functionName: z.string().trim().regex(/^[A-Za-z_$][\w$]*$/, 'must be a valid JavaScript identifier'),
+  starterCode: requiredText,
+  tests: z.array(codeTestCaseSchema).min(1, 'must have at least one test'),
+  // Set on specs sent to the page, which leave the hidden tests out and only say how many there are
+  hiddenTests: z.number().int().nonnegative().optional(),
+});
+
+export const questionSchema = z.object({
+  question: requiredText,
+  category: requiredText,
+  difficulty: z.string().optional(),
+  // Which kind of question this is; mixed interviews need it to grade each answer, and anything unknown is dropped
+  mode: z.enum(QUESTION_MODE_IDS).optional().catch(undefined),
+  // In panel interviews, the panelist who asks this question
+  panelistId: z.string().optional(),
+  // Set on question bank questions: what a strong answer covers, and how long it should take
+  keyPoints: z.array(requiredText).optional(),
+  timeLimitSeconds: z.number().int().positive().optional(),
+  // Coding questions open the editor; a spec the model got wrong is dropped rather than failing the question
+  coding: codingSpecSchema.optional().catch(undefined),
+});
+
+// Models return either a bare array or an object wrapping it, depending on JSON mode
+export const questionListSchema = z.preprocess(
+  value => (Array.isArray(value) ? { questions: value } : value),
+  z.object({
+    questions: z.array(questionSchema).min(1, 'must contain at least one question'),
+  })
+);
+
+// Curated question bank entries carry the tags used to pick questions that fit the role
+export const bankQuestionSchema = questionSchema.extend({
+  id: z.string().trim().regex(/^[a-z0-9-]+$/, 'must be a lowercase slug (letters, digits and dashes)'),
+  difficulty: requiredText,
+  mode: z.enum(QUESTION_MODE_IDS),
+  skills: z.array(requiredText).default([]),
+  // Empty for general questions; otherwise only asked for these companies
+  companies: z.array(requiredText).default([]),
+  keyPoints: z.array(requiredText).min(1, 'must list at least one key point'),
+  timeLimitSeconds: z.number().int().positive(),
+});
+
+// Import files may also be a bare array of questions
+export const questionBankSchema = z.preprocess(
+  value => (Array.isArray(value) ? { questions: value } : value),
+  z.object({
+    questions: z.array(bankQuestionSchema),
+  })
+);
+
+const dimensionScoreSchema = z.object({
+  dimension: requiredText,
+  score: z.number().min(1).max(5),
+  justification: requiredText,
+});
+
+// Feedback is graded against a rubric, so the schema checks every rubric dimension was scored
+// and derives the overall score from the weighted dimensions rather than trusting the model's number
+export function createFeedbackSchema(rubric: RubricDimension[]) {
+  return z
+    .object({
+      feedback: requiredText,
+      strengths: z.array(requiredText).min(1, 'must list at least one strength'),
+      improvements: z.array(requiredText).min(1, 'must list at least one improvement'),
+      dimensions: z.array(dimensionScoreSchema).superRefine((dimensions, context) => {
+        for (const { id } of rubric) {
+          if (!dimensions.some(dimension => dimension.dimension === id)) {
+            context.addIssue({ code: z.ZodIssueCode.custom, message: `must include a score for "${id}"` });
+          }
+        }
+      }),
+      follow_up: z.string().optional(),
+      follow_up_question: z.string().optional(),
+      follow_up_category: z.string().optional(),
+      // Panel interviews: which panelist asks the follow-up
+      follow_up_panelist: z.string().optional(),
+      // Coding interviews: tests for a follow-up that is a new problem rather than a question about the last one
+      follow_up_coding: codingSpecSchema.optional().catch(undefined),
+      // Recommended time for the follow-up, set by the server from its mode
+      follow_up_time_limit_seconds: z.number().int().positive().optional(),
+    })
+    .transform(({ dimensions, ...feedback }) => {
+      // Keep rubric order and drop any dimensions the model invented
+      const scoredDimensions: DimensionScore[] = rubric.map(({ id, label, weight }) => {
+        const graded = dimensions.find(dimension => dimension.dimension === id)!;
+        return { id, label, weight, score: graded.score, justification: graded.justification };
+      });
+
+      return {
+        ...feedback,
+        dimensions: scoredDimensions,
+        score: weightedScore(scoredDimensions),
+        // Older prompts only sent follow_up_question, so keep follow_up filled in for compatibility
+        follow_up: feedback.follow_up || feedback.follow_up_question || '',
+      };
+    });
+}
+
+// Panel interviewers come from the setup screen, so they are checked like any other untrusted input
+export const panelistSchema = z.object({
+  id: z.string().trim().regex(/^[a-z0-9-]+$/, 'must be a lowercase slug (letters, digits and dashes)'),
+  name: requiredText,
+  role: requiredText,
+  // Topics this panelist asks about; follow-ups go to whoever's focus fits best
+  focus: z.array(requiredText).min(1, 'must list at least one focus area'),
+  // How this panelist comes across, for the prompts
+  persona: requiredText,
+  // ElevenLabs voice ID
+  voiceId: requiredText,
+});
+
+export const panelSchema = z
+  .array(panelistSchema)
+  .min(2, 'must have at least two panelists')
+  .max(3, 'must have at most three panelists')
+  .refine(panel => new Set(panel.map(panelist => panelist.id)).size === panel.length, 'panelist ids must be unique');
+
+const codeTestResultSchema = z.object({
+  passed: z.boolean(),
+  hidden: z.boolean(),
+  // JSON renderings of the call, the expected value and what came back
+  args: z.string(),
+  expected: z.string(),
+  actual: z.string().optional(),
+  error: z.string().optional(),
+  durationMs: z.number().nonnegative(),
+});
+
+// Code and test results come from the browser sandbox, so they are checked like any other untrusted input
+export const codeSubmissionSchema = z.object({
+  language: z.enum(CODE_LANGUAGES),
+  source: z.string().max(20000, 'must be at most 20000 characters'),
+  results: z
+    .object({
+      status: z.enum(['passed', 'failed', 'error', 'timeout']),
+      passed: z.number().int().nonnegative(),
+      total: z.number().int().nonnegative(),
+      tests: z.array(codeTestResultSchema),
+      // Compile errors, a missing function, or the run timing out
+      error: z.string().optional(),
+      logs: z.array(z.string()).default([]),
+    })
+    .optional(),
+});
+
+const diagramIdSchema = z.string().trim().regex(/^[A-Za-z0-9_-]+$/, 'must only use letters, digits, "-" and "_"').max(60, 'must be at most 60 characters');
+
+// How long the candidate took on a question, timed in the browser
+export const answerTimingSchema = z.object({
+  // From the question being asked to the answer being submitted
+  questionSeconds: z.number().nonnegative().max(4 * 60 * 60, 'must be at most 4 hours'),
+  // Time spent recording the spoken answer
+  answerSeconds: z.number().nonnegative().max(4 * 60 * 60, 'must be at most 4 hours'),
+  // The limit the countdown showed; the server falls back to the question's own
+  limitSeconds: z.number().int().positive().optional(),
+});
+
+// How an answer sounded, measured in the browser from the transcript and the microphone level
+export const deliveryMetricsSchema = z.object({
+  durationSeconds: z.number().nonnegative().max(4 * 60 * 60, 'must be at most 4 hours'),
+  wordCount: z.number().int().nonnegative(),
+  wordsPerMinute: z.number().nonnegative(),
+  fillers: z.array(z.object({ phrase: requiredText, count: z.number().int().positive() })).max(20, 'must have at most 20 entries'),
+  fillerCount: z.number().int().nonnegative(),
+  // Filler words per 100 words
+  fillerRate: z.number().nonnegative(),
+  longPauses: z.number().int().nonnegative(),
+  longestPauseSeconds: z.number().nonnegative(),
+  // Where the pauses came from: word timestamps, the microphone level, or neither
+  pauseSource: z.enum(['timestamps', 'volume', 'none']),
+  // 0-100 while speaking; consistency is higher for a steadier voice. Null without a microphone level
+  averageVolume: z.number().min(0).max(100).nullable(),
+  volumeConsistency: z.number().min(0).max(100).nullable(),
+});
+
+// Overall interview length picked on the setup screen
+export const timeBudgetMinutesSchema = z.number().int().min(5, 'must be at least 5 minutes').max(240, 'must be at most 240 minutes');
+
+// Whiteboard structure parsed in the browser; the server reruns the structural checks on it
+export const diagramSchema = z
+  .object({
+    components: z
+      .array(
+        z.object({
+          id: diagramIdSchema,
+          label: requiredText.pipe(z.string().max(80, 'must be at most 80 characters')),
+          kind: z.enum(DIAGRAM_COMPONENT_KINDS),
+          replicated: z.boolean().default(false),
+        })
+      )
+      .max(60, 'must have at most 60 components'),
+    edges: z
+      .array(
+        z.object({
+          from: diagramIdSchema,
+          to: diagramIdSchema,
+          label: z.string().trim().max(80, 'must be at most 80 characters').optional(),
+        })
+      )
+      .max(200, 'must have at most 200 edges'),
+  })
+  .superRefine((diagram, context) => {
+    const ids = new Set(diagram.components.map(component => component.id));
+    diagram.edges.forEach((edge, index) => {
+      for (const end of ['from', 'to'] as const) {
+        if (!ids.has(edge[end])) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', index, end], message: `refers to unknown component "${edge[end]}"` });
+        }
+      }
+    });
+  });
+
+export const resumeRoleSchema = z.object({
+  title: requiredText,
+  organization: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+});
+
+export const resumeProjectSchema = z.object({
+  name: requiredText,
+  description: z.string().optional(),
+});
+
+// Structured profile extracted from an uploaded resume; the page sends it back with each interview
+export const resumeProfileSchema = z.object({
+  name: z.string().optional(),
+  roles: z.array(resumeRoleSchema).max(50, 'must have at most 50 entries'),
+  projects: z.array(resumeProjectSchema).max(50, 'must have at most 50 entries'),
+  skills: z.array(requiredText).max(200, 'must have at most 200 entries'),
+});
+
+// Fields pulled out of an imported job posting; the page sends them back with the job description
+export const jobPostingSchema = z.object({
+  title: z.string().optional(),
+  location: z.string().optional(),
+  level: z.string().optional(),
+  requirements: z.array(requiredText).max(50, 'must have at most 50 entries'),
+  niceToHaves: z.array(requiredText).max(50, 'must have at most 50 entries'),
+});
+
+export const jobAnalysisSchema = z.object({
+  requiredSkills: z.array(requiredText),
+  preferredSkills: z.array(requiredText),
+  seniority: requiredText,
+  domain: requiredText,
+  focusAreas: z.array(requiredText).min(1, 'must list at least one focus area'),
+  // Estimated share of technical questions; the rest is behavioral
+  technicalPercent: z.number().min(0).max(100),
+});
+
+const namedEntrySchema = z.object({
+  name: requiredText,
+  description: requiredText,
+});
+
+// Company profile packs are hand-written JSON files, checked with the same schema tooling as model output
+export const companyProfileSchema = z.object({
+  name: requiredText,
+  // Other spellings candidates might type, e.g. "AWS" for Amazon
+  aliases: z.array(requiredText).default([]),
+  summary: requiredText,
+  values: z.array(requiredText).min(1, 'must list at least one value'),
+  leadershipPrinciples: z.array(namedEntrySchema).default([]),
+  interviewStages: z.array(namedEntrySchema).min(1, 'must list at least one interview stage'),
+  focusAreas: z.object({
+    technical: z.array(requiredText).default([]),
+    behavioral: z.array(requiredText).default([]),
+  }),
+  // How questions are typically phrased, as examples rather than a question bank
+  questionStyles: z.array(requiredText).default([]),
+});
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+// "strengths[0]" style paths read better in logs and repair prompts than zod's arrays
+function formatPath(path: (string | number)[]) {
+  return path.reduce<string>(
+    (formatted, key) => (typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key),
+    ''
+  ) || 'response';
+}
+
+// Parse raw model output as JSON and check it against a schema, collecting every failed field
+export function parseModelOutput<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ValidationResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return { success: false, errors: [{ field: 'response', message: 'is not valid JSON' }] };
+  }
+
+  return validate(value, schema);
+}
+
+// Check already-parsed input, such as a request body field, against a schema
+export function validate<T>(value: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ValidationResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({ field: formatPath(issue.path), message: issue.message })),
+  };
+}
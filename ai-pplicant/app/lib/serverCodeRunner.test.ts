@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { runCodeOnServer } from './serverCodeRunner';
+import type { CodingSpec } from './types';
+
+const SPEC: CodingSpec = {
+  functionName: 'add',
+  starterCode: 'function add(a, b) {\n}',
+  tests: [
+    { args: [1, 2], expected: 3, hidden: false },
+    { args: [-1, 1], expected: 0, hidden: true },
+    { args: [[1], 2], expected: '12', hidden: true },
+  ],
+};
+
+const run = (source: string, language: 'javascript' | 'typescript' = 'javascript') => runCodeOnServer({ source, language }, SPEC);
+
+describe('runCodeOnServer', () => {
+  it('runs every test, hidden ones included', async () => {
+    const result = await run('function add(a, b) { console.log("adding", a, b); return a + b; }');
+
+    expect(result).toMatchObject({ status: 'passed', passed: 3, total: 3, logs: ['adding 1 2', 'adding -1 1', 'adding [1] 2'] });
+    expect(result.tests.map(test => test.hidden)).toEqual([false, true, true]);
+  });
+
+  it('reports failing tests with what came back', async () => {
+    const result = await run("export function add(a: number, b: number): number { return typeof a === 'number' ? a + b : 0; }", 'typescript');
+
+    expect(result).toMatchObject({ status: 'failed', passed: 2 });
+    expect(result.tests[2]).toMatchObject({ passed: false, hidden: true, args: '[[1],2]', expected: '"12"', actual: '0' });
+  });
+
+  it('fails every test when the code does not compile or the function is missing', async () => {
+    expect(await run('function add(a: number { return a; }', 'typescript')).toMatchObject({ status: 'error', passed: 0 });
+    expect(await run('function sum(a, b) { return a + b; }')).toMatchObject({ status: 'error', error: 'No function named add was found' });
+  });
+
+  it('checks results with built-ins the code cannot replace', async () => {
+    const result = await run(`
+      Object.is = () => true;
+      Array.isArray = () => false;
+      Array.prototype.every = () => true;
+      function add() {
+        try { runTests('', 'add', [], () => {}); } catch (error) {}
+        return null;
+      }
+    `);
+
+    expect(result).toMatchObject({ status: 'failed', passed: 0 });
+  });
+
+  it('keeps the process, modules and environment out of reach', async () => {
+    const result = await run(`
+      function add() {
+        return [typeof process, typeof require, typeof fetch, typeof globalThis.process];
+      }
+    `);
+
+    expect(result.tests[0].actual).toBe('["undefined","undefined","undefined","undefined"]');
+  });
+
+  it('stops code that never finishes', async () => {
+    const result = await run('function add() { while (true) {} }');
+
+    expect(result).toMatchObject({ status: 'timeout', passed: 0 });
+  }, 10000);
+});
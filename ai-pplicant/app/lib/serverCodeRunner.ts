@@ -0,0 +1,125 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { createRunResults, HARNESS_SOURCE, RUN_TIMEOUT_MS, stripExports, type HarnessMessage } from './codeHarness';
+import { transpileSolution } from './transpile';
+import type { CodeRunResult, CodeSubmission, CodingSpec } from './types';
+
+// Output past this is the candidate's code flooding stdout, not test results
+const MAX_OUTPUT_LENGTH = 1_000_000;
+
+// Runs in a separate Node process under the permission model, so the candidate's code can't touch files or spawn
+// processes. The harness reads the tests from stdin, then removes process, require and the network APIs before the
+// code is loaded. Results are written to stdout tagged with a token only the harness knows, so lines the candidate's
+// code manages to print itself are ignored.
+const CHILD_SOURCE = `
+(() => {
+'use strict';
+const stdin = process.stdin;
+const write = process.stdout.write.bind(process.stdout);
+${HARNESS_SOURCE}
+let input = '';
+stdin.setEncoding('utf8');
+stdin.on('data', chunk => {
+  input += chunk;
+});
+stdin.on('end', () => {
+  // Node puts require and module back once the -e script returns, so they are only removed now
+  for (const name of ['process', 'require', 'module', 'exports', '__filename', '__dirname', 'fetch', 'WebSocket', 'EventSource', 'BroadcastChannel']) {
+    Object.defineProperty(globalThis, name, { value: undefined, writable: false, configurable: false });
+  }
+  const { token, code, functionName, tests } = JSON.parse(input);
+  const post = message => write(stringify({ token, message }) + '\\n');
+  runTests(code, functionName, tests, post);
+});
+})();
+`;
+
+// Run a submission against every test of the question, hidden ones included. Hidden tests never reach the page,
+// so this is the only place they are checked, and the results can't be faked by the browser.
+export async function runCodeOnServer(submission: Pick<CodeSubmission, 'source' | 'language'>, spec: CodingSpec): Promise<CodeRunResult> {
+  const { record, summarize } = createRunResults(spec.tests);
+
+  let code = stripExports(submission.source);
+  if (submission.language === 'typescript') {
+    const transpiled = transpileSolution(submission.source);
+    if (!transpiled.success) {
+      return summarize(transpiled.errors[0]);
+    }
+    code = transpiled.code;
+  }
+
+  const token = randomUUID();
+  const args = ['--experimental-permission', '--no-warnings', '--max-old-space-size=128', '-e', CHILD_SOURCE];
+
+  return new Promise(resolve => {
+    // A bare environment, so API keys and other secrets never reach the candidate's code
+    const child = spawn(process.execPath, args, { stdio: ['pipe', 'pipe', 'ignore'], env: { NODE_ENV: process.env.NODE_ENV } });
+    let output = '';
+    let settled = false;
+
+    const finish = (result: CodeRunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.kill('SIGKILL');
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      console.log(`Code runner: Stopped the server run after ${RUN_TIMEOUT_MS}ms`);
+      finish(summarize(`Timed out after ${RUN_TIMEOUT_MS / 1000} seconds`, [], true));
+    }, RUN_TIMEOUT_MS);
+
+    const handleLine = (line: string) => {
+      let parsed: { token?: unknown; message?: HarnessMessage };
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (parsed.token !== token || !parsed.message) return;
+
+      const { message } = parsed;
+      if (message.type === 'test') {
+        record(message.result);
+      } else if (message.type === 'error') {
+        finish(summarize(message.error, message.logs));
+      } else {
+        finish(summarize(undefined, message.logs));
+      }
+    };
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      output += chunk;
+      if (output.length > MAX_OUTPUT_LENGTH) {
+        finish(summarize('The code printed too much output'));
+        return;
+      }
+      let newline = output.indexOf('\n');
+      while (newline !== -1) {
+        handleLine(output.slice(0, newline));
+        output = output.slice(newline + 1);
+        newline = output.indexOf('\n');
+      }
+    });
+
+    child.on('error', error => {
+      console.error('Code runner: Failed to start the server run:', error);
+      finish(summarize('The test runner could not be started'));
+    });
+
+    child.on('close', () => {
+      finish(summarize('The code crashed the test runner'));
+    });
+
+    // The process can die before reading its input, e.g. out of memory on startup
+    child.stdin.on('error', () => finish(summarize('The test runner could not be started')));
+    child.stdin.end(JSON.stringify({
+      token,
+      code,
+      functionName: spec.functionName,
+      tests: spec.tests.map(({ args, expected }) => ({ args, expected })),
+    }));
+  });
+}
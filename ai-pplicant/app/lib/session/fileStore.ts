@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { writeFileAtomic } from '../files';
+import type { InterviewSession, SessionBackend } from './types';
+
+// Session IDs become file names, so only allow a safe character set
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function createFileSessionStore(directory: string): SessionBackend {
+  const sessionPath = (id: string) => {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      return null;
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  return {
+    async get(id) {
+      const filePath = sessionPath(id);
+      if (!filePath) return null;
+
+      try {
+        const contents = await fs.readFile(filePath, 'utf8');
+        return JSON.parse(contents) as InterviewSession;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async save(session) {
+      const filePath = sessionPath(session.id);
+      if (!filePath) {
+        throw new Error(`Invalid session ID: ${session.id}`);
+      }
+
+      await writeFileAtomic(filePath, JSON.stringify(session, null, 2));
+    },
+
+    async delete(id) {
+      const filePath = sessionPath(id);
+      if (!filePath) return false;
+
+      try {
+        await fs.unlink(filePath);
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
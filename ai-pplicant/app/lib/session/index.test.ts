@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createSession, getSessionStore } from '.';
+
+const newSession = () => createSession({ company: 'Acme', jobDescription: 'Backend engineer', interviewMode: 'technical', temperament: 'neutral', questions: [] });
+
+describe('session store updates', () => {
+  it('keeps every change when updates to one session overlap', async () => {
+    const store = getSessionStore();
+    const session = newSession();
+    await store.save(session);
+
+    await Promise.all(['first', 'second', 'third'].map(answer =>
+      store.update(session.id, stored => {
+        stored.turns.push({ question: { question: 'Why?', category: 'General' }, answer, timestamp: Date.now() });
+      })
+    ));
+
+    const stored = await store.get(session.id);
+    expect(stored?.turns.map(turn => turn.answer)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('keeps going after a failed update', async () => {
+    const store = getSessionStore();
+    const session = newSession();
+    await store.save(session);
+
+    const failed = store.update(session.id, () => {
+      throw new Error('Bad change');
+    });
+    const next = store.update(session.id, stored => {
+      stored.company = 'Globex';
+    });
+
+    await expect(failed).rejects.toThrow('Bad change');
+    expect((await next)?.company).toBe('Globex');
+  });
+
+  it('resolves to null for a session that does not exist', async () => {
+    await expect(getSessionStore().update('missing', () => undefined)).resolves.toBeNull();
+  });
+});
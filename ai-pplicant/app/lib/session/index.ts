@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { HistoryMessage } from '../types';
+import { createFileSessionStore } from './fileStore';
+import { createMemorySessionStore } from './memoryStore';
+import type { InterviewSession, SessionBackend, SessionStore } from './types';
+
+export type { InterviewSession, SessionStore, SessionTurn } from './types';
+
+let store: SessionStore | null = null;
+
+// Queue each session's updates behind the previous one, so a read-change-save never overwrites a concurrent one
+function withSerializedUpdates(backend: SessionBackend): SessionStore {
+  const queues = new Map<string, Promise<unknown>>();
+
+  return {
+    ...backend,
+
+    update(id, change) {
+      const previous = queues.get(id) ?? Promise.resolve();
+      const next = previous
+        .catch(() => undefined)
+        .then(async () => {
+          const session = await backend.get(id);
+          if (!session) return null;
+
+          change(session);
+          session.updatedAt = Date.now();
+          await backend.save(session);
+          return session;
+        });
+
+      // Drop the queue once it drains so finished sessions don't pile up
+      queues.set(id, next);
+      next
+        .finally(() => {
+          if (queues.get(id) === next) queues.delete(id);
+        })
+        .catch(() => undefined);
+
+      return next;
+    },
+  };
+}
+
+// Select the session backend from SESSION_STORE (memory by default, or file)
+export function getSessionStore(): SessionStore {
+  if (store) return store;
+
+  const backend = (process.env.SESSION_STORE || 'memory').toLowerCase();
+
+  if (backend === 'file') {
+    const directory = process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.sessions');
+    console.log(`Session store: Using file backend at ${directory}`);
+    store = withSerializedUpdates(createFileSessionStore(directory));
+  } else {
+    if (backend !== 'memory') {
+      console.warn(`Session store: Unknown backend "${backend}", falling back to memory`);
+    }
+    store = withSerializedUpdates(createMemorySessionStore());
+  }
+
+  return store;
+}
+
+export function createSession(
+  details: Pick<InterviewSession, 'company' | 'jobDescription' | 'jobPosting' | 'jobAnalysis' | 'interviewMode' | 'temperament' | 'resume' | 'seed' | 'panel' | 'timeBudgetSeconds' | 'questions'>
+): InterviewSession {
+  const now = Date.now();
+  return {
+    id: randomUUID(),
+    ...details,
+    turns: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Rebuild the recent conversation from stored turns in the same shape the client used to send
+export function getSessionHistory(session: InterviewSession, limit: number = 6): HistoryMessage[] {
+  const history: HistoryMessage[] = [];
+
+  for (const turn of session.turns) {
+    history.push({ role: 'assistant', content: turn.question.question });
+    history.push({ role: 'user', content: turn.answer });
+  }
+
+  return history.slice(-limit);
+}
@@ -0,0 +1,27 @@
+import type { InterviewSession, SessionBackend } from './types';
+
+// Keep the map on globalThis so sessions survive module reloads in development
+const globalForSessions = globalThis as unknown as {
+  interviewSessions?: Map<string, InterviewSession>;
+};
+
+export function createMemorySessionStore(): SessionBackend {
+  const sessions = globalForSessions.interviewSessions ?? new Map<string, InterviewSession>();
+  globalForSessions.interviewSessions = sessions;
+
+  return {
+    async get(id) {
+      const session = sessions.get(id);
+      // Hand out copies so callers can't mutate the stored session by accident
+      return session ? structuredClone(session) : null;
+    },
+
+    async save(session) {
+      sessions.set(session.id, structuredClone(session));
+    },
+
+    async delete(id) {
+      return sessions.delete(id);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type { AnswerTiming, CodeSubmission, DeliveryMetrics, Diagram, FeedbackResponse, InterviewMode, JobAnalysis, JobPosting, Panelist, Question, ResumeProfile, Temperament } from '../types';
+
+// A single answered question within an interview session
+export interface SessionTurn {
+  question: Question;
+  answer: string;
+  feedback?: FeedbackResponse;
+  // Editor contents and test results sent with a coding answer
+  code?: CodeSubmission;
+  // Whiteboard diagram sent with a system design answer
+  diagram?: Diagram;
+  // How long the question and the spoken answer took, and the limit they were held to
+  timing?: AnswerTiming & { limitSeconds: number };
+  // Pace, filler words, pauses and volume of the spoken answer
+  delivery?: DeliveryMetrics;
+  timestamp: number;
+}
+
+export interface InterviewSession {
+  id: string;
+  company: string;
+  jobDescription: string;
+  // Structured fields from an imported job posting
+  jobPosting?: JobPosting;
+  // Skills, seniority and focus areas the questions were pitched at
+  jobAnalysis?: JobAnalysis;
+  interviewMode: InterviewMode;
+  // The interviewer's style, which sets question phrasing, pushback, feedback tone and voice
+  temperament: Temperament;
+  // Profile extracted from the candidate's uploaded resume, if they provided one
+  resume?: ResumeProfile;
+  // Seed for the offline mock engine; the same seed and answers replay the same interview
+  seed?: number;
+  // Interviewers in a panel interview; questions say which of them asks
+  panel?: Panelist[];
+  // Overall interview length picked on the setup screen, if any
+  timeBudgetSeconds?: number;
+  questions: Question[];
+  turns: SessionTurn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Storage backends implement this interface so the routes never care where sessions live
+export interface SessionBackend {
+  get(id: string): Promise<InterviewSession | null>;
+  save(session: InterviewSession): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SessionStore extends SessionBackend {
+  // Read, change and save a session in one step. Updates to the same session run one at a time, so overlapping
+  // requests each see the other's changes. Resolves to null when the session doesn't exist.
+  update(id: string, change: (session: InterviewSession) => void): Promise<InterviewSession | null>;
+}
@@ -0,0 +1,134 @@
+// Skills taxonomy used to spot skills in job descriptions and resumes without an LLM
+
+export interface SkillCategory {
+  name: string;
+  // Soft skills push an interview towards behavioral questions rather than technical ones
+  behavioral?: boolean;
+  // Each entry is the display name followed by any aliases
+  skills: string[][];
+}
+
+export const SKILL_TAXONOMY: SkillCategory[] = [
+  {
+    name: 'Programming Languages',
+    skills: [
+      ['JavaScript', 'JS', 'ES6'], ['TypeScript'], ['Python'], ['Java'], ['Go', 'Golang'], ['Rust'], ['C++', 'CPP'],
+      ['C#', '.NET', 'dotnet'], ['Ruby'], ['PHP'], ['Swift'], ['Kotlin'], ['Scala'], ['Elixir'], ['Haskell'],
+      ['Clojure'], ['Dart'], ['Bash', 'shell scripting'], ['Solidity'],
+    ],
+  },
+  {
+    name: 'Frontend',
+    skills: [
+      ['React', 'React.js', 'ReactJS'], ['Next.js', 'NextJS'], ['Vue', 'Vue.js'], ['Angular'], ['Svelte'], ['Redux'],
+      ['HTML'], ['CSS'], ['Tailwind', 'Tailwind CSS'], ['Webpack'], ['Vite'], ['Accessibility', 'a11y', 'WCAG'],
+      ['Web Performance', 'Core Web Vitals'], ['Design Systems'],
+    ],
+  },
+  {
+    name: 'Backend',
+    skills: [
+      ['Node.js', 'NodeJS'], ['Express'], ['NestJS'], ['Django'], ['Flask'], ['FastAPI'], ['Spring', 'Spring Boot'],
+      ['Rails', 'Ruby on Rails'], ['Laravel'], ['GraphQL'], ['REST', 'RESTful', 'REST APIs'], ['gRPC'],
+      ['Microservices'], ['Distributed Systems'], ['System Design'], ['Event-Driven Architecture', 'event sourcing'],
+      ['WebSockets'], ['API Design'],
+    ],
+  },
+  {
+    name: 'Data & Storage',
+    skills: [
+      ['SQL'], ['PostgreSQL', 'Postgres'], ['MySQL'], ['SQLite'], ['MongoDB'], ['Redis'], ['Cassandra'], ['DynamoDB'],
+      ['Elasticsearch', 'OpenSearch'], ['Kafka'], ['RabbitMQ'], ['Spark', 'PySpark'], ['Airflow'], ['dbt'],
+      ['Snowflake'], ['BigQuery'], ['Data Modeling'], ['ETL', 'ELT', 'data pipelines'], ['Hadoop'],
+    ],
+  },
+  {
+    name: 'Cloud & DevOps',
+    skills: [
+      ['AWS', 'Amazon Web Services'], ['GCP', 'Google Cloud'], ['Azure'], ['Docker'], ['Kubernetes', 'K8s'],
+      ['Terraform'], ['Ansible'], ['CI/CD', 'continuous integration', 'continuous delivery'], ['GitHub Actions'],
+      ['Jenkins'], ['Linux'], ['Serverless', 'Lambda'], ['Observability', 'monitoring'], ['Prometheus'], ['Grafana'],
+      ['Site Reliability', 'SRE'], ['Git'],
+    ],
+  },
+  {
+    name: 'Mobile',
+    skills: [
+      ['iOS'], ['Android'], ['React Native'], ['Flutter'], ['SwiftUI'], ['Jetpack Compose'],
+    ],
+  },
+  {
+    name: 'Machine Learning & AI',
+    skills: [
+      ['Machine Learning', 'ML'], ['Deep Learning'], ['TensorFlow'], ['PyTorch'], ['scikit-learn', 'sklearn'],
+      ['NLP', 'natural language processing'], ['Computer Vision'], ['LLMs', 'large language models', 'LLM'],
+      ['MLOps'], ['Pandas'], ['NumPy'], ['Statistics'], ['A/B Testing', 'experimentation'],
+    ],
+  },
+  {
+    name: 'Security',
+    skills: [
+      ['Application Security', 'AppSec'], ['OAuth', 'OIDC'], ['Cryptography'], ['Threat Modeling'],
+      ['Penetration Testing'], ['IAM'],
+    ],
+  },
+  {
+    name: 'Testing & Quality',
+    skills: [
+      ['Unit Testing', 'unit tests'], ['Integration Testing'], ['Jest'], ['Cypress'], ['Playwright'], ['Selenium'],
+      ['TDD', 'test-driven development'], ['Performance Testing', 'load testing'],
+    ],
+  },
+  {
+    name: 'Computer Science',
+    skills: [
+      ['Algorithms'], ['Data Structures'], ['Concurrency', 'multithreading'], ['Operating Systems'], ['Networking', 'TCP/IP'],
+      ['Compilers'],
+    ],
+  },
+  {
+    name: 'Leadership & Collaboration',
+    behavioral: true,
+    skills: [
+      ['Leadership', 'lead a team', 'leading teams'], ['Mentoring', 'mentor', 'coaching'], ['Communication', 'communicate'],
+      ['Collaboration', 'collaborate', 'cross-functional'], ['Stakeholder Management', 'stakeholders'],
+      ['Project Management', 'roadmap', 'roadmaps'], ['Agile', 'Scrum', 'Kanban'], ['Ownership', 'take ownership'],
+      ['Problem Solving'], ['Hiring', 'interviewing'], ['Conflict Resolution'], ['Customer Focus', 'customer-facing'],
+      ['Product Sense', 'product thinking'], ['Prioritization', 'prioritize'],
+    ],
+  },
+];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Word boundaries don't work around symbols like "C++" or "Node.js", so check the neighbours by hand.
+// Short names ("Go", "ML", "JS") are matched case-sensitively to avoid matching everyday words.
+export function mentionsSkill(text: string, skill: string) {
+  const caseSensitive = skill.length <= 2;
+  const pattern = new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(skill)}($|[^A-Za-z0-9+#])`, caseSensitive ? '' : 'i');
+  return pattern.test(text);
+}
+
+export interface SkillMatch {
+  name: string;
+  aliases: string[];
+  category: string;
+  behavioral: boolean;
+}
+
+// Every taxonomy skill mentioned in the text, in taxonomy order
+export function findSkills(text: string): SkillMatch[] {
+  const matches: SkillMatch[] = [];
+
+  for (const category of SKILL_TAXONOMY) {
+    for (const [name, ...aliases] of category.skills) {
+      if ([name, ...aliases].some(alias => mentionsSkill(text, alias))) {
+        matches.push({ name, aliases, category: category.name, behavioral: !!category.behavioral });
+      }
+    }
+  }
+
+  return matches;
+}
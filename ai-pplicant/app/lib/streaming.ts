@@ -0,0 +1,139 @@
+// Helpers for streaming feedback over Server-Sent Events, shared by the chat route and the UI
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+// Pulls the value of one string field out of a JSON object while it is still being generated.
+// push() takes the next raw chunk and returns whatever new decoded text became available.
+export function createJsonStringFieldReader(field: string) {
+  const fieldPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let position = -1;
+  let done = false;
+
+  return {
+    push(chunk: string) {
+      if (done) return '';
+      buffer += chunk;
+
+      if (position === -1) {
+        const match = fieldPattern.exec(buffer);
+        if (!match) return '';
+        position = match.index + match[0].length;
+      }
+
+      let decoded = '';
+      while (position < buffer.length) {
+        const char = buffer[position];
+
+        if (char === '"') {
+          done = true;
+          break;
+        }
+
+        if (char !== '\\') {
+          decoded += char;
+          position++;
+          continue;
+        }
+
+        // Wait for the rest of an escape sequence if it was split across chunks
+        const escape = buffer[position + 1];
+        if (escape === undefined) break;
+
+        if (escape === 'u') {
+          const hex = buffer.slice(position + 2, position + 6);
+          if (hex.length < 4) break;
+          decoded += String.fromCharCode(parseInt(hex, 16));
+          position += 6;
+        } else {
+          decoded += JSON_ESCAPES[escape] ?? escape;
+          position += 2;
+        }
+      }
+
+      return decoded;
+    },
+
+    get isComplete() {
+      return done;
+    },
+  };
+}
+
+export function formatServerSentEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+// Reads an event-stream response body and calls onEvent for every complete event
+export async function readServerSentEvents(response: Response, onEvent: (event: ServerSentEvent) => void) {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data += line.slice(5).trim();
+        }
+      }
+
+      if (data) {
+        onEvent({ event, data: JSON.parse(data) });
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// Splits text into finished sentences plus the unfinished tail that may still be growing
+export function splitCompleteSentences(text: string) {
+  const sentences: string[] = [];
+  // A sentence only counts as finished once whitespace follows its punctuation
+  const boundary = /[.!?]+\s+/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(lastIndex, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    lastIndex = end;
+  }
+
+  return { sentences, remainder: text.slice(lastIndex).trim() };
+}
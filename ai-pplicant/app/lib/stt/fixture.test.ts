@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createFixtureSTTProvider } from './fixture';
+
+// The sample file the README points STT_FIXTURES_PATH at
+const SAMPLE_FIXTURES = path.join(__dirname, '../../../fixtures/transcripts.json');
+
+const recording = (name: string, content: string = 'not really audio') => new File([content], name, { type: 'audio/webm' });
+
+describe('fixture STT provider', () => {
+  it('returns the transcript of a fixture matched by file name', async () => {
+    const provider = createFixtureSTTProvider(SAMPLE_FIXTURES);
+    const { text } = await provider.transcribe({ audio: recording('behavioral-star-answer.webm') });
+    expect(text).toMatch(/^When our payments service started timing out/);
+  });
+
+  it('returns the default transcript when no fixture matches', async () => {
+    const provider = createFixtureSTTProvider(SAMPLE_FIXTURES);
+    await expect(provider.transcribe({ audio: recording('unknown.webm') })).resolves.toEqual({ text: '' });
+    await expect(provider.transcribe({ audio: recording('unknown.webm'), verbose: true })).resolves.toEqual({ text: '', segments: [] });
+  });
+
+  it('matches recordings by the SHA-256 of their bytes', async () => {
+    const audio = 'bytes of a known recording';
+    const fixturesPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'stt-fixtures-')), 'transcripts.json');
+    await fs.writeFile(fixturesPath, JSON.stringify({
+      fixtures: [{ sha256: createHash('sha256').update(audio).digest('hex'), transcript: 'Matched by content' }],
+      defaultTranscript: 'No match'
+    }));
+
+    const provider = createFixtureSTTProvider(fixturesPath);
+    await expect(provider.transcribe({ audio: recording('recording.webm', audio) })).resolves.toEqual({ text: 'Matched by content' });
+    await expect(provider.transcribe({ audio: recording('recording.webm', 'other bytes') })).resolves.toEqual({ text: 'No match' });
+  });
+
+  it('returns segments and the language for verbose requests', async () => {
+    const provider = createFixtureSTTProvider(SAMPLE_FIXTURES);
+    const transcription = await provider.transcribe({ audio: recording('technical-caching-answer.webm'), verbose: true });
+    expect(transcription.language).toBe('en');
+    expect(transcription.duration).toBe(8.1);
+    expect(transcription.segments).toHaveLength(2);
+    expect(transcription.segments?.[0].words[4]).toEqual({ word: 'read-through', start: 0.8, end: 1.4, confidence: 0.52 });
+  });
+});
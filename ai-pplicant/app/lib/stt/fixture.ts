@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import type { STTProvider, TranscriptSegment } from './types';
+
+interface TranscriptFixture {
+  // SHA-256 of the uploaded audio bytes
+  sha256?: string;
+  // Uploaded file name, for clients that send a distinct name per recording
+  fileName?: string;
+  transcript: string;
+  // Returned for verbose requests, so tests can exercise timestamps and low-confidence words
+  language?: string;
+  segments?: TranscriptSegment[];
+}
+
+interface FixtureFile {
+  fixtures: TranscriptFixture[];
+  // Returned when no fixture matches; an empty transcript behaves like "no speech detected"
+  defaultTranscript?: string;
+}
+
+// Maps known test recordings to fixed transcripts so automated tests get predictable answers
+export function createFixtureSTTProvider(fixturesPath: string): STTProvider {
+  let fixtures: FixtureFile | null = null;
+
+  const loadFixtures = async () => {
+    if (!fixtures) {
+      fixtures = JSON.parse(await fs.readFile(fixturesPath, 'utf8')) as FixtureFile;
+      console.log(`Transcribe API: Loaded ${fixtures.fixtures.length} transcript fixtures from ${fixturesPath}`);
+    }
+    return fixtures;
+  };
+
+  return {
+    name: 'fixture',
+
+    async transcribe({ audio, verbose = false }) {
+      const { fixtures: entries, defaultTranscript = '' } = await loadFixtures();
+      const digest = createHash('sha256').update(Buffer.from(await audio.arrayBuffer())).digest('hex');
+
+      const match = entries.find(entry => entry.sha256 === digest)
+        || entries.find(entry => entry.fileName && entry.fileName === audio.name);
+
+      if (!match) {
+        console.log(`Transcribe API: No fixture for audio ${digest}, using default transcript`);
+        return verbose ? { text: defaultTranscript, segments: [] } : { text: defaultTranscript };
+      }
+
+      if (verbose) {
+        const segments = match.segments || [];
+        return {
+          text: match.transcript,
+          language: match.language,
+          duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+          segments
+        };
+      }
+      return { text: match.transcript };
+    },
+  };
+}
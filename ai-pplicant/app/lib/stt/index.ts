@@ -0,0 +1,41 @@
+import { createFixtureSTTProvider } from './fixture';
+import { createLocalWhisperProvider } from './localWhisper';
+import { createOpenAISTTProvider } from './openai';
+import type { STTProvider } from './types';
+
+export type { STTProvider, Transcription, TranscriptionRequest, TranscriptSegment, TranscriptWord } from './types';
+
+// Pick the transcription engine from STT_PROVIDER; returns null when none is available (mock transcript)
+export function getSTTProvider(): STTProvider | null {
+  const providerName = process.env.STT_PROVIDER?.toLowerCase() || (process.env.OPENAI_API_KEY ? 'openai' : 'mock');
+
+  switch (providerName) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.log('Transcribe API: OpenAI selected but OPENAI_API_KEY is missing');
+        return null;
+      }
+      return createOpenAISTTProvider(process.env.OPENAI_API_KEY);
+
+    case 'local':
+      return createLocalWhisperProvider({
+        baseUrl: process.env.STT_LOCAL_URL || 'http://localhost:8080',
+        api: process.env.STT_LOCAL_API === 'openai' ? 'openai' : 'whisper.cpp',
+        model: process.env.STT_LOCAL_MODEL,
+      });
+
+    case 'fixture':
+      if (!process.env.STT_FIXTURES_PATH) {
+        console.log('Transcribe API: Fixture provider selected but STT_FIXTURES_PATH is missing');
+        return null;
+      }
+      return createFixtureSTTProvider(process.env.STT_FIXTURES_PATH);
+
+    case 'mock':
+      return null;
+
+    default:
+      console.warn(`Transcribe API: Unknown STT provider "${providerName}"`);
+      return null;
+  }
+}
@@ -0,0 +1,55 @@
+import type { STTProvider } from './types';
+import { parseVerboseTranscription } from './verbose';
+
+// whisper.cpp's server exposes /inference; faster-whisper servers usually mirror the OpenAI API
+export type LocalWhisperApi = 'whisper.cpp' | 'openai';
+
+interface LocalWhisperOptions {
+  baseUrl: string;
+  api: LocalWhisperApi;
+  model?: string;
+  timeoutMs?: number;
+}
+
+export function createLocalWhisperProvider({ baseUrl, api, model, timeoutMs = 60000 }: LocalWhisperOptions): STTProvider {
+  const endpoint = api === 'whisper.cpp'
+    ? `${baseUrl.replace(/\/$/, '')}/inference`
+    : `${baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`;
+
+  return {
+    name: `local-${api}`,
+
+    async transcribe({ audio, language = 'en', verbose = false }) {
+      console.log(`Transcribe API: Sending to local Whisper server at ${endpoint}`);
+
+      const formData = new FormData();
+      formData.append('file', audio, audio.name || 'recording.webm');
+      formData.append('language', language);
+      formData.append('response_format', verbose ? 'verbose_json' : 'json');
+      // whisper.cpp always includes words in verbose output; OpenAI-style servers need asking
+      if (verbose && api === 'openai') {
+        formData.append('timestamp_granularities[]', 'word');
+        formData.append('timestamp_granularities[]', 'segment');
+      }
+      if (model) {
+        formData.append('model', model);
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        body: formData,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local Whisper server error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (verbose) {
+        return parseVerboseTranscription(data);
+      }
+      return { text: typeof data.text === 'string' ? data.text.trim() : '' };
+    },
+  };
+}
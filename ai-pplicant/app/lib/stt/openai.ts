@@ -0,0 +1,34 @@
+import { OpenAI } from 'openai';
+import type { STTProvider } from './types';
+import { parseVerboseTranscription } from './verbose';
+
+export function createOpenAISTTProvider(apiKey: string): STTProvider {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+
+    async transcribe({ audio, language = 'en', verbose = false }) {
+      console.log("Transcribe API: Sending to OpenAI Whisper API for transcription");
+      if (verbose) {
+        const transcription = await openai.audio.transcriptions.create({
+          file: audio,
+          model: 'whisper-1',
+          language,
+          response_format: 'verbose_json',
+          timestamp_granularities: ['word', 'segment'],
+        });
+        return parseVerboseTranscription(transcription);
+      }
+      
+      const transcription = await openai.audio.transcriptions.create({
+        file: audio,
+        model: 'whisper-1',
+        language, // Specify the language to improve accuracy
+        response_format: 'json', // Ensure we get JSON back
+      });
+
+      return { text: transcription.text || '' };
+    },
+  };
+}
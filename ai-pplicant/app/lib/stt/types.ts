@@ -0,0 +1,37 @@
+export interface TranscriptionRequest {
+  audio: File;
+  language?: string;
+  // Ask for segments with word timestamps and confidence as well as the text
+  verbose?: boolean;
+}
+
+// Times are in seconds from the start of the recording; confidence is 0-1
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  // Missing when the engine only scores whole segments
+  confidence?: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  // Missing when the engine doesn't score segments
+  confidence?: number;
+  words: TranscriptWord[];
+}
+
+export interface Transcription {
+  text: string;
+  // Only filled in for verbose requests
+  language?: string;
+  duration?: number;
+  segments?: TranscriptSegment[];
+}
+
+export interface STTProvider {
+  name: string;
+  transcribe(request: TranscriptionRequest): Promise<Transcription>;
+}
@@ -0,0 +1,66 @@
+import type { Transcription, TranscriptSegment, TranscriptWord } from './types';
+
+// Whisper-style verbose_json, as returned by OpenAI, whisper.cpp and faster-whisper servers. whisper.cpp
+// nests the words in their segments while OpenAI lists them for the whole recording, and only the local
+// engines give each word a probability.
+interface VerboseWord {
+  word?: string;
+  start?: number;
+  end?: number;
+  probability?: number;
+}
+
+interface VerboseSegment {
+  text?: string;
+  start?: number;
+  end?: number;
+  avg_logprob?: number;
+  words?: VerboseWord[];
+}
+
+export interface VerboseTranscriptionJson {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: VerboseSegment[];
+  words?: VerboseWord[];
+}
+
+const clampConfidence = (value: number) => Math.min(1, Math.max(0, Math.round(value * 1000) / 1000));
+
+function toWord({ word, start = 0, end = start, probability }: VerboseWord): TranscriptWord | null {
+  const text = word?.trim();
+  if (!text) return null;
+  return { word: text, start, end, ...(typeof probability === 'number' ? { confidence: clampConfidence(probability) } : {}) };
+}
+
+// A segment's confidence is its average token probability; without one, the average of its words'
+function segmentConfidence(segment: VerboseSegment, words: TranscriptWord[]) {
+  if (typeof segment.avg_logprob === 'number') return clampConfidence(Math.exp(segment.avg_logprob));
+  const scored = words.flatMap(word => (word.confidence !== undefined ? [word.confidence] : []));
+  return scored.length > 0 ? clampConfidence(scored.reduce((sum, value) => sum + value, 0) / scored.length) : undefined;
+}
+
+export function parseVerboseTranscription(data: VerboseTranscriptionJson): Transcription {
+  const segments = data.segments || [];
+  const looseWords = (data.words || []).flatMap(word => toWord(word) || []);
+
+  const parsed: TranscriptSegment[] = segments.map((segment, index) => {
+    const start = segment.start ?? 0;
+    const end = segment.end ?? start;
+    const isLast = index === segments.length - 1;
+    // Recording-wide words belong to the segment they start in
+    const words = segment.words
+      ? segment.words.flatMap(word => toWord(word) || [])
+      : looseWords.filter(word => word.start >= start && (word.start < end || isLast));
+    const confidence = segmentConfidence(segment, words);
+    return { text: segment.text?.trim() || '', start, end, ...(confidence !== undefined ? { confidence } : {}), words };
+  });
+
+  return {
+    text: data.text?.trim() || '',
+    language: data.language,
+    duration: data.duration,
+    segments: parsed
+  };
+}
@@ -0,0 +1,125 @@
+import type { VoiceSettings } from './tts/types';
+
+// How the interviewer comes across, independent of what they ask. Kept free of server code so the
+// setup page can import it; the routes read the prompt lines and the voice route reads the settings.
+
+export const TEMPERAMENT_IDS = ['warm', 'neutral', 'terse', 'skeptical', 'high-pressure'] as const;
+
+export type TemperamentId = (typeof TEMPERAMENT_IDS)[number];
+
+export interface TemperamentInfo {
+  id: TemperamentId;
+  label: string;
+  // Shown under the style buttons on the setup page
+  description: string;
+  // Added to the welcome message so the candidate knows what to expect
+  intro: string;
+  // Prompt lines for how questions are phrased, how follow-ups push back, and how feedback sounds
+  questionStyle: string;
+  pushback: string;
+  feedbackTone: string;
+  // ElevenLabs settings for everything this interviewer says; lower stability sounds more animated
+  voice: VoiceSettings;
+  // Voice answers running longer than this get cut off
+  interruptAfterSeconds?: number;
+  mock: {
+    // Opens offline feedback in this interviewer's voice
+    feedbackLead: string;
+    // Said instead of the lead when the answer was cut off
+    interruption: string;
+    // Sentences of the canned feedback to keep; terse interviewers don't elaborate
+    maxSentences?: number;
+  };
+}
+
+export const TEMPERAMENT_CATALOG: Record<TemperamentId, TemperamentInfo> = {
+  warm: {
+    id: 'warm',
+    label: 'Warm',
+    description: 'Encouraging and patient, puts you at ease and builds on what you say',
+    intro: "Relax and take your time; this is a conversation, not an exam.",
+    questionStyle: 'Phrase questions warmly and conversationally, with a short friendly lead-in, as if putting a nervous candidate at ease.',
+    pushback: 'Build on what they said with genuine curiosity; invite them to go deeper rather than challenging them.',
+    feedbackTone: 'Be encouraging: lead with what worked, then frame improvements as next steps rather than mistakes.',
+    voice: { stability: 0.45, similarityBoost: 0.8 },
+    mock: {
+      feedbackLead: 'Thanks, I enjoyed hearing that.',
+      interruption: "Sorry to jump in, I want to make sure we have time for everything."
+    }
+  },
+  neutral: {
+    id: 'neutral',
+    label: 'Neutral',
+    description: 'Professional and even-handed, like most real interviewers',
+    intro: '',
+    questionStyle: 'Phrase questions plainly and professionally.',
+    pushback: 'Probe naturally where the answer was thin.',
+    feedbackTone: 'Balance honesty with helpfulness - be constructive without being harsh.',
+    voice: { stability: 0.5, similarityBoost: 0.75 },
+    mock: {
+      feedbackLead: '',
+      interruption: "Let me stop you there so we can keep moving."
+    }
+  },
+  terse: {
+    id: 'terse',
+    label: 'Terse',
+    description: 'Short questions, minimal reactions, no small talk',
+    intro: "I'll keep this brief.",
+    questionStyle: 'Phrase questions as briefly as possible: one short sentence, no lead-in, no pleasantries.',
+    pushback: 'Ask the follow-up in as few words as possible, without acknowledging the answer first.',
+    feedbackTone: 'Be curt: two short sentences at most, no praise unless it was earned, no softening.',
+    voice: { stability: 0.7, similarityBoost: 0.75 },
+    mock: {
+      feedbackLead: 'Noted.',
+      interruption: 'Stop there.',
+      maxSentences: 2
+    }
+  },
+  skeptical: {
+    id: 'skeptical',
+    label: 'Skeptical',
+    description: 'Doubts your claims and asks you to prove them',
+    intro: "I'll be pushing back on your answers, so be ready to back them up.",
+    questionStyle: 'Phrase questions so the candidate has to prove their claims, asking for specifics and evidence.',
+    pushback: 'Challenge the weakest claim in their answer directly: question their numbers, their role, or their reasoning, and ask them to defend it.',
+    feedbackTone: 'Be skeptical: point out where claims were unsupported or vague before acknowledging what held up.',
+    voice: { stability: 0.6, similarityBoost: 0.7 },
+    mock: {
+      feedbackLead: "I'm not fully convinced yet.",
+      interruption: "Hold on, I'm not sure that's right."
+    }
+  },
+  'high-pressure': {
+    id: 'high-pressure',
+    label: 'High Pressure',
+    description: 'Fast-paced and impatient; long voice answers get interrupted',
+    intro: "We have a lot to get through, so keep your answers tight. I will cut you off if you run long.",
+    questionStyle: 'Phrase questions with urgency, as if short on time, and stack a second demand onto the question where it fits.',
+    pushback: 'Press hard on any hesitation or gap, demand a concrete answer immediately, and raise the stakes of the scenario.',
+    feedbackTone: 'Be blunt and impatient: say plainly what was too slow or too vague, with no cushioning.',
+    voice: { stability: 0.3, similarityBoost: 0.65 },
+    interruptAfterSeconds: 45,
+    mock: {
+      feedbackLead: "Let's pick up the pace.",
+      interruption: "I'm going to stop you there. Get to the point faster."
+    }
+  }
+};
+
+export function isTemperament(value: unknown): value is TemperamentId {
+  return typeof value === 'string' && (TEMPERAMENT_IDS as readonly string[]).includes(value);
+}
+
+// Unknown or missing temperaments fall back to neutral
+export function getTemperamentInfo(id: string | undefined): TemperamentInfo {
+  return isTemperament(id) ? TEMPERAMENT_CATALOG[id] : TEMPERAMENT_CATALOG.neutral;
+}
+
+// Put offline feedback in the interviewer's voice; the scores and suggestions stay the same
+export function applyMockTone(temperament: TemperamentInfo, feedback: string, interrupted: boolean) {
+  const sentences = feedback.match(/[^.!?]+[.!?]+(\s+|$)/g) || [feedback];
+  const kept = temperament.mock.maxSentences ? sentences.slice(0, temperament.mock.maxSentences).join('').trim() : feedback;
+  const lead = interrupted ? temperament.mock.interruption : temperament.mock.feedbackLead;
+  return lead ? `${lead} ${kept}` : kept;
+}
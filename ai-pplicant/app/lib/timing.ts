@@ -0,0 +1,70 @@
+import type { AnswerTiming, FeedbackResponse } from './types';
+
+// Question countdowns and the interview time budget. Kept free of server code so the page can
+// run the countdown; the chat route uses the same helpers to describe pacing to the grader.
+
+// Interview lengths offered on the setup screen, in minutes
+export const TIME_BUDGET_OPTIONS = [15, 30, 45, 60] as const;
+
+// Share of the limit after which the countdown tells the candidate to start wrapping up
+const SOFT_WARNING_SHARE = 0.75;
+
+// With auto-stop on, recording started after the limit still gets this long before it is stopped
+export const MIN_RECORDING_SECONDS = 30;
+
+// Answers this far over the limit get called out in the feedback
+const OVER_LIMIT_SHARE = 1.25;
+
+// Answers shorter than this share of the limit are probably missing depth
+const UNDER_LIMIT_SHARE = 0.2;
+
+export type TimerStatus = 'ok' | 'soft' | 'hard';
+
+// Where the countdown is: comfortably inside the limit, nearly out of time, or over it
+export function getTimerStatus(elapsedSeconds: number, limitSeconds: number): TimerStatus {
+  if (elapsedSeconds >= limitSeconds) return 'hard';
+  if (elapsedSeconds >= limitSeconds * SOFT_WARNING_SHARE) return 'soft';
+  return 'ok';
+}
+
+// 75 -> "1:15", 3725 -> "62:05"; negative values count down past zero as "-0:10"
+export function formatDuration(seconds: number) {
+  const whole = Math.round(Math.abs(seconds));
+  return `${seconds < 0 ? '-' : ''}${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+type Pacing = 'over' | 'under' | 'on-time';
+
+function getPacing({ questionSeconds, answerSeconds }: AnswerTiming, limitSeconds: number): Pacing {
+  if (questionSeconds > limitSeconds * OVER_LIMIT_SHARE) return 'over';
+  if (answerSeconds < limitSeconds * UNDER_LIMIT_SHARE) return 'under';
+  return 'on-time';
+}
+
+// Timing line for the feedback prompt
+export function describeAnswerTiming(timing: AnswerTiming, limitSeconds: number) {
+  const pacing = getPacing(timing, limitSeconds);
+  return `The candidate spent ${formatDuration(timing.questionSeconds)} on this question (recommended: ${formatDuration(limitSeconds)}), ` +
+    `${formatDuration(timing.answerSeconds)} of it speaking. ` +
+    (pacing === 'over'
+      ? 'That is well over the recommended time; tell them what to cut.'
+      : pacing === 'under'
+        ? 'That is very short for this question; say what depth is missing.'
+        : 'That is a reasonable pace; only mention it if the answer felt rushed or padded.');
+}
+
+// Offline feedback mentions pacing when the answer was well over or under the recommended time
+export function applyMockPacing(feedback: FeedbackResponse, timing: AnswerTiming, limitSeconds: number): FeedbackResponse {
+  const pacing = getPacing(timing, limitSeconds);
+  if (pacing === 'on-time') return feedback;
+
+  const note = pacing === 'over'
+    ? `You took ${formatDuration(timing.questionSeconds)} on a question that deserves about ${formatDuration(limitSeconds)}.`
+    : `At ${formatDuration(timing.answerSeconds)}, the answer was short for a question that deserves about ${formatDuration(limitSeconds)}.`;
+  const improvement = pacing === 'over' ? `Land the answer within ${formatDuration(limitSeconds)}` : 'Use more of the available time to add depth';
+  return {
+    ...feedback,
+    feedback: `${feedback.feedback} ${note}`,
+    improvements: [...feedback.improvements.slice(0, 2), improvement]
+  };
+}
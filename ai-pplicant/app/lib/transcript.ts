@@ -0,0 +1,21 @@
+import type { TranscriptSegment } from './stt/types';
+
+// Words the transcription engine was unsure of, highlighted so the candidate can correct them before
+// the answer is graded
+
+// Words scored below this are highlighted
+const LOW_CONFIDENCE = 0.6;
+
+export interface TranscriptToken {
+  word: string;
+  confidence?: number;
+  lowConfidence: boolean;
+}
+
+// Each word with its own confidence, or its segment's when the engine only scores segments
+export function getTranscriptTokens(segments: TranscriptSegment[]): TranscriptToken[] {
+  return segments.flatMap(segment => segment.words.map(word => {
+    const confidence = word.confidence ?? segment.confidence;
+    return { word: word.word, confidence, lowConfidence: confidence !== undefined && confidence < LOW_CONFIDENCE };
+  }));
+}
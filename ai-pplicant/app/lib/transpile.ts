@@ -0,0 +1,28 @@
+import ts from 'typescript';
+
+export type TranspileResult = { success: true; code: string } | { success: false; errors: string[] };
+
+// Strip the types from a TypeScript solution so it can run as JavaScript. Only syntax errors are reported;
+// type errors don't stop the tests from running, just like in a real interview editor.
+export function transpileSolution(source: string): TranspileResult {
+  const output = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+    },
+  });
+
+  const errors = (output.diagnostics || [])
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return message;
+      }
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `Line ${line + 1}, column ${character + 1}: ${message}`;
+    });
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, code: output.outputText };
+}
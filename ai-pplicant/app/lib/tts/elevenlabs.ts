@@ -0,0 +1,70 @@
+import type { SpeechRequest, TTSProvider } from './types';
+
+// Default voice when the client doesn't send one
+const DEFAULT_VOICE_ID = 'xctasy8XvGp2cVO9HL9k';
+
+export function createElevenLabsProvider(apiKey: string): TTSProvider {
+  // Both the buffered and streaming endpoints take the same request
+  const requestSpeech = async ({ text, voiceId, isFeedback, voiceSettings }: SpeechRequest, streaming: boolean) => {
+    const selectedVoiceId = voiceId || DEFAULT_VOICE_ID;
+    console.log(`Voice API: Using ElevenLabs voice ID ${selectedVoiceId}${streaming ? ' (streaming)' : ''}`);
+
+    // Direct fetch to ElevenLabs API with optimized settings for feedback
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${selectedVoiceId}${streaming ? '/stream' : ''}`,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: 'eleven_multilingual_v2',
+          // The interviewer's temperament sets the delivery; otherwise feedback gets steadier, clearer settings
+          voice_settings: {
+            stability: voiceSettings?.stability ?? (isFeedback ? 0.80 : 0.5),
+            similarity_boost: voiceSettings?.similarityBoost ?? (isFeedback ? 0.85 : 0.75),
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      // Try to get more detailed error info from the response
+      try {
+        const errorData = await response.json();
+        console.error('Voice API: ElevenLabs error details:', errorData);
+      } catch {
+        // Ignore if we can't parse the error response
+      }
+      throw new Error(`ElevenLabs API error: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'elevenlabs',
+
+    async synthesize(request) {
+      const response = await requestSpeech(request, false);
+      return {
+        audio: await response.arrayBuffer(),
+        contentType: 'audio/mpeg',
+      };
+    },
+
+    async stream(request) {
+      const response = await requestSpeech(request, true);
+      if (!response.body) {
+        throw new Error('ElevenLabs returned no audio stream');
+      }
+      return {
+        stream: response.body,
+        contentType: 'audio/mpeg',
+      };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { createElevenLabsProvider } from './elevenlabs';
+import { createLocalTTSProvider } from './local';
+import { createOpenAITTSProvider } from './openai';
+import type { TTSProvider } from './types';
+
+export type { SpeechRequest, StreamedSpeech, SynthesizedSpeech, TTSProvider } from './types';
+
+// Pick the speech engine from TTS_PROVIDER; returns null when no engine is available (mock audio)
+export function getTTSProvider(): TTSProvider | null {
+  const providerName = process.env.TTS_PROVIDER?.toLowerCase() || (process.env.ELEVENLABS_API_KEY ? 'elevenlabs' : 'mock');
+
+  switch (providerName) {
+    case 'elevenlabs':
+      if (!process.env.ELEVENLABS_API_KEY) {
+        console.log('Voice API: ElevenLabs selected but ELEVENLABS_API_KEY is missing');
+        return null;
+      }
+      return createElevenLabsProvider(process.env.ELEVENLABS_API_KEY);
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.log('Voice API: OpenAI TTS selected but OPENAI_API_KEY is missing');
+        return null;
+      }
+      return createOpenAITTSProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_TTS_MODEL || 'tts-1',
+        defaultVoice: process.env.OPENAI_TTS_VOICE || 'alloy',
+      });
+
+    case 'local':
+      return createLocalTTSProvider({
+        engine: process.env.TTS_LOCAL_ENGINE === 'piper' ? 'piper' : 'espeak-ng',
+        binary: process.env.TTS_LOCAL_BINARY,
+        voice: process.env.TTS_LOCAL_VOICE,
+        model: process.env.PIPER_MODEL,
+      });
+
+    case 'mock':
+      return null;
+
+    default:
+      console.warn(`Voice API: Unknown TTS provider "${providerName}"`);
+      return null;
+  }
+}
+
+// File extension used in the Safari Content-Disposition header
+export function audioExtension(contentType: string) {
+  return contentType === 'audio/wav' ? 'wav' : 'mp3';
+}
@@ -0,0 +1,101 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TTSProvider } from './types';
+
+export type LocalEngine = 'espeak-ng' | 'piper';
+
+interface LocalTTSOptions {
+  engine: LocalEngine;
+  // Path to the engine binary (defaults to the engine name on PATH)
+  binary?: string;
+  // espeak-ng voice name, e.g. "en-us"
+  voice?: string;
+  // Piper .onnx voice model, required for piper
+  model?: string;
+  timeoutMs?: number;
+}
+
+// Both engines read text from stdin and write a WAV file
+function buildArgs({ engine, voice, model }: LocalTTSOptions, outputPath: string, isFeedback: boolean) {
+  if (engine === 'piper') {
+    if (!model) {
+      throw new Error('PIPER_MODEL must be set to use the piper engine');
+    }
+    return ['--model', model, '--output_file', outputPath, ...(isFeedback ? ['--length_scale', '1.1'] : [])];
+  }
+
+  return ['--stdin', '-v', voice || 'en-us', '-s', isFeedback ? '155' : '170', '-w', outputPath];
+}
+
+function runEngine(binary: string, args: string[], input: string, timeoutMs: number) {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${binary} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stderr.on('data', chunk => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    // An engine that exits early (bad voice or model path) closes stdin before reading it; the exit code
+    // reports the real problem, so EPIPE is left to the close handler instead of crashing the server
+    child.stdin.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code !== 'EPIPE') {
+        clearTimeout(timer);
+        child.kill();
+        reject(error);
+      }
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+export function createLocalTTSProvider(options: LocalTTSOptions): TTSProvider {
+  const binary = options.binary || options.engine;
+  const timeoutMs = options.timeoutMs ?? 20000;
+
+  return {
+    name: `local-${options.engine}`,
+
+    async synthesize({ text, isFeedback }) {
+      const outputPath = path.join(os.tmpdir(), `ai-pplicant-tts-${randomUUID()}.wav`);
+      console.log(`Voice API: Synthesizing locally with ${binary}`);
+
+      try {
+        await runEngine(binary, buildArgs(options, outputPath, isFeedback), text, timeoutMs);
+        const audio = await fs.readFile(outputPath);
+
+        return {
+          audio: audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength) as ArrayBuffer,
+          contentType: 'audio/wav',
+        };
+      } finally {
+        await fs.unlink(outputPath).catch(() => {
+          // The engine may have failed before creating the file
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { OpenAI } from 'openai';
+import type { SpeechRequest, TTSProvider } from './types';
+
+const OPENAI_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer', 'verse'];
+
+interface OpenAITTSOptions {
+  apiKey: string;
+  model: string;
+  defaultVoice: string;
+}
+
+export function createOpenAITTSProvider({ apiKey, model, defaultVoice }: OpenAITTSOptions): TTSProvider {
+  const openai = new OpenAI({ apiKey });
+
+  const requestSpeech = ({ text, voiceId, isFeedback }: SpeechRequest) => {
+    // The UI sends ElevenLabs voice IDs, so only honour names OpenAI actually knows
+    const voice = voiceId && OPENAI_VOICES.includes(voiceId) ? voiceId : defaultVoice;
+    console.log(`Voice API: Using OpenAI voice ${voice} with model ${model}`);
+
+    return openai.audio.speech.create({
+      model,
+      voice,
+      input: text,
+      response_format: 'mp3',
+      // Slightly slower delivery makes feedback easier to follow
+      speed: isFeedback ? 0.95 : 1.0,
+    });
+  };
+
+  return {
+    name: 'openai',
+
+    async synthesize(request) {
+      const response = await requestSpeech(request);
+      return {
+        audio: await response.arrayBuffer(),
+        contentType: 'audio/mpeg',
+      };
+    },
+
+    async stream(request) {
+      const response = await requestSpeech(request);
+      if (!response.body) {
+        throw new Error('OpenAI returned no audio stream');
+      }
+      return {
+        stream: response.body as ReadableStream<Uint8Array>,
+        contentType: 'audio/mpeg',
+      };
+    },
+  };
+}
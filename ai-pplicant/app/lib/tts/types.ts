@@ -0,0 +1,30 @@
+// Delivery settings from the interviewer's temperament; engines without them ignore these
+export interface VoiceSettings {
+  stability: number;
+  similarityBoost: number;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceId?: string;
+  // Feedback is spoken with steadier, clearer settings where the engine supports it
+  isFeedback: boolean;
+  voiceSettings?: VoiceSettings;
+}
+
+export interface SynthesizedSpeech {
+  audio: ArrayBuffer;
+  contentType: string;
+}
+
+export interface StreamedSpeech {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+}
+
+export interface TTSProvider {
+  name: string;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+  // Engines that can return audio while it is still being generated implement this too
+  stream?(request: SpeechRequest): Promise<StreamedSpeech>;
+}
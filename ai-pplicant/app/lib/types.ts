@@ -0,0 +1,173 @@
+import type { z } from 'zod';
+import type { GeneratedBy } from './llm/types';
+import type { InterviewModeId, QuestionModeId } from './modes/catalog';
+import type { TemperamentId } from './temperaments';
+import type {
+  answerTimingSchema,
+  bankQuestionSchema,
+  CODE_LANGUAGES,
+  codeSubmissionSchema,
+  codeTestCaseSchema,
+  codingSpecSchema,
+  companyProfileSchema,
+  createFeedbackSchema,
+  deliveryMetricsSchema,
+  diagramSchema,
+  jobAnalysisSchema,
+  jobPostingSchema,
+  panelistSchema,
+  questionSchema,
+  resumeProfileSchema,
+  resumeProjectSchema,
+  resumeRoleSchema
+} from './schemas';
+
+// Shared interview types used by both the UI and the API routes
+
+// Interview mode type; the modes themselves are registered in lib/modes
+export type InterviewMode = InterviewModeId;
+
+// The kind of a single question; a mixed interview asks several kinds
+export type QuestionMode = QuestionModeId;
+
+// How the interviewer comes across: warm, neutral, terse, skeptical or high-pressure
+export type Temperament = TemperamentId;
+
+// Question and feedback shapes come from the runtime schemas that validate model output
+export type Question = z.infer<typeof questionSchema>;
+
+// The function a coding question asks for and the tests it must pass
+export type CodingSpec = z.infer<typeof codingSpecSchema>;
+export type CodeTestCase = z.infer<typeof codeTestCaseSchema>;
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
+
+// Editor contents sent with a spoken answer, and how they did against the tests
+export type CodeSubmission = z.infer<typeof codeSubmissionSchema>;
+export type CodeRunResult = NonNullable<CodeSubmission['results']>;
+
+// Time spent on a question and on the spoken answer to it
+export type AnswerTiming = z.infer<typeof answerTimingSchema>;
+
+// Pace, filler words, pauses and volume of a spoken answer
+export type DeliveryMetrics = z.infer<typeof deliveryMetricsSchema>;
+
+// Whiteboard architecture sketch: components and the connections between them
+export type Diagram = z.infer<typeof diagramSchema>;
+export type DiagramComponent = Diagram['components'][number];
+
+// A curated question with its mode, skill and company tags
+export type BankQuestion = z.infer<typeof bankQuestionSchema>;
+
+// One graded rubric dimension; the overall feedback score is the weighted average of these
+export interface DimensionScore {
+  id: string;
+  label: string;
+  weight: number;
+  score: number;
+  justification: string;
+}
+
+export type FeedbackResponse = z.infer<ReturnType<typeof createFeedbackSchema>> & {
+  // Which LLM provider and model produced this feedback
+  generatedBy?: GeneratedBy;
+  // Fields the model still got wrong after the repair retry, when the mock was used instead
+  invalidFields?: string[];
+};
+
+export type ResumeRole = z.infer<typeof resumeRoleSchema>;
+
+export type ResumeProject = z.infer<typeof resumeProjectSchema>;
+
+// Structured profile extracted from an uploaded resume
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+
+// Structured fields pulled out of an imported job posting
+export type JobPosting = z.infer<typeof jobPostingSchema>;
+
+// What an interview for the role is likely to focus on, from the job description analyzer
+export type JobAnalysis = z.infer<typeof jobAnalysisSchema>;
+
+// One interviewer in a panel interview, with their own focus, persona and voice
+export type Panelist = z.infer<typeof panelistSchema>;
+
+// Values, interview stages and question styles from a local company profile pack
+export type CompanyProfile = z.infer<typeof companyProfileSchema>;
+
+// Message format used when passing conversation context to the LLM
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CategoryScore {
+  category: string;
+  score: number;
+  questionCount: number;
+}
+
+export interface ImprovementTheme {
+  theme: string;
+  occurrences: number;
+}
+
+// End-of-interview summary built from every FeedbackResponse in a session
+export interface InterviewReport {
+  overallScore: number;
+  questionCount: number;
+  categoryScores: CategoryScore[];
+  recurringStrengths: string[];
+  improvementThemes: ImprovementTheme[];
+  weakestQuestion: {
+    question: string;
+    category: string;
+    score: number;
+    improvements: string[];
+  } | null;
+  summary: string;
+  // Panel interviews: how each panelist saw the candidate
+  panelAssessments?: PanelistAssessment[];
+  // Time spent per question, when the page timed the answers
+  timeSpent?: TimeSpentSummary;
+  // How the spoken answers sounded, when the page measured them
+  delivery?: DeliveryTrend;
+}
+
+export interface DeliveryTrend {
+  answers: number;
+  averageWordsPerMinute: number;
+  averageFillerRate: number;
+  totalLongPauses: number;
+  // Null when no answer had a usable microphone level
+  averageVolumeConsistency: number | null;
+  topFillers: DeliveryMetrics['fillers'];
+  perAnswer: (Pick<DeliveryMetrics, 'wordsPerMinute' | 'fillerRate' | 'longPauses' | 'volumeConsistency'> & { question: string })[];
+  // What changed between the early and late answers
+  notes: string[];
+}
+
+export interface QuestionTime {
+  question: string;
+  category: string;
+  spentSeconds: number;
+  answerSeconds: number;
+  limitSeconds: number;
+}
+
+export interface TimeSpentSummary {
+  questions: QuestionTime[];
+  totalSeconds: number;
+  // Questions that ran past their recommended time
+  overLimitCount: number;
+  budgetSeconds?: number;
+}
+
+export interface PanelistAssessment {
+  panelistId: string;
+  name: string;
+  role: string;
+  // Average score of the answers to this panelist's questions; 0 when they asked nothing that was scored
+  score: number;
+  questionCount: number;
+  verdict: string;
+  assessment: string;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityDetector, type VoiceActivityOptions, type VoiceActivityState } from './voiceActivity';
+
+// Feeds level readings every 100ms, like the recorder's meter, from a made-up clock
+function createMicrophone(options?: Partial<VoiceActivityOptions>) {
+  const detector = createVoiceActivityDetector(options);
+  let now = 0;
+  let state: VoiceActivityState | undefined;
+
+  return {
+    hold(level: number, seconds: number) {
+      for (let i = 0; i < Math.round(seconds * 10); i++) {
+        state = detector.update(level, now);
+        now += 100;
+      }
+      return state!;
+    },
+    // No readings for a while, e.g. the page was in a background tab
+    pause(seconds: number) {
+      now += seconds * 1000;
+    }
+  };
+}
+
+describe('createVoiceActivityDetector', () => {
+  it('calibrates a quiet room and stops after speech followed by silence', () => {
+    const microphone = createMicrophone();
+
+    expect(microphone.hold(2, 0.5).phase).toBe('calibrating');
+    const calibrated = microphone.hold(2, 0.1);
+    expect(calibrated).toMatchObject({ phase: 'waiting', noiseFloor: 2, threshold: 10 });
+
+    // Quiet room noise after calibration never counts as silence before the candidate speaks
+    expect(microphone.hold(3, 5)).toMatchObject({ phase: 'waiting', silentSeconds: 0, shouldStop: false });
+
+    const speaking = microphone.hold(20, 2);
+    expect(speaking.phase).toBe('speaking');
+    expect(speaking.speechSeconds).toBeCloseTo(2);
+
+    expect(microphone.hold(3, 2.5)).toMatchObject({ phase: 'silence', shouldStop: false });
+    expect(microphone.hold(3, 0.6).shouldStop).toBe(true);
+  });
+
+  it('raises the threshold in a noisy room so background noise is not speech', () => {
+    const microphone = createMicrophone();
+
+    expect(microphone.hold(40, 0.6)).toMatchObject({ phase: 'waiting', noiseFloor: 40, threshold: 60 });
+    // Loud enough to be speech in a quiet room, but only a little above this room's noise
+    expect(microphone.hold(50, 2)).toMatchObject({ phase: 'waiting', speechSeconds: 0 });
+
+    const speaking = microphone.hold(75, 1.5);
+    expect(speaking.phase).toBe('speaking');
+    expect(speaking.speechSeconds).toBeCloseTo(1.5);
+  });
+
+  it('keeps the noise floor low when the candidate starts talking during calibration', () => {
+    const microphone = createMicrophone();
+
+    microphone.hold(3, 0.2);
+    const calibrated = microphone.hold(45, 0.4);
+    expect(calibrated).toMatchObject({ phase: 'speaking', noiseFloor: 3, threshold: 11 });
+  });
+
+  it('counts at most a quarter of a second for a long gap between readings', () => {
+    const microphone = createMicrophone();
+    microphone.hold(2, 0.6);
+    microphone.hold(20, 2);
+
+    microphone.pause(10);
+    const afterSpeechGap = microphone.hold(20, 0.1);
+    expect(afterSpeechGap.speechSeconds).toBeCloseTo(2.25);
+
+    microphone.hold(3, 1);
+    microphone.pause(10);
+    const afterSilenceGap = microphone.hold(3, 0.1);
+    expect(afterSilenceGap.silentSeconds).toBeCloseTo(1.25);
+    expect(afterSilenceGap.shouldStop).toBe(false);
+  });
+
+  it('only stops once the answer has had minSpeechSeconds of speech', () => {
+    const microphone = createMicrophone({ minSpeechSeconds: 1, silenceSeconds: 2 });
+    microphone.hold(2, 0.6);
+
+    microphone.hold(20, 0.5);
+    const afterShortStart = microphone.hold(3, 4);
+    expect(afterShortStart).toMatchObject({ phase: 'silence', shouldStop: false });
+    expect(afterShortStart.silentSeconds).toBeCloseTo(4);
+
+    // Speaking again resets the silence, and the speech adds up across the pause
+    const resumed = microphone.hold(20, 0.6);
+    expect(resumed).toMatchObject({ phase: 'speaking', silentSeconds: 0 });
+    expect(resumed.speechSeconds).toBeCloseTo(1.1);
+
+    expect(microphone.hold(3, 1.5).shouldStop).toBe(false);
+    expect(microphone.hold(3, 0.6).shouldStop).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+// Voice-activity detection on the recorder's microphone level (0-100), used to end an answer once the
+// candidate has spoken and then gone quiet. The first moments of each recording calibrate the room's
+// noise floor, so a noisy room doesn't read as speech and a quiet one doesn't read as silence.
+
+export interface VoiceActivityOptions {
+  // Silence this long after speech ends the answer
+  silenceSeconds: number;
+  // Speech needed before silence counts, so a slow start isn't cut off
+  minSpeechSeconds: number;
+  // How long to listen to the room before detecting speech
+  calibrationSeconds: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivityOptions = {
+  silenceSeconds: 3,
+  minSpeechSeconds: 1,
+  calibrationSeconds: 0.5
+};
+
+// Silence lengths offered on the setup screen, in seconds
+export const SILENCE_SECONDS_OPTIONS = [2, 3, 5] as const;
+
+export type VoiceActivityPhase = 'calibrating' | 'waiting' | 'speaking' | 'silence';
+
+export interface VoiceActivityState {
+  phase: VoiceActivityPhase;
+  noiseFloor: number;
+  threshold: number;
+  speechSeconds: number;
+  silentSeconds: number;
+  // Set once the answer has had enough speech followed by enough silence
+  shouldStop: boolean;
+}
+
+// Speech has to clear the noise floor by this much, or this multiple of it in a louder room
+const MIN_SPEECH_MARGIN = 8;
+const SPEECH_FLOOR_RATIO = 1.5;
+
+// Gaps between level readings longer than this (a background tab) aren't counted as speech or silence
+const MAX_STEP_SECONDS = 0.25;
+
+export interface VoiceActivityDetector {
+  // Feed one level reading taken at `now` (milliseconds)
+  update(level: number, now: number): VoiceActivityState;
+}
+
+export function createVoiceActivityDetector(options: Partial<VoiceActivityOptions> = {}): VoiceActivityDetector {
+  const { silenceSeconds, minSpeechSeconds, calibrationSeconds } = { ...DEFAULT_VOICE_ACTIVITY, ...options };
+  const calibration: number[] = [];
+  let startedAt: number | null = null;
+  let lastUpdateAt: number | null = null;
+  let noiseFloor = 0;
+  let threshold = 0;
+  let speechSeconds = 0;
+  let silentSeconds = 0;
+  let phase: VoiceActivityPhase = 'calibrating';
+
+  const state = (): VoiceActivityState => ({
+    phase,
+    noiseFloor,
+    threshold,
+    speechSeconds,
+    silentSeconds,
+    shouldStop: speechSeconds >= minSpeechSeconds && silentSeconds >= silenceSeconds
+  });
+
+  return {
+    update(level, now) {
+      const step = lastUpdateAt === null ? 0 : Math.min(MAX_STEP_SECONDS, (now - lastUpdateAt) / 1000);
+      lastUpdateAt = now;
+      if (startedAt === null) startedAt = now;
+
+      if (phase === 'calibrating') {
+        calibration.push(level);
+        if ((now - startedAt) / 1000 < calibrationSeconds) return state();
+
+        // A low percentile, so a candidate who starts talking straight away doesn't raise the floor
+        const sorted = [...calibration].sort((a, b) => a - b);
+        noiseFloor = sorted[Math.floor(sorted.length * 0.2)];
+        threshold = Math.max(noiseFloor + MIN_SPEECH_MARGIN, noiseFloor * SPEECH_FLOOR_RATIO);
+        phase = 'waiting';
+      }
+
+      if (level > threshold) {
+        speechSeconds += step;
+        silentSeconds = 0;
+        phase = 'speaking';
+      } else if (phase !== 'waiting') {
+        silentSeconds += step;
+        phase = 'silence';
+      }
+      return state();
+    }
+  };
+}
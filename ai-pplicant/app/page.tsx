@@ -3,22 +3,25 @@
 import { useState, useRef, useEffect } from 'react';
 import AudioPlayer from './components/AudioPlayer';
 import VoiceRecorder from './components/VoiceRecorder';
-
-interface Question {
-  question: string;
-  category: string;
-  difficulty?: string;
-}
-
-interface FeedbackResponse {
-  feedback: string;
-  strengths: string[];
-  improvements: string[];
-  score: number;
-  follow_up: string;
-  follow_up_question?: string;
-  follow_up_category?: string;
-}
+import InterviewReport from './components/InterviewReport';
+import RubricBreakdown from './components/RubricBreakdown';
+import JobAnalysisSummary from './components/JobAnalysisSummary';
+import CodeEditor from './components/CodeEditor';
+import Whiteboard from './components/Whiteboard';
+import InterviewTimer from './components/InterviewTimer';
+import HandsFreeIndicator from './components/HandsFreeIndicator';
+import DeliveryStats from './components/DeliveryStats';
+import type { CodeLanguage, CodeRunResult, DeliveryMetrics, FeedbackResponse, InterviewMode, InterviewReport as InterviewReportData, JobAnalysis, JobPosting, Question, ResumeProfile, Temperament } from './lib/types';
+import { INTERVIEW_MODE_CATALOG, INTERVIEW_MODE_IDS } from './lib/modes/catalog';
+import { DEFAULT_PANEL_IDS, findPanelist, PANELIST_PRESETS } from './lib/panel';
+import { TEMPERAMENT_CATALOG, TEMPERAMENT_IDS } from './lib/temperaments';
+import { readServerSentEvents, splitCompleteSentences } from './lib/streaming';
+import { runCode } from './lib/codeRunner';
+import { parseDiagram } from './lib/diagram';
+import { MIN_RECORDING_SECONDS, TIME_BUDGET_OPTIONS } from './lib/timing';
+import { analyzeDelivery, type RecordingDetails } from './lib/delivery';
+import { DEFAULT_VOICE_ACTIVITY, SILENCE_SECONDS_OPTIONS } from './lib/voiceActivity';
+import { getHandsFreeStatus, HANDS_FREE_OPEN_DELAY_MS, isPauseCommand, PAUSE_KEYS } from './lib/handsFree';
 
 interface ConversationMessage {
   role: 'interviewer' | 'candidate' | 'feedback';
@@ -29,11 +32,10 @@ interface ConversationMessage {
   needsAudioPlay?: boolean;
   messageId?: string;
   timestamp?: number;
+  isStreaming?: boolean; // Feedback text is still arriving from the server
+  delivery?: DeliveryMetrics; // How a spoken answer sounded
 }
 
-// Interview mode type
-type InterviewMode = 'technical' | 'behavioral';
-
 // Add this function near the top of the file to check if using Safari
 const isSafari = typeof navigator !== 'undefined' ? 
   /^((?!chrome|android).)*safari/i.test(navigator.userAgent) : false;
@@ -84,24 +86,102 @@ const primeSafariAudioContext = () => {
 // Add the constant for the voice ID at the top level
 const VOICE_ID = 'CbRiJXXYVxEnJjySwh4y';
 
+// Avatar colours for panelists, in panel order
+const PANELIST_COLORS = ['bg-indigo-600', 'bg-emerald-600', 'bg-amber-600'];
+
+// Feedback is spoken sentence by sentence; keep it short like the voice API used to
+const MAX_SPOKEN_FEEDBACK_SENTENCES = isSafari ? 2 : 3;
+
+// Sentences of the feedback that are ready to be spoken
+const getFeedbackSpeechSegments = (message: ConversationMessage) => {
+  const { sentences, remainder } = splitCompleteSentences(message.feedback?.feedback || '');
+  const segments = message.isStreaming ? sentences : [...sentences, remainder].filter(Boolean);
+  return segments.slice(0, MAX_SPOKEN_FEEDBACK_SENTENCES);
+};
+
 export default function Home() {
   const [jobDescription, setJobDescription] = useState('');
   const [company, setCompany] = useState('');
+  const [companyPacks, setCompanyPacks] = useState<{ name: string; aliases: string[] }[]>([]);
+  const [jobPosting, setJobPosting] = useState<JobPosting | null>(null);
+  const [jobImporting, setJobImporting] = useState(false);
+  const [jobImportError, setJobImportError] = useState<string | null>(null);
+  const [jobAnalysis, setJobAnalysis] = useState<JobAnalysis | null>(null);
+  const [jobAnalyzing, setJobAnalyzing] = useState(false);
+  const [jobAnalysisError, setJobAnalysisError] = useState<string | null>(null);
+  const [resumeProfile, setResumeProfile] = useState<ResumeProfile | null>(null);
+  const [resumeFileName, setResumeFileName] = useState<string | null>(null);
+  const [resumeUploading, setResumeUploading] = useState(false);
+  const [resumeError, setResumeError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [started, setStarted] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Offline interviews are reproducible from their seed; shown so it can go in bug reports
+  const [mockSeed, setMockSeed] = useState<number | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [conversation, setConversation] = useState<ConversationMessage[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [listeningForVoice, setListeningForVoice] = useState(false);
   const [interviewMode, setInterviewMode] = useState<InterviewMode>('technical');
+  const modeInfo = INTERVIEW_MODE_CATALOG[interviewMode];
+  const [panelEnabled, setPanelEnabled] = useState(false);
+  const [panelIds, setPanelIds] = useState<string[]>(DEFAULT_PANEL_IDS);
+  const panel = panelEnabled ? PANELIST_PRESETS.filter(preset => panelIds.includes(preset.id)) : undefined;
+  const [temperament, setTemperament] = useState<Temperament>('neutral');
+  const temperamentInfo = TEMPERAMENT_CATALOG[temperament];
+  // Set when a high-pressure interviewer cut the current voice answer short
+  const interruptedRef = useRef(false);
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('javascript');
+  const [codeSource, setCodeSource] = useState('');
+  // Cleared on every edit, so results always belong to the code in the editor
+  const [codeResults, setCodeResults] = useState<CodeRunResult | null>(null);
+  const [codeRunning, setCodeRunning] = useState(false);
+  // Whiteboard text, kept across follow-ups so the candidate can keep refining one design
+  const [diagramSource, setDiagramSource] = useState('');
+  // Overall interview length in minutes, or null for no budget
+  const [timeBudgetMinutes, setTimeBudgetMinutes] = useState<number | null>(null);
+  // Stop recording once the current question's recommended time is up
+  const [autoStopAtLimit, setAutoStopAtLimit] = useState(false);
+  // End each answer once the candidate stops talking, and how long a silence that takes
+  const [autoStopAfterSilence, setAutoStopAfterSilence] = useState(false);
+  const [silenceSeconds, setSilenceSeconds] = useState(DEFAULT_VOICE_ACTIVITY.silenceSeconds);
+  // Hands-free mode opens the microphone after each question; pausing hands control back to the buttons
+  const [handsFree, setHandsFree] = useState(false);
+  const [handsFreePaused, setHandsFreePaused] = useState(false);
+  // Read from playback and timer callbacks, which can outlive the render that created them
+  const handsFreeActiveRef = useRef(false);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  // Ticks once a second to drive the countdowns
+  const [clock, setClock] = useState(() => Date.now());
+  const recordingStartedAtRef = useRef<number | null>(null);
+  // Length of the last voice recording, sent to /api/chat with the answer
+  const answerSecondsRef = useRef(0);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [micPermissionState, setMicPermissionState] = useState<'granted' | 'denied' | 'prompt' | 'unknown'>('unknown');
   const conversationEndRef = useRef<HTMLDivElement>(null);
   const lastAudioMessageIdRef = useRef<number | null>(null);
   const [processingFeedback, setProcessingFeedback] = useState(false);
+  const [speechSegmentIndex, setSpeechSegmentIndex] = useState(0);
+  const [interviewEnded, setInterviewEnded] = useState(false);
+  const interviewEndedRef = useRef(false);
+  const [report, setReport] = useState<InterviewReportData | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
   const totalQuestions = 10; // Fixed number of questions for the progress bar
 
+  // Companies with a local profile pack, offered as autocomplete suggestions
+  useEffect(() => {
+    fetch('/api/companies')
+      .then(response => (response.ok ? response.json() : { companies: [] }))
+      .then(data => setCompanyPacks(data.companies || []))
+      .catch(err => console.error('Error loading company profiles:', err));
+  }, []);
+
+  const companyPack = companyPacks.find(pack =>
+    [pack.name, ...pack.aliases].some(name => name.toLowerCase() === company.trim().toLowerCase())
+  );
+
   // Handle changes to the conversation array and trigger audio playback for the newest messages
   useEffect(() => {
     console.log("Conversation updated:", conversation.length, "messages");
@@ -157,7 +237,7 @@ export default function Home() {
     message = message.replace(/\,\s+/g, ', '); // Ensure proper spacing after commas
     
     // Ensure we're not repeating "STAR method" if it appears multiple times
-    if (interviewMode === 'behavioral' && 
+    if (modeInfo.questionModes.includes('behavioral') && 
         (message.toLowerCase().match(/star method/g) || []).length > 1) {
       message = message.replace(/\b(remember to use the STAR method|use the STAR method|follow the STAR method)\b/gi, 
         match => match.toLowerCase() === message.toLowerCase() ? match : 'apply this technique');
@@ -176,6 +256,38 @@ export default function Home() {
     return message;
   };
 
+  // The question being answered is the latest one asked; `questions` only holds the starters, not the follow-ups
+  const getCurrentQuestion = (): Question | null => {
+    for (let i = conversation.length - 1; i >= 0; i--) {
+      const asked = conversation[i].question;
+      if (conversation[i].role === 'interviewer' && asked) {
+        return asked;
+      }
+    }
+    return questions[currentQuestionIndex] || null;
+  };
+
+  // The latest coding question; follow-ups about the solution keep its editor and tests
+  const codingQuestion = [...conversation].reverse().find(message => message.question?.coding)?.question;
+  const codingSpec = codingQuestion?.coding;
+
+  // System design questions get the whiteboard; starter questions from the model may not carry a mode
+  const activeQuestion = getCurrentQuestion();
+  const whiteboardActive = (activeQuestion?.mode ?? interviewMode) === 'system-design';
+
+  // When the current question was asked; follow-ups are timestamped for when they are spoken
+  const askedAt = [...conversation].reverse().find(message => message.role === 'interviewer' && message.question)?.timestamp;
+  const questionLimit = activeQuestion?.timeLimitSeconds;
+  const budgetSeconds = timeBudgetMinutes !== null ? timeBudgetMinutes * 60 : null;
+  const isBudgetUsed = () => budgetSeconds !== null && startedAt !== null && Date.now() - startedAt >= budgetSeconds * 1000;
+  const whiteboard = parseDiagram(diagramSource);
+
+  // Who asked an interviewer message in a panel interview; the welcome and wrap-up have no panelist
+  const getSpeaker = (message: ConversationMessage) => {
+    const panelist = panel && findPanelist(panel, message.question?.panelistId);
+    return panel && panelist ? { panelist, color: PANELIST_COLORS[panel.indexOf(panelist)] } : null;
+  };
+
   // Completely revised message deduplication system
   const addMessageToConversation = (message: ConversationMessage) => {
     // Generate a unique ID for the message if not provided
@@ -296,6 +408,112 @@ export default function Home() {
     });
   };
 
+  // Update a message already in the conversation, e.g. while its feedback is streaming in
+  const updateConversationMessage = (messageId: string, update: (message: ConversationMessage) => ConversationMessage) => {
+    setConversation(prev => prev.map(m => m.messageId === messageId ? update(m) : m));
+  };
+
+  // Preview the skills, seniority and focus areas the interview will be pitched at
+  const analyzeJobDescription = async (text: string, posting: JobPosting | null) => {
+    setJobAnalyzing(true);
+    setJobAnalysisError(null);
+    
+    try {
+      const response = await fetch('/api/analyze-job', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          jobDescription: text,
+          jobPosting: posting || undefined
+        }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      
+      setJobAnalysis(data.analysis);
+    } catch (err) {
+      console.error('Error analyzing job description:', err);
+      setJobAnalysisError(err instanceof Error ? err.message : 'Failed to analyze job description');
+    } finally {
+      setJobAnalyzing(false);
+    }
+  };
+
+  // Fill the job description from a PDF, DOCX or saved job posting page
+  const handleJobDescriptionImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    setJobImporting(true);
+    setJobImportError(null);
+    
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      
+      const response = await fetch('/api/job-description', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      
+      setJobDescription(data.text);
+      setJobPosting(data.posting);
+      // Show what the imported posting focuses on without an extra click
+      analyzeJobDescription(data.text, data.posting);
+    } catch (err) {
+      console.error('Error importing job description:', err);
+      setJobImportError(err instanceof Error ? err.message : 'Failed to read job description');
+    } finally {
+      setJobImporting(false);
+      // Allow importing the same file again after editing it
+      e.target.value = '';
+    }
+  };
+
+  // Parse an uploaded resume so the interviewer can ask about the candidate's own projects
+  const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    setResumeUploading(true);
+    setResumeError(null);
+    setResumeProfile(null);
+    setResumeFileName(file.name);
+    
+    try {
+      const formData = new FormData();
+      formData.append('resume', file);
+      
+      const response = await fetch('/api/resume', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+      
+      setResumeProfile(data.profile);
+    } catch (err) {
+      console.error('Error uploading resume:', err);
+      setResumeError(err instanceof Error ? err.message : 'Failed to read resume');
+      setResumeFileName(null);
+    } finally {
+      setResumeUploading(false);
+    }
+  };
+
   // Updated handleStartInterview function to ensure proper sequencing
   const handleStartInterview = async () => {
     if (!jobDescription || !company) {
@@ -309,6 +527,10 @@ export default function Home() {
     setIsLoading(true);
     setError(null);
     setConversation([]);
+    setInterviewEnded(false);
+    interviewEndedRef.current = false;
+    setReport(null);
+    setReportError(null);
     lastAudioMessageIdRef.current = null; // Reset any audio playback state
     
     try {
@@ -353,7 +575,15 @@ export default function Home() {
         body: JSON.stringify({
           company,
           jobDescription,
+          jobPosting: jobPosting || undefined,
+          jobAnalysis: jobAnalysis || undefined,
           interviewMode,
+          temperament,
+          resume: resumeProfile || undefined,
+          panel,
+          timeBudgetMinutes: timeBudgetMinutes ?? undefined,
+          // ?seed=123 in the page URL replays an offline interview
+          seed: Number(new URLSearchParams(window.location.search).get('seed')) || undefined,
           initialQuestionsOnly: true // Signal that we only need 1-2 starter questions
         }),
       });
@@ -366,10 +596,13 @@ export default function Home() {
       
       if (data.questions && data.questions.length > 0) {
         setQuestions(data.questions);
+        setSessionId(data.sessionId || null);
+        setMockSeed(data.isMock ? data.seed : null);
         setCurrentQuestionIndex(0);
         
         // Start the interview first - this ensures the UI is ready
         setStarted(true);
+        setStartedAt(Date.now());
         
         // Reset any processing flags
         setProcessingFeedback(false);
@@ -383,14 +616,16 @@ export default function Home() {
         console.log("Starting interview with welcome message");
         
         // Add the welcome message with special Safari handling
-        const welcomeMessage = `Welcome to your ${interviewMode} interview preparation for ${company}. I'll adapt my questions based on your answers to create a natural conversation, just like in a real interview. This will help you improve your interviewing skills for the ${company} position. Let's start with the first question.`;
-        const summarizedWelcome = `Welcome to your ${interviewMode} interview with ${company}. Let's begin.`;
+        const welcomeMessage = `Welcome to your ${modeInfo.label.toLowerCase()} interview preparation for ${company}. I'll adapt my questions based on your answers to create a natural conversation, just like in a real interview. This will help you improve your interviewing skills for the ${company} position. Let's start with the first question.`;
+        const summarizedWelcome = `Welcome to your ${modeInfo.label.toLowerCase()} interview with ${company}. Let's begin.`;
+        const panelIntro = panel ? ` Today you'll meet ${panel.map(panelist => `${panelist.name}, ${panelist.role}`).join('; ')}.` : '';
+        const temperamentIntro = temperamentInfo.intro ? ` ${temperamentInfo.intro}` : '';
         
         const welcomeMessageId = `interviewer-welcome-${baseTime}`;
         addMessageToConversation({
           role: 'interviewer',
-          content: welcomeMessage,
-          summarizedContent: summarizedWelcome,
+          content: welcomeMessage + panelIntro + temperamentIntro,
+          summarizedContent: summarizedWelcome + panelIntro + temperamentIntro,
           needsAudioPlay: true,
           messageId: welcomeMessageId,
           timestamp: baseTime
@@ -483,6 +718,11 @@ export default function Home() {
     lastAudioMessageIdRef.current = null;
     setIsSpeaking(false);
     
+    // In hands-free mode the microphone opens as soon as a question has been asked
+    if (currentMessage?.role === 'interviewer' && currentMessage.question && handsFreeActiveRef.current) {
+      setTimeout(startHandsFreeAnswer, HANDS_FREE_OPEN_DELAY_MS);
+    }
+    
     // Check if a feedback message just finished playing
     if (currentMessage?.role === 'feedback') {
       console.log("Feedback audio just finished, waiting before triggering next question");
@@ -529,8 +769,76 @@ export default function Home() {
     return -1;
   };
 
+  // Fetch the end-of-interview report for the current session
+  const fetchReport = async () => {
+    if (!sessionId) {
+      setReportError('No interview session found, so a report could not be generated.');
+      return;
+    }
+    
+    setReportLoading(true);
+    setReportError(null);
+    
+    try {
+      const response = await fetch('/api/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      console.log("Received interview report:", data.report?.overallScore);
+      setReport(data.report);
+    } catch (error) {
+      console.error('Error fetching interview report:', error);
+      setReportError('Failed to generate your interview report. Please try again.');
+    } finally {
+      setReportLoading(false);
+    }
+  };
+
+  // Close the interview with a concluding message and show the report
+  const concludeInterview = (timestamp: number = Date.now()) => {
+    if (interviewEndedRef.current) return;
+    interviewEndedRef.current = true;
+    setInterviewEnded(true);
+    setListeningForVoice(false);
+    
+    const concludingMessage = "That concludes our interview. Thank you for your thoughtful responses. I hope this practice helps you in your actual interview with " + company + ".";
+    const concludingMessageId = `interviewer-conclusion-${Date.now()}`;
+    
+    addMessageToConversation({
+      role: 'interviewer',
+      content: concludingMessage,
+      summarizedContent: "That's all for today. Thanks for participating in this interview simulation.",
+      needsAudioPlay: true,
+      messageId: concludingMessageId,
+      timestamp
+    });
+    
+    console.log("Added concluding message:", concludingMessageId);
+    fetchReport();
+  };
+
   // Add the next question after feedback
   const addNextQuestion = (feedbackMessage: ConversationMessage) => {
+    // No more questions once the interview has been concluded
+    if (interviewEndedRef.current) {
+      console.log("Interview has ended, won't add another question");
+      return;
+    }
+    
+    // Wrap up instead of asking another question once the question or time budget is used
+    if (currentQuestionIndex + 1 >= totalQuestions || isBudgetUsed()) {
+      console.log("Question or time budget reached, concluding interview");
+      concludeInterview();
+      return;
+    }
+    
     // Don't add another question if we're already processing one
     if (processingFeedback) {
       console.log("Already processing feedback, won't add another question");
@@ -560,7 +868,10 @@ export default function Home() {
         question: {
           question: followUpQuestion,
           category: followUpCategory,
-          difficulty: "Follow-up"
+          difficulty: "Follow-up",
+          panelistId: feedbackMessage.feedback.follow_up_panelist,
+          coding: feedbackMessage.feedback.follow_up_coding,
+          timeLimitSeconds: feedbackMessage.feedback.follow_up_time_limit_seconds
         },
         summarizedContent: followUpQuestion,
         needsAudioPlay: true,
@@ -572,15 +883,11 @@ export default function Home() {
       
     } else {
       // If there's no follow-up question from API, create a default one
-      const currentQuestion = questions[currentQuestionIndex] || 
+      const currentQuestion = getCurrentQuestion() || 
         { question: "Tell me more about your experience", category: "Experience", difficulty: "Medium" };
       
       // Create a generic follow-up based on the current question's category
-      const followUpQuestion = `Let's explore another aspect. ${
-        interviewMode === 'behavioral' 
-          ? `Can you give me an example of a time when you demonstrated ${currentQuestion.category || "leadership"}?` 
-          : `How would you approach a problem related to ${currentQuestion.category || "system design"}?`
-      }`;
+      const followUpQuestion = `Let's explore another aspect. ${modeInfo.genericFollowUp(currentQuestion.category)}`;
       
       console.log("Using generic follow-up question:", followUpQuestion);
       
@@ -595,7 +902,8 @@ export default function Home() {
         question: {
           question: followUpQuestion,
           category: currentQuestion.category || "Follow-up",
-          difficulty: currentQuestion.difficulty || "Medium"
+          difficulty: currentQuestion.difficulty || "Medium",
+          panelistId: currentQuestion.panelistId
         },
         summarizedContent: followUpQuestion,
         needsAudioPlay: true,
@@ -612,6 +920,21 @@ export default function Home() {
     }, 1000);
   };
 
+  // Run the editor contents against the coding question's tests in the sandbox
+  const handleRunCode = async () => {
+    if (!codingSpec) return null;
+    
+    setCodeRunning(true);
+    try {
+      const results = await runCode(codeSource, codeLanguage, codingSpec);
+      console.log(`Code run: ${results.passed}/${results.total} tests passed (${results.status})`);
+      setCodeResults(results);
+      return results;
+    } finally {
+      setCodeRunning(false);
+    }
+  };
+
   // Request microphone permission before starting recording
   const handleVoiceButtonClick = async () => {
     // If already recording, stop it and reset error state
@@ -649,6 +972,7 @@ export default function Home() {
       // If we reach here, permission was granted
       setMicPermissionState('granted');
       console.log("Voice recording activated");
+      interruptedRef.current = false;
       setListeningForVoice(true);
     } catch (err) {
       console.error('Error accessing microphone:', err);
@@ -656,8 +980,33 @@ export default function Home() {
     }
   };
 
+  // Open the microphone for the current question without a click
+  const startHandsFreeAnswer = () => {
+    if (!handsFreeActiveRef.current || micPermissionState === 'denied') return;
+    console.log("Hands-free: opening the microphone");
+    interruptedRef.current = false;
+    setError(null);
+    setListeningForVoice(true);
+  };
+
+  // Pause or resume the hands-free loop; resuming reopens the microphone if the question is still waiting
+  const toggleHandsFreePause = () => {
+    if (!handsFreePaused) {
+      console.log("Hands-free: paused");
+      setHandsFreePaused(true);
+      return;
+    }
+    
+    console.log("Hands-free: resumed");
+    setHandsFreePaused(false);
+    handsFreeActiveRef.current = !interviewEnded;
+    if (!listeningForVoice && !isSpeaking && !processingFeedback) {
+      startHandsFreeAnswer();
+    }
+  };
+
   // Voice input handler with the same improvements
-  const handleVoiceInput = (transcript: string) => {
+  const handleVoiceInput = (transcript: string, recording?: RecordingDetails) => {
     // Don't process if we're already processing feedback
     if (processingFeedback) {
       console.log("Voice input rejected - already processing feedback");
@@ -665,6 +1014,14 @@ export default function Home() {
       return;
     }
     
+    // Saying "pause" in hands-free mode pauses the loop rather than answering
+    if (handsFree && isPauseCommand(transcript)) {
+      console.log("Hands-free: pause requested by voice");
+      setListeningForVoice(false);
+      setHandsFreePaused(true);
+      return;
+    }
+    
     // Prime Safari audio context first
     primeSafariAudioContext();
     
@@ -677,11 +1034,15 @@ export default function Home() {
       // Set processing flag to block duplicate messages
       setProcessingFeedback(true);
       
+      // Pace, filler words and pauses, from the recorder's own timing when it has it
+      const delivery = analyzeDelivery(transcript, recording?.durationSeconds ?? answerSecondsRef.current, recording?.volume, recording?.segments);
+      
       // Add user's voice answer to conversation
       const voiceMessageId = `candidate-voice-${Date.now()}`;
       addMessageToConversation({
         role: 'candidate',
         content: transcript,
+        delivery,
         messageId: voiceMessageId,
         timestamp: Date.now()
       });
@@ -698,9 +1059,20 @@ export default function Home() {
         
         try {
           // Get the current question
-          const currentQuestion = currentQuestionIndex < questions.length 
-            ? questions[currentQuestionIndex] 
-            : null;
+          const currentQuestion = getCurrentQuestion();
+          const interrupted = interruptedRef.current;
+          interruptedRef.current = false;
+          
+          // Coding answers carry the editor contents, run against the tests if they haven't been since the last edit
+          const code = codingSpec
+            ? { language: codeLanguage, source: codeSource, results: codeResults || (codeSource.trim() ? await handleRunCode() : null) || undefined }
+            : undefined;
+          // System design answers carry the whiteboard diagram, once something is drawn
+          const diagram = whiteboardActive && whiteboard.diagram.components.length > 0 ? whiteboard.diagram : undefined;
+          // Time on the question so far and the length of the recording, for pacing feedback
+          const timing = askedAt !== undefined
+            ? { questionSeconds: Math.max(0, Math.round((Date.now() - askedAt) / 1000)), answerSeconds: Math.round(answerSecondsRef.current), limitSeconds: currentQuestion?.timeLimitSeconds }
+            : undefined;
           
           // Prepare conversation history
           const conversationHistory = conversation
@@ -722,7 +1094,7 @@ export default function Home() {
           // Get feedback from the API
           const feedbackResponse = await fetch('/api/chat', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
             body: JSON.stringify({
               userAnswer: answerText,
               question: currentQuestion?.question || "Tell me about yourself",
@@ -730,8 +1102,18 @@ export default function Home() {
               difficulty: currentQuestion?.difficulty || "Medium",
               company,
               interviewMode,
+              temperament,
+              interrupted,
+              code,
+              diagram,
+              timing,
+              delivery,
+              questionMode: currentQuestion?.mode,
               conversationHistory,
-              generateFollowUp: true
+              sessionId,
+              seed: mockSeed ?? undefined,
+              generateFollowUp: true,
+              stream: true
             }),
           });
 
@@ -739,23 +1121,91 @@ export default function Home() {
             throw new Error('Failed to get feedback on answer');
           }
 
-          const feedback = await feedbackResponse.json();
-          console.log("Voice input: Received feedback response");
-
-          // Add feedback to conversation directly from OpenAI
           const feedbackMessageId = `feedback-for-${voiceMessageId}-${Date.now()}`;
           const feedbackTimestamp = Date.now() + 100;
+          let feedback: FeedbackResponse;
           
-          addMessageToConversation({
-            role: 'feedback',
-            content: feedback.feedback,
-            feedback: feedback,
-            needsAudioPlay: true,
-            messageId: feedbackMessageId,
-            timestamp: feedbackTimestamp
-          });
+          if (feedbackResponse.headers.get('content-type')?.includes('text/event-stream')) {
+            // Show the feedback as it is generated; speech starts once the first sentence is complete
+            let streamedText = '';
+            let streamedFeedback: FeedbackResponse | null = null;
+            let messageAdded = false;
+            
+            await readServerSentEvents(feedbackResponse, ({ event, data }) => {
+              if (event === 'feedback') {
+                streamedText += (data as { delta: string }).delta;
+                const partialFeedback: FeedbackResponse = {
+                  feedback: streamedText,
+                  strengths: [],
+                  improvements: [],
+                  score: 0,
+                  dimensions: [],
+                  follow_up: ''
+                };
+                
+                if (!messageAdded) {
+                  messageAdded = true;
+                  addMessageToConversation({
+                    role: 'feedback',
+                    content: streamedText,
+                    feedback: partialFeedback,
+                    needsAudioPlay: true,
+                    isStreaming: true,
+                    messageId: feedbackMessageId,
+                    timestamp: feedbackTimestamp
+                  });
+                } else {
+                  updateConversationMessage(feedbackMessageId, message => ({
+                    ...message,
+                    content: streamedText,
+                    feedback: partialFeedback
+                  }));
+                }
+              } else if (event === 'result') {
+                streamedFeedback = data as FeedbackResponse;
+              } else if (event === 'error') {
+                throw new Error((data as { error: string }).error);
+              }
+            });
+            
+            if (!streamedFeedback) {
+              throw new Error('Feedback stream ended without a result');
+            }
+            feedback = streamedFeedback;
+            
+            if (messageAdded) {
+              const finalFeedback = feedback;
+              updateConversationMessage(feedbackMessageId, message => ({
+                ...message,
+                content: finalFeedback.feedback,
+                feedback: finalFeedback,
+                isStreaming: false
+              }));
+            } else {
+              addMessageToConversation({
+                role: 'feedback',
+                content: feedback.feedback,
+                feedback: feedback,
+                needsAudioPlay: true,
+                messageId: feedbackMessageId,
+                timestamp: feedbackTimestamp
+              });
+            }
+          } else {
+            feedback = await feedbackResponse.json();
+            
+            // Add feedback to conversation directly from OpenAI
+            addMessageToConversation({
+              role: 'feedback',
+              content: feedback.feedback,
+              feedback: feedback,
+              needsAudioPlay: true,
+              messageId: feedbackMessageId,
+              timestamp: feedbackTimestamp
+            });
+          }
           
-          console.log("Voice input: Added feedback to conversation:", feedbackMessageId);
+          console.log("Voice input: Received feedback response and added it to conversation:", feedbackMessageId);
           
                       // Find and play the feedback audio
             setTimeout(() => {
@@ -768,8 +1218,13 @@ export default function Home() {
                 const estimatedAudioDuration = Math.max(2000, feedback.feedback.length * 80);
               
               setTimeout(() => {
-                // Now add the follow-up question if available
-                if (feedback.follow_up_question) {
+                const concludingTimestamp = feedbackTimestamp + estimatedAudioDuration + 1000;
+                
+                // Wrap up once the question or time budget is used
+                if (currentQuestionIndex + 1 >= totalQuestions || isBudgetUsed()) {
+                  concludeInterview(concludingTimestamp);
+                } else if (feedback.follow_up_question) {
+                  // Now add the follow-up question if available
                   // Increment question counter
                   setCurrentQuestionIndex(prevIndex => prevIndex + 1);
                   
@@ -783,7 +1238,10 @@ export default function Home() {
                     question: {
                       question: feedback.follow_up_question,
                       category: feedback.follow_up_category || currentQuestion?.category || "Follow-up",
-                      difficulty: currentQuestion?.difficulty || "Medium"
+                      difficulty: currentQuestion?.difficulty || "Medium",
+                      panelistId: feedback.follow_up_panelist,
+                      coding: feedback.follow_up_coding,
+                      timeLimitSeconds: feedback.follow_up_time_limit_seconds
                     },
                     summarizedContent: feedback.follow_up_question,
                     needsAudioPlay: true,
@@ -794,21 +1252,7 @@ export default function Home() {
                   console.log("Voice input: Added follow-up question:", followUpMessageId);
                 } else if (currentQuestionIndex >= questions.length - 1) {
                   // Interview completed
-                  const concludingMessage = "That concludes our interview. Thank you for your thoughtful responses. I hope this practice helps you in your actual interview with " + company + ".";
-                  
-                  const concludingMessageId = `interviewer-conclusion-voice-${Date.now()}`;
-                  const concludingTimestamp = feedbackTimestamp + estimatedAudioDuration + 1000;
-                  
-                  addMessageToConversation({
-                    role: 'interviewer',
-                    content: concludingMessage,
-                    summarizedContent: "That's all for today. Thanks for participating in this interview simulation.",
-                    needsAudioPlay: true,
-                    messageId: concludingMessageId,
-                    timestamp: concludingTimestamp
-                  });
-                  
-                  console.log("Voice input: Added concluding message:", concludingMessageId);
+                  concludeInterview(concludingTimestamp);
                 }
                 
                 // Clear the processing flag
@@ -836,11 +1280,28 @@ export default function Home() {
   };
 
   const handleRestart = () => {
+    // Drop the finished session from the server-side store
+    if (sessionId) {
+      fetch(`/api/session/${sessionId}`, { method: 'DELETE' }).catch(err => {
+        console.error('Error deleting session:', err);
+      });
+    }
+    
     setStarted(false);
     setQuestions([]);
+    setSessionId(null);
+    setMockSeed(null);
+    setInterviewEnded(false);
+    interviewEndedRef.current = false;
+    setReport(null);
+    setReportError(null);
     setCurrentQuestionIndex(0);
     setConversation([]);
     setError(null);
+    setDiagramSource('');
+    setHandsFreePaused(false);
+    setStartedAt(null);
+    setSpeechSegmentIndex(0);
     lastAudioMessageIdRef.current = null;
   };
 
@@ -849,6 +1310,101 @@ export default function Home() {
     setIsSpeaking(true);
   };
 
+  // Move on to the next feedback sentence once the current one has been spoken
+  const handleFeedbackSegmentEnded = () => {
+    setSpeechSegmentIndex(prevIndex => prevIndex + 1);
+  };
+
+  // Finish feedback playback once every sentence is spoken and the stream is complete
+  useEffect(() => {
+    const index = lastAudioMessageIdRef.current;
+    const message = index !== null ? conversation[index] : null;
+    
+    if (!message || message.role !== 'feedback' || message.isStreaming || speechSegmentIndex === 0) {
+      return;
+    }
+    
+    if (speechSegmentIndex >= getFeedbackSpeechSegments(message).length) {
+      console.log(`All feedback sentences spoken for message ${index}`);
+      setSpeechSegmentIndex(0);
+      handleAudioPlaybackEnded();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversation, speechSegmentIndex]);
+
+  // High-pressure interviewers stop long voice answers; stopping the recorder submits what was said so far
+  useEffect(() => {
+    const limit = temperamentInfo.interruptAfterSeconds;
+    if (!listeningForVoice || !limit) {
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      console.log(`Interrupting voice answer after ${limit} seconds`);
+      interruptedRef.current = true;
+      setListeningForVoice(false);
+    }, limit * 1000);
+    return () => clearTimeout(timer);
+  }, [listeningForVoice, temperamentInfo.interruptAfterSeconds]);
+
+  // Hands-free runs from the first question until the interview ends, unless paused
+  useEffect(() => {
+    handsFreeActiveRef.current = handsFree && !handsFreePaused && !interviewEnded;
+  }, [handsFree, handsFreePaused, interviewEnded]);
+
+  // P pauses and resumes hands-free mode, Escape pauses it; ignored while typing
+  useEffect(() => {
+    if (!handsFree || !started || interviewEnded) return;
+    
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!PAUSE_KEYS.includes(event.key) || (event.key === 'Escape' && handsFreePaused)) return;
+      event.preventDefault();
+      toggleHandsFreePause();
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Tick the countdowns while the interview runs
+  useEffect(() => {
+    if (!started || interviewEnded) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [started, interviewEnded]);
+
+  // Time each voice recording, so the answer's length goes to the grader
+  useEffect(() => {
+    if (listeningForVoice) {
+      recordingStartedAtRef.current = Date.now();
+    } else if (recordingStartedAtRef.current !== null) {
+      answerSecondsRef.current = (Date.now() - recordingStartedAtRef.current) / 1000;
+      recordingStartedAtRef.current = null;
+    }
+  }, [listeningForVoice]);
+
+  // Optionally stop recording when the question's time is up, leaving a little time if it already was
+  useEffect(() => {
+    if (!listeningForVoice || !autoStopAtLimit || !questionLimit || askedAt === undefined) return;
+    
+    const remaining = Math.max(questionLimit - (Date.now() - askedAt) / 1000, MIN_RECORDING_SECONDS);
+    const timer = setTimeout(() => {
+      console.log(`Stopping voice answer at the ${questionLimit} second limit`);
+      setListeningForVoice(false);
+    }, remaining * 1000);
+    return () => clearTimeout(timer);
+  }, [listeningForVoice, autoStopAtLimit, questionLimit, askedAt]);
+
+  // A new coding question starts from its starter code
+  useEffect(() => {
+    if (codingQuestion?.coding) {
+      setCodeSource(codingQuestion.coding.starterCode);
+      setCodeResults(null);
+    }
+  }, [codingQuestion]);
+
   // Use effect to check microphone permission on component mount
   useEffect(() => {
     // Function to check microphone permission status
@@ -966,9 +1522,20 @@ export default function Home() {
                 id="company"
                 value={company}
                 onChange={(e) => setCompany(e.target.value)}
+                list="companyPacks"
                 className="w-full p-3 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-900/70 text-white"
                 placeholder="Enter company name (e.g., Google, Amazon, Microsoft)"
               />
+              <datalist id="companyPacks">
+                {companyPacks.map(pack => (
+                  <option key={pack.name} value={pack.name} />
+                ))}
+              </datalist>
+              {companyPack && (
+                <p className="mt-2 text-xs text-gray-400">
+                  Questions and feedback will use the {companyPack.name} profile pack (values, interview stages and question styles)
+                </p>
+              )}
             </div>
             
             <div className="mb-6">
@@ -978,11 +1545,79 @@ export default function Home() {
               <textarea
                 id="jobDescription"
                 value={jobDescription}
-                onChange={(e) => setJobDescription(e.target.value)}
+                onChange={(e) => {
+                  setJobDescription(e.target.value);
+                  // The analysis no longer matches edited text; clearing it also drops the imported fields
+                  setJobAnalysis(null);
+                  if (!e.target.value) setJobPosting(null);
+                }}
                 className="w-full p-3 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-900/70 text-white"
                 rows={6}
                 placeholder="Paste the job description here (include technical requirements, responsibilities, etc.)"
               />
+              <div className="mt-2 flex items-center text-xs text-gray-400">
+                <label htmlFor="jobDescriptionFile" className={`text-blue-400 hover:text-blue-300 ${jobImporting ? 'opacity-50' : 'cursor-pointer'}`}>
+                  {jobImporting ? 'Importing...' : 'Import from file'}
+                </label>
+                <span className="ml-1">(PDF, DOCX or a saved job posting page)</span>
+                <input
+                  type="file"
+                  id="jobDescriptionFile"
+                  accept=".pdf,.docx,.html,.htm,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/html,text/plain"
+                  onChange={handleJobDescriptionImport}
+                  disabled={jobImporting}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => analyzeJobDescription(jobDescription, jobPosting)}
+                  disabled={!jobDescription.trim() || jobAnalyzing}
+                  className="ml-auto text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:hover:text-blue-400"
+                >
+                  {jobAnalyzing ? 'Analyzing...' : jobAnalysis ? 'Re-analyze' : 'Analyze focus areas'}
+                </button>
+              </div>
+              {jobImportError && (
+                <p className="mt-2 text-xs text-red-300">{jobImportError}</p>
+              )}
+              {jobPosting && (
+                <p className="mt-2 text-xs text-gray-400">
+                  Imported {[jobPosting.title, jobPosting.level && `${jobPosting.level} level`, jobPosting.location].filter(Boolean).join(' · ') || 'job posting'}
+                  {' '}with {jobPosting.requirements.length} requirements and {jobPosting.niceToHaves.length} nice-to-haves
+                </p>
+              )}
+              {jobAnalysisError && (
+                <p className="mt-2 text-xs text-red-300">{jobAnalysisError}</p>
+              )}
+              {jobAnalysis && !jobAnalyzing && (
+                <JobAnalysisSummary analysis={jobAnalysis} />
+              )}
+            </div>
+
+            {/* Optional resume so questions can reference the candidate's own experience */}
+            <div className="mb-6">
+              <label htmlFor="resume" className="block text-sm font-medium mb-2 text-gray-300">
+                Resume (optional)
+              </label>
+              <input
+                type="file"
+                id="resume"
+                accept=".pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+                onChange={handleResumeUpload}
+                disabled={resumeUploading}
+                className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+              />
+              {resumeUploading && (
+                <p className="mt-2 text-xs text-gray-400">Reading {resumeFileName}...</p>
+              )}
+              {resumeError && (
+                <p className="mt-2 text-xs text-red-300">{resumeError}</p>
+              )}
+              {resumeProfile && !resumeUploading && (
+                <p className="mt-2 text-xs text-gray-400">
+                  Found {resumeProfile.roles.length} {resumeProfile.roles.length === 1 ? 'role' : 'roles'}, {resumeProfile.projects.length} {resumeProfile.projects.length === 1 ? 'project' : 'projects'} and {resumeProfile.skills.length} skills in {resumeFileName}
+                </p>
+              )}
             </div>
 
             {/* Interview Mode Selection */}
@@ -990,42 +1625,188 @@ export default function Home() {
               <label className="block text-sm font-medium mb-2 text-gray-300">
                 Interview Type
               </label>
-              <div className="flex space-x-4">
-                <button
-                  onClick={() => setInterviewMode('technical')}
-                  className={`flex-1 py-3 px-4 rounded-lg transition-colors ${
-                    interviewMode === 'technical' 
-                      ? 'bg-blue-600 text-white' 
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                >
-                  <div className="flex items-center justify-center">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M12.316 3.051a1 1 0 01.633 1.265l-4 12a1 1 0 11-1.898-.632l4-12a1 1 0 011.265-.633zM5.707 6.293a1 1 0 010 1.414L3.414 10l2.293 2.293a1 1 0 11-1.414 1.414l-3-3a1 1 0 010-1.414l3-3a1 1 0 011.414 0zm8.586 0a1 1 0 011.414 0l3 3a1 1 0 010 1.414l-3 3a1 1 0 11-1.414-1.414L16.586 10l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" />
-                    </svg>
-                    Technical
-                  </div>
-                </button>
-                <button
-                  onClick={() => setInterviewMode('behavioral')}
-                  className={`flex-1 py-3 px-4 rounded-lg transition-colors ${
-                    interviewMode === 'behavioral' 
-                      ? 'bg-indigo-600 text-white' 
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                >
-                  <div className="flex items-center justify-center">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-6-3a2 2 0 11-4 0 2 2 0 014 0zm-2 4a5 5 0 00-4.546 2.916A5.986 5.986 0 005 10a6 6 0 0012 0c0-.35-.041-.69-.101-1.021A5 5 0 0010 11z" clipRule="evenodd" />
-                    </svg>
-                    Behavioral
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {INTERVIEW_MODE_IDS.map(modeId => {
+                  const mode = INTERVIEW_MODE_CATALOG[modeId];
+                  return (
+                    <button
+                      key={modeId}
+                      onClick={() => setInterviewMode(modeId)}
+                      className={`py-3 px-4 rounded-lg transition-colors ${
+                        interviewMode === modeId 
+                          ? `${mode.colors.button} text-white` 
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      <div className="flex items-center justify-center">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 shrink-0" viewBox="0 0 20 20" fill="currentColor">
+                          <path fillRule="evenodd" d={mode.icon} clipRule="evenodd" />
+                        </svg>
+                        {mode.label}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="mt-2 text-xs text-gray-400">
+                {modeInfo.description}
+              </p>
+            </div>
+
+            {/* Panel Selection */}
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-300">
+                  Interviewers
+                </label>
+                <div className="flex rounded-lg overflow-hidden text-xs">
+                  <button
+                    onClick={() => setPanelEnabled(false)}
+                    className={`py-1 px-3 ${!panelEnabled ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    One interviewer
+                  </button>
+                  <button
+                    onClick={() => setPanelEnabled(true)}
+                    className={`py-1 px-3 ${panelEnabled ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    Panel
+                  </button>
+                </div>
+              </div>
+              {panelEnabled && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    {PANELIST_PRESETS.map(preset => {
+                      const selected = panelIds.includes(preset.id);
+                      return (
+                        <button
+                          key={preset.id}
+                          onClick={() => setPanelIds(prev => selected
+                            ? prev.filter(id => id !== preset.id)
+                            : [...prev, preset.id])}
+                          disabled={selected ? panelIds.length <= 2 : panelIds.length >= 3}
+                          className={`p-3 rounded-lg text-left transition-colors disabled:cursor-not-allowed ${
+                            selected
+                              ? 'bg-blue-900/40 border border-blue-500 text-white'
+                              : 'bg-gray-700 border border-transparent text-gray-300 hover:bg-gray-600 disabled:opacity-50'
+                          }`}
+                        >
+                          <div className="text-sm font-medium">{preset.name}</div>
+                          <div className="text-xs text-gray-400">{preset.role}</div>
+                        </button>
+                      );
+                    })}
                   </div>
-                </button>
+                  <p className="mt-2 text-xs text-gray-400">
+                    Pick two or three panelists. Each asks in their own voice, and follow-ups go to whoever&apos;s focus fits best.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* Interviewer Style Selection */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium mb-2 text-gray-300">
+                Interviewer Style
+              </label>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {TEMPERAMENT_IDS.map(temperamentId => (
+                  <button
+                    key={temperamentId}
+                    onClick={() => setTemperament(temperamentId)}
+                    className={`py-2 px-2 rounded-lg text-sm transition-colors ${
+                      temperament === temperamentId
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {TEMPERAMENT_CATALOG[temperamentId].label}
+                  </button>
+                ))}
               </div>
               <p className="mt-2 text-xs text-gray-400">
-                {interviewMode === 'technical' 
-                  ? 'Focus on coding, algorithms, and technical knowledge' 
-                  : 'Focus on soft skills, experience, and situational questions'}
+                {temperamentInfo.description}
+              </p>
+            </div>
+
+            {/* Time Budget Selection */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium mb-2 text-gray-300">
+                Time Budget
+              </label>
+              <div className="grid grid-cols-5 gap-2">
+                {[null, ...TIME_BUDGET_OPTIONS].map(minutes => (
+                  <button
+                    key={minutes ?? 'none'}
+                    onClick={() => setTimeBudgetMinutes(minutes)}
+                    className={`py-2 px-2 rounded-lg text-sm transition-colors ${
+                      timeBudgetMinutes === minutes
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {minutes === null ? 'No limit' : `${minutes} min`}
+                  </button>
+                ))}
+              </div>
+              <label className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={autoStopAtLimit}
+                  onChange={e => setAutoStopAtLimit(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                Stop recording when a question&apos;s time is up
+              </label>
+              <p className="mt-2 text-xs text-gray-400">
+                Every question has a recommended time with a countdown. With a budget, the interview wraps up once the time is used.
+              </p>
+            </div>
+
+            {/* Ending answers on silence */}
+            <div className="mb-6">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={handsFree}
+                  onChange={e => setHandsFree(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                Hands-free mode
+              </label>
+              <p className="mt-1 mb-3 text-xs text-gray-400">
+                Like a phone screen: the microphone opens after each question and the next question follows your answer without any clicks. Say &quot;pause&quot; or press P to take a break.
+              </p>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={autoStopAfterSilence || handsFree}
+                  disabled={handsFree}
+                  onChange={e => setAutoStopAfterSilence(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                End answers automatically when I stop talking
+              </label>
+              {(autoStopAfterSilence || handsFree) && (
+                <div className="mt-3 grid grid-cols-3 gap-2">
+                  {SILENCE_SECONDS_OPTIONS.map(seconds => (
+                    <button
+                      key={seconds}
+                      onClick={() => setSilenceSeconds(seconds)}
+                      className={`py-2 px-2 rounded-lg text-sm transition-colors ${
+                        silenceSeconds === seconds
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {seconds}s of silence
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="mt-2 text-xs text-gray-400">
+                The recorder measures your room&apos;s background noise when it starts, then submits the answer after you have spoken and gone quiet.
               </p>
             </div>
             
@@ -1040,7 +1821,7 @@ export default function Home() {
                   <span>Preparing Interview...</span>
                 </div>
               ) : (
-                `Start ${interviewMode === 'technical' ? 'Technical' : 'Behavioral'} Interview`
+                `Start ${modeInfo.label} Interview`
               )}
             </button>
           </div>
@@ -1053,20 +1834,29 @@ export default function Home() {
                   <h3 className="text-xl font-medium text-blue-400">
                     {company} Interviewer
                   </h3>
-                  <button 
-                    onClick={handleRestart}
-                    className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-sm text-white rounded-md transition"
-                  >
-                    Restart
-                  </button>
+                  <div className="flex space-x-2">
+                    {!interviewEnded && (
+                      <button 
+                        onClick={() => concludeInterview()}
+                        disabled={processingFeedback}
+                        className="py-1 px-3 bg-red-700 hover:bg-red-600 text-sm text-white rounded-md transition disabled:opacity-50"
+                      >
+                        End Interview
+                      </button>
+                    )}
+                    <button 
+                      onClick={handleRestart}
+                      className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-sm text-white rounded-md transition"
+                    >
+                      Restart
+                    </button>
+                  </div>
                 </div>
                 
                 {/* Interview mode indicator */}
                 <div className="mb-4">
-                  <span className={`inline-block px-3 py-1 rounded-full text-sm ${
-                    interviewMode === 'technical' ? 'bg-blue-600/30 text-blue-300' : 'bg-indigo-600/30 text-indigo-300'
-                  }`}>
-                    {interviewMode === 'technical' ? 'Technical Interview' : 'Behavioral Interview'}
+                  <span className={`inline-block px-3 py-1 rounded-full text-sm ${modeInfo.colors.badge}`}>
+                    {modeInfo.label} Interview
                   </span>
                 </div>
                 
@@ -1082,6 +1872,11 @@ export default function Home() {
                       style={{ width: `${((currentQuestionIndex) / (totalQuestions)) * 100}%` }}
                     ></div>
                   </div>
+                  {mockSeed !== null && (
+                    <p className="mt-1 text-xs text-gray-500" title="Add ?seed= with this value to the page URL to replay this offline interview">
+                      Offline interview · seed {mockSeed}
+                    </p>
+                  )}
                 </div>
                 
                 {/* Animated interviewer image */}
@@ -1093,8 +1888,8 @@ export default function Home() {
                         {/* Background gradient */}
                         <defs>
                           <linearGradient id="avatarGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-                            <stop offset="0%" stopColor={interviewMode === 'technical' ? '#3b82f6' : '#6366f1'} stopOpacity="0.6" />
-                            <stop offset="100%" stopColor={interviewMode === 'technical' ? '#1e40af' : '#4338ca'} stopOpacity="0.9" />
+                            <stop offset="0%" stopColor={modeInfo.colors.light} stopOpacity="0.6" />
+                            <stop offset="100%" stopColor={modeInfo.colors.dark} stopOpacity="0.9" />
                           </linearGradient>
                           <clipPath id="avatarClip">
                             <circle cx="100" cy="85" r="70" />
@@ -1132,9 +1927,9 @@ export default function Home() {
                         </g>
                         
                         {/* Suit/clothes */}
-                        <path d="M55,135 L100,160 L145,135 V180 H55 Z" fill={interviewMode === 'technical' ? '#1d4ed8' : '#4f46e5'} />
+                        <path d="M55,135 L100,160 L145,135 V180 H55 Z" fill={modeInfo.colors.suit} />
                         <rect x="85" y="115" width="30" height="40" fill="white" />
-                        <rect x="97" y="115" width="6" height="40" fill={interviewMode === 'technical' ? '#1d4ed8' : '#4f46e5'} />
+                        <rect x="97" y="115" width="6" height="40" fill={modeInfo.colors.suit} />
                         
                         {/* Company badge */}
                         <g transform="translate(80, 125)">
@@ -1180,6 +1975,26 @@ export default function Home() {
                   </div>
                 )}
                 
+                {/* Question and interview countdowns */}
+                {!interviewEnded && (
+                  <InterviewTimer
+                    questionElapsed={askedAt !== undefined ? Math.max(0, (clock - askedAt) / 1000) : null}
+                    questionLimit={questionLimit}
+                    interviewElapsed={startedAt !== null ? (clock - startedAt) / 1000 : null}
+                    budgetSeconds={budgetSeconds}
+                    autoStop={autoStopAtLimit}
+                  />
+                )}
+                
+                {/* Hands-free loop status and pause control */}
+                {handsFree && !interviewEnded && (
+                  <HandsFreeIndicator
+                    status={getHandsFreeStatus({ paused: handsFreePaused, isSpeaking, listening: listeningForVoice, processing: processingFeedback })}
+                    paused={handsFreePaused}
+                    onTogglePause={toggleHandsFreePause}
+                  />
+                )}
+                
                 {/* Voice control */}
                 <button 
                   onClick={handleVoiceButtonClick}
@@ -1192,7 +2007,7 @@ export default function Home() {
                           ? 'bg-gray-600'
                       : 'bg-blue-600 hover:bg-blue-700'
                   }`}
-                  disabled={micPermissionState === 'denied' || isSpeaking}
+                  disabled={micPermissionState === 'denied' || isSpeaking || interviewEnded}
                 >
                   {listeningForVoice ? (
                     <>
@@ -1238,120 +2053,142 @@ export default function Home() {
             {/* Conversation thread */}
             <div className="w-full md:w-2/3">
               <div className="bg-gray-800/20 rounded-xl shadow-lg p-4 mb-4 min-h-[60vh] max-h-[80vh] overflow-y-auto backdrop-blur-sm border border-gray-700/50">
-                {conversation.map((message, index) => (
-                  <div key={index} className={`mb-6`}>
-                    {message.role === 'interviewer' && (
-                      <div className="flex space-x-3 items-start">
-                        <div className="w-9 h-9 rounded-full bg-blue-600 flex items-center justify-center flex-shrink-0">
-                          <span className="text-white font-bold">I</span>
-                        </div>
-                        <div className="flex-1">
-                          <div className="bg-gray-700/40 p-3 rounded-lg rounded-tl-none">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="font-medium text-blue-300">
-                                Interviewer {message.question && `(${message.question.category}${message.question.difficulty ? `, ${message.question.difficulty}` : ''})`}
-                              </span>
-                            </div>
-                            <p className="text-white">{message.content}</p>
+                {conversation.map((message, index) => {
+                  const speaker = getSpeaker(message);
+                  return (
+                    <div key={index} className={`mb-6`}>
+                      {message.role === 'interviewer' && (
+                        <div className="flex space-x-3 items-start">
+                          <div className={`w-9 h-9 rounded-full ${speaker?.color || 'bg-blue-600'} flex items-center justify-center flex-shrink-0`}>
+                            <span className="text-white font-bold">{speaker?.panelist.name.charAt(0) || 'I'}</span>
+                          </div>
+                          <div className="flex-1">
+                            <div className="bg-gray-700/40 p-3 rounded-lg rounded-tl-none">
+                              <div className="flex justify-between items-start mb-1">
+                                <span className="font-medium text-blue-300">
+                                  {speaker ? `${speaker.panelist.name}, ${speaker.panelist.role}` : 'Interviewer'} {message.question && `(${message.question.category}${message.question.difficulty ? `, ${message.question.difficulty}` : ''})`}
+                                </span>
+                              </div>
+                              <p className="text-white">{message.content}</p>
                             
-                            {index === lastAudioMessageIdRef.current && (
-                              <>
-                                <div className="text-xs text-blue-300 mb-1">Playing interviewer audio...</div>
-                                <AudioPlayer 
-                                  text={message.summarizedContent || message.content}
-                                  messageId={index}
-                                  autoPlay={true}
-                                  hideControls={true}
-                                  onPlaybackStart={handleAudioPlaybackStarted}
-                                  onPlaybackEnd={handleAudioPlaybackEnded}
-                                  voiceId={VOICE_ID}
-                                />
-                              </>
-                            )}
+                              {index === lastAudioMessageIdRef.current && (
+                                <>
+                                  <div className="text-xs text-blue-300 mb-1">Playing interviewer audio...</div>
+                                  <AudioPlayer 
+                                    text={message.summarizedContent || message.content}
+                                    messageId={index}
+                                    autoPlay={true}
+                                    hideControls={true}
+                                    onPlaybackStart={handleAudioPlaybackStarted}
+                                    onPlaybackEnd={handleAudioPlaybackEnded}
+                                    voiceId={speaker?.panelist.voiceId || VOICE_ID}
+                                    temperament={temperament}
+                                  />
+                                </>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {message.role === 'candidate' && (
-                      <div className="flex space-x-3 items-start justify-end">
-                        <div className="flex-1">
-                          <div className="bg-blue-900/30 p-3 rounded-lg rounded-tr-none border border-blue-700/30">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="font-medium text-blue-300">You</span>
+                      {message.role === 'candidate' && (
+                        <div className="flex space-x-3 items-start justify-end">
+                          <div className="flex-1">
+                            <div className="bg-blue-900/30 p-3 rounded-lg rounded-tr-none border border-blue-700/30">
+                              <div className="flex justify-between items-start mb-1">
+                                <span className="font-medium text-blue-300">You</span>
+                              </div>
+                              <p>{message.content}</p>
+                              {message.delivery && <DeliveryStats metrics={message.delivery} />}
                             </div>
-                            <p>{message.content}</p>
+                          </div>
+                          <div className="w-9 h-9 rounded-full bg-green-600 flex items-center justify-center flex-shrink-0">
+                            <span className="text-white font-bold">Y</span>
                           </div>
                         </div>
-                        <div className="w-9 h-9 rounded-full bg-green-600 flex items-center justify-center flex-shrink-0">
-                          <span className="text-white font-bold">Y</span>
-                        </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {message.role === 'feedback' && message.feedback && (
-                      <div className="flex space-x-3 items-start">
-                        <div className="w-9 h-9 rounded-full bg-indigo-600 flex items-center justify-center flex-shrink-0">
-                          <span className="text-white font-bold">F</span>
-                        </div>
-                        <div className="flex-1">
-                          <div className="bg-indigo-900/20 p-3 rounded-lg rounded-tl-none border border-indigo-800/20">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="font-medium text-indigo-300">Feedback</span>
-                              <span className="px-2 py-0.5 bg-indigo-700/70 rounded-md text-xs ml-2">
-                                Score: {message.feedback.score}/5
-                              </span>
-                            </div>
-                            <p className="mb-2">{message.feedback.feedback}</p>
-                            
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                              <div>
-                                <h4 className="text-sm font-medium mb-1 text-green-300">Strengths:</h4>
-                                <ul className="list-disc pl-5 text-sm text-gray-200">
-                                  {message.feedback.strengths.map((strength, idx) => (
-                                    <li key={idx}>{strength}</li>
-                                  ))}
-                                </ul>
-                              </div>
-                              <div>
-                                <h4 className="text-sm font-medium mb-1 text-yellow-300">Areas for Improvement:</h4>
-                                <ul className="list-disc pl-5 text-sm text-gray-200">
-                                  {message.feedback.improvements.map((improvement, idx) => (
-                                    <li key={idx}>{improvement}</li>
-                                  ))}
-                                </ul>
+                      {message.role === 'feedback' && message.feedback && (
+                        <div className="flex space-x-3 items-start">
+                          <div className="w-9 h-9 rounded-full bg-indigo-600 flex items-center justify-center flex-shrink-0">
+                            <span className="text-white font-bold">F</span>
+                          </div>
+                          <div className="flex-1">
+                            <div className="bg-indigo-900/20 p-3 rounded-lg rounded-tl-none border border-indigo-800/20">
+                              <div className="flex justify-between items-start mb-1">
+                                <span className="font-medium text-indigo-300">Feedback</span>
+                                <span className="px-2 py-0.5 bg-indigo-700/70 rounded-md text-xs ml-2">
+                                  {message.isStreaming ? 'Scoring...' : `Score: ${message.feedback.score}/5`}
+                                </span>
                               </div>
-                            </div>
+                              <p className="mb-2">{message.feedback.feedback}</p>
+                            
+                              {!message.isStreaming && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                                  <div>
+                                    <h4 className="text-sm font-medium mb-1 text-green-300">Strengths:</h4>
+                                    <ul className="list-disc pl-5 text-sm text-gray-200">
+                                      {message.feedback.strengths.map((strength, idx) => (
+                                        <li key={idx}>{strength}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                  <div>
+                                    <h4 className="text-sm font-medium mb-1 text-yellow-300">Areas for Improvement:</h4>
+                                    <ul className="list-disc pl-5 text-sm text-gray-200">
+                                      {message.feedback.improvements.map((improvement, idx) => (
+                                        <li key={idx}>{improvement}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                </div>
+                              )}
+                            
+                              {!message.isStreaming && message.feedback.dimensions && (
+                                <RubricBreakdown dimensions={message.feedback.dimensions} />
+                              )}
                             
-                            {message.feedback.follow_up && (
-                              <div className="mt-3 pt-2 border-t border-indigo-700/30">
-                                <p className="text-sm italic">
-                                  <span className="font-semibold">Follow-up question:</span> {message.feedback.follow_up}
+                              {message.feedback.generatedBy && (
+                                <p className="mt-2 text-xs text-gray-500">
+                                  Graded by {message.feedback.generatedBy.provider} ({message.feedback.generatedBy.model})
                                 </p>
-                              </div>
-                            )}
+                              )}
+                            
+                              {message.feedback.follow_up && (
+                                <div className="mt-3 pt-2 border-t border-indigo-700/30">
+                                  <p className="text-sm italic">
+                                    <span className="font-semibold">Follow-up question:</span> {message.feedback.follow_up}
+                                  </p>
+                                </div>
+                              )}
                             
-                            {index === lastAudioMessageIdRef.current && (
-                              <>
-                                <div className="text-xs text-indigo-300 mt-3 mb-1">Playing feedback audio...</div>
-                                <AudioPlayer 
-                                  text={message.feedback.feedback}
-                                  messageId={index}
-                                  autoPlay={true}
-                                  hideControls={true}
-                                  onPlaybackStart={handleAudioPlaybackStarted}
-                                  onPlaybackEnd={handleAudioPlaybackEnded}
-                                  isFeedback={true}
-                                  voiceId={VOICE_ID}
-                                />
-                              </>
-                            )}
+                              {index === lastAudioMessageIdRef.current && (
+                                <>
+                                  <div className="text-xs text-indigo-300 mt-3 mb-1">Playing feedback audio...</div>
+                                  {/* One player per sentence so speech can start before the feedback finishes streaming */}
+                                  {speechSegmentIndex < getFeedbackSpeechSegments(message).length && (
+                                    <AudioPlayer 
+                                      key={`feedback-${index}-${speechSegmentIndex}`}
+                                      text={getFeedbackSpeechSegments(message)[speechSegmentIndex]}
+                                      messageId={-(index * 100 + speechSegmentIndex + 1)}
+                                      autoPlay={true}
+                                      hideControls={true}
+                                      onPlaybackStart={handleAudioPlaybackStarted}
+                                      onPlaybackEnd={handleFeedbackSegmentEnded}
+                                      isFeedback={true}
+                                      voiceId={VOICE_ID}
+                                      temperament={temperament}
+                                    />
+                                  )}
+                                </>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                ))}
+                      )}
+                    </div>
+                  );
+                })}
                 <div ref={conversationEndRef} />
                 
                 {/* Voice recording indicator */}
@@ -1365,17 +2202,54 @@ export default function Home() {
                 )}
               </div>
               
+              {/* Editor for coding questions */}
+              {codingSpec && !interviewEnded && (
+                <CodeEditor
+                  spec={codingSpec}
+                  language={codeLanguage}
+                  source={codeSource}
+                  results={codeResults}
+                  running={codeRunning}
+                  onLanguageChange={language => {
+                    setCodeLanguage(language);
+                    setCodeResults(null);
+                  }}
+                  onSourceChange={source => {
+                    setCodeSource(source);
+                    setCodeResults(null);
+                  }}
+                  onRun={handleRunCode}
+                />
+              )}
+              
+              {/* Whiteboard for system design questions */}
+              {whiteboardActive && !interviewEnded && (
+                <Whiteboard
+                  source={diagramSource}
+                  parsed={whiteboard}
+                  onSourceChange={setDiagramSource}
+                />
+              )}
+              
               {/* Hidden recorder component */}
               <div className={listeningForVoice ? "block" : "hidden"}>
                 <VoiceRecorder 
                   onTranscription={handleVoiceInput} 
                   isListening={listeningForVoice}
-                  autoStopAfterSilence={false} // Never auto-stop
+                  autoStopAfterSilence={autoStopAfterSilence || (handsFree && !handsFreePaused)}
+                  voiceActivity={{ silenceSeconds }}
+                  onSilenceStop={() => setListeningForVoice(false)}
+                  reviewLowConfidence={!handsFree}
                 />
               </div>
               
+              {/* End-of-interview report */}
+              {interviewEnded && (
+                <InterviewReport report={report} isLoading={reportLoading} error={reportError} />
+              )}
+              
               {/* Text input fallback */}
-              {!listeningForVoice && currentQuestionIndex < questions.length && processingFeedback === false && (
+              {!listeningForVoice && !interviewEnded && currentQuestionIndex < questions.length && processingFeedback === false && (
                 <div className="bg-gray-800/30 p-4 rounded-xl shadow-lg border border-gray-700/50 backdrop-blur-sm">
                   <div className="text-center py-3">
                     <h3 className="text-lg font-medium mb-2 text-white">Ready for your answer</h3>
@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   serverExternalPackages: ['openai'],
+  // Company profile packs and the question bank are read from disk at runtime, so ship them with the API routes
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./data/companies/**/*', './data/questions/**/*'],
+  },
   images: {
     domains: [
       'avatars.githubusercontent.com',